@@ -2,12 +2,32 @@ import { Component, OnInit, OnDestroy } from '@angular/core';
 
 import { FormsModule, ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
 import { Subject, takeUntil } from 'rxjs';
-import * as htmlToImage from 'html-to-image';
 import { CardService } from './services/card.service';
 import { ExportService } from './services/export.service';
-import { BatchService } from './services/batch.service';
+import { BatchImportResult, BatchService } from './services/batch.service';
+import { ImageService } from './services/image.service';
 import { StorageService } from './services/storage.service';
-import { PlayerData, PlayerStats, CardTemplate, ITPosition, CardTheme, StoredCard, STAT_LABELS, POSITION_NAMES } from './models/player.model';
+import { HistoryRetentionPolicy, DEFAULT_RETENTION_POLICY } from './services/card-repository.service';
+import { ProjectService } from './services/project.service';
+import { TemplateConflictStrategy, TemplateService } from './services/template.service';
+import { FifaCardComponent } from './components/fifa-card/fifa-card.component';
+import { LineupComponent } from './components/lineup/lineup.component';
+import { TemplateEditorComponent } from './components/template-editor/template-editor.component';
+import { StatSchemaEditorComponent } from './components/stat-schema-editor/stat-schema-editor.component';
+import { RatingWeightsComponent } from './components/rating-weights/rating-weights.component';
+import { CustomPositionsComponent } from './components/custom-positions/custom-positions.component';
+import { ImportWizardComponent } from './components/import-wizard/import-wizard.component';
+import { PhotoMatchReviewComponent } from './components/photo-match-review/photo-match-review.component';
+import { PhotoEditorComponent } from './components/photo-editor/photo-editor.component';
+import { LogoLibraryComponent } from './components/logo-library/logo-library.component';
+import { PrintSettingsComponent } from './components/print-settings/print-settings.component';
+import { CardVariantsComponent } from './components/card-variants/card-variants.component';
+import { AnimationSettingsComponent } from './components/animation-settings/animation-settings.component';
+import { PackOpeningComponent } from './components/pack-opening/pack-opening.component';
+import { PlayerData, CardTemplate, CardTheme, StoredCard, Project, ProjectSettings, StatSchema, RatingProfiles, PositionDefinition, LogoEntry, PhotoCrop, DEFAULT_CARD_LAYOUT, DEFAULT_PHOTO_CROP, MAX_BIO_LENGTH, MAX_QUOTE_LENGTH, MAX_TECH_STACK_TAGS, MAX_YEARS_OF_EXPERIENCE, MAX_STAR_RATING, MAX_TEAM_LENGTH, SENIORITY_LEVELS, SeniorityLevel } from './models/player.model';
+import { ImportSource, PhotoMatch } from './models/import.model';
+import { PrintProfile } from './models/print.model';
+import { ANIMATION_FORMATS, AnimationProfile } from './models/animation.model';
 
 interface Toast {
   id: number;
@@ -19,13 +39,17 @@ interface Toast {
 interface BatchProgress {
   current: number;
   total: number;
-  status: 'idle' | 'processing' | 'completed' | 'error';
+  status: 'idle' | 'processing' | 'completed' | 'cancelled' | 'error';
   message: string;
 }
 
+// Optional card fields edited in the form's profile and card back groups
+const PROFILE_FIELDS: (keyof PlayerData)[] = ['seniority', 'team', 'startDate', 'weakFoot', 'skillMoves', 'alternativePosition'];
+const CARD_BACK_FIELDS: (keyof PlayerData)[] = ['bio', 'techStack', 'yearsOfExperience', 'favoriteQuote', 'profileUrl'];
+
 @Component({
     selector: 'app-root',
-    imports: [FormsModule, ReactiveFormsModule],
+    imports: [FormsModule, ReactiveFormsModule, FifaCardComponent, LineupComponent, TemplateEditorComponent, StatSchemaEditorComponent, RatingWeightsComponent, CustomPositionsComponent, ImportWizardComponent, PhotoMatchReviewComponent, PhotoEditorComponent, LogoLibraryComponent, PrintSettingsComponent, CardVariantsComponent, AnimationSettingsComponent, PackOpeningComponent],
     template: `
     <!-- Toast Container -->
     <div class="fixed top-4 right-4 z-50 flex flex-col gap-2 max-w-sm">
@@ -44,6 +68,113 @@ interface BatchProgress {
       }
     </div>
     
+    <!-- Template Editor -->
+    @if (showTemplateEditor) {
+      <div class="fixed inset-0 bg-black/60 z-40 flex items-center justify-center p-4">
+        <app-template-editor
+          class="w-full max-w-3xl"
+          [baseTemplate]="editingTemplate"
+          [player]="currentPlayer"
+          (saved)="onTemplateSaved($event)"
+          (deleted)="showTemplateEditor = false"
+          (closed)="showTemplateEditor = false"
+          (notify)="showToast($event.message, $event.type)"
+        />
+      </div>
+    }
+
+    <!-- Stat Schema Editor -->
+    @if (showStatSchemaEditor) {
+      <div class="fixed inset-0 bg-black/60 z-40 flex items-center justify-center p-4">
+        <app-stat-schema-editor
+          class="w-full max-w-2xl"
+          [baseSchema]="editingStatSchema"
+          (saved)="onStatSchemaSaved($event)"
+          (deleted)="onStatSchemaDeleted($event)"
+          (closed)="showStatSchemaEditor = false"
+          (notify)="showToast($event.message, $event.type)"
+        />
+      </div>
+    }
+
+    <!-- Import Mapping Wizard -->
+    @if (importSource) {
+      <div class="fixed inset-0 bg-black/60 z-40 flex items-center justify-center p-4">
+        <app-import-wizard
+          class="w-full max-w-3xl"
+          [source]="importSource"
+          (imported)="onMappedImport($event)"
+          (closed)="importSource = null"
+          (notify)="showToast($event.message, $event.type)"
+        />
+      </div>
+    }
+
+    <!-- Photo Editor -->
+    @if (photoEditorSource) {
+      <div class="fixed inset-0 bg-black/60 z-40 flex items-center justify-center p-4">
+        <app-photo-editor
+          class="w-full max-w-2xl"
+          [source]="photoEditorSource"
+          [crop]="currentPlayer.photoCrop || defaultPhotoCrop"
+          [slot]="(selectedTemplate?.layout || defaultLayout).photo"
+          [maskShape]="selectedTemplate?.maskShape || 'shield'"
+          (saved)="onPhotoEdited($event)"
+          (closed)="photoEditorSource = null"
+          (notify)="showToast($event.message, $event.type)"
+        />
+      </div>
+    }
+
+    <!-- Photo Match Review -->
+    @if (photoMatches) {
+      <div class="fixed inset-0 bg-black/60 z-40 flex items-center justify-center p-4">
+        <app-photo-match-review
+          class="w-full max-w-3xl"
+          [matches]="photoMatches"
+          [photos]="photoLibrary"
+          (applied)="onPhotoMatchesApplied($event)"
+          (closed)="photoMatches = null"
+        />
+      </div>
+    }
+
+    <!-- Print Settings -->
+    @if (printCards) {
+      <div class="fixed inset-0 bg-black/60 z-40 flex items-center justify-center p-4">
+        <app-print-settings
+          class="w-full max-w-lg"
+          [cardCount]="printCards.length"
+          [profile]="printProfile"
+          (exported)="exportPrintSheet($event)"
+          (closed)="printCards = null"
+        />
+      </div>
+    }
+
+    <!-- Animated Export Settings -->
+    @if (animationProfile) {
+      <div class="fixed inset-0 bg-black/60 z-40 flex items-center justify-center p-4">
+        <app-animation-settings
+          class="w-full max-w-lg"
+          [profile]="animationProfile"
+          [metallic]="!!selectedTemplate?.metallic"
+          [webmSupported]="webmSupported"
+          (exported)="exportAnimation($event)"
+          (closed)="animationProfile = null"
+        />
+      </div>
+    }
+
+    <!-- Pack Opening -->
+    @if (packCards) {
+      <app-pack-opening
+        [cards]="packCards"
+        [title]="packTitle"
+        (closed)="packCards = null"
+      />
+    }
+
     <!-- Export Loading Overlay -->
     @if (isExporting) {
       <div class="fixed inset-0 bg-black/60 z-40 flex items-center justify-center">
@@ -65,6 +196,24 @@ interface BatchProgress {
               FIFA IT Card Generator
             </h1>
             <div class="flex items-center gap-3">
+              @if (projects.length > 0) {
+                <select
+                  [ngModel]="activeProject?.id"
+                  (ngModelChange)="switchProject($event)"
+                  class="px-3 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-sm max-w-[12rem] truncate"
+                  title="Active project"
+                  >
+                  @for (project of projects; track project.id) {
+                    <option [value]="project.id">{{ project.name }}</option>
+                  }
+                </select>
+              }
+              <button
+                (click)="showLineup = !showLineup"
+                [class]="'px-3 py-1.5 rounded-lg transition-colors text-sm ' + (showLineup ? 'bg-yellow-500 text-slate-900 hover:bg-yellow-400' : 'bg-slate-700 hover:bg-slate-600')"
+                >
+                Squad
+              </button>
               <button
                 (click)="showToast('Language switching coming soon', 'info')"
                 class="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors text-sm"
@@ -102,64 +251,20 @@ interface BatchProgress {
                       (mouseleave)="onCardMouseLeave($event)"
                       [style.transform]="cardTiltTransform"
                       >
-                      <div
-                        id="fifa-card-preview"
-                        [class]="'fifa-card ' + currentPlayer.backgroundTheme"
-                        >
-                        <!-- Header with rating and position -->
-                        <div class="card-header">
-                          <div class="rating-badge">{{ currentPlayer.rating }}</div>
-                          <div class="position-badge">{{ currentPlayer.position }}</div>
-                          @if (currentPlayer.nationality) {
-                            <div
-                              class="flag-logo"
-                              [title]="currentPlayer.nationality">
-                              {{ getFlagEmoji(currentPlayer.nationality) }}
-                            </div>
-                          }
-                        </div>
-    
-                        <!-- Player photo -->
-                        <div class="player-photo-container">
-                          @if (currentPlayer.profilePhoto) {
-                            <img
-                              [src]="currentPlayer.profilePhoto"
-                              [class]="'player-photo ' + (selectedTemplate?.maskShape === 'circle' ? 'circle-mask' : '')"
-                              alt="Player Photo"
-                              (error)="onImageError($event)"
-                              >
-                          }
-                          @if (!currentPlayer.profilePhoto) {
-                            <div
-                              class="photo-placeholder"
-                              >
-                              &#128100;
-                            </div>
-                          }
-                        </div>
-    
-                        <!-- Player info -->
-                        <div class="player-info">
-                          <div class="player-name">{{ currentPlayer.name || 'Player Name' }}</div>
-                          <div class="nationality-info">{{ currentPlayer.nationality || 'NAT' }}</div>
-                        </div>
-    
-                        <!-- Stats grid -->
-                        <div class="stats-grid">
-                          @for (stat of statKeys; track stat) {
-                            <div class="stat-item">
-                              <div class="stat-value">{{ currentPlayer.stats[stat] || 0 }}</div>
-                              <div class="stat-label">{{ getStatLabel(stat) }}</div>
-                            </div>
-                          }
-                        </div>
-    
-                        <!-- Brand logo -->
-                        @if (currentPlayer.customLogo) {
-                          <div class="brand-logo">
-                            <img [src]="currentPlayer.customLogo" alt="Logo">
-                          </div>
-                        }
+                      <div class="card-flip" [class.flipped]="showCardBack" (dblclick)="showCardBack = !showCardBack">
+                        <app-fifa-card
+                          class="card-face"
+                          elementId="fifa-card-preview"
+                          [player]="currentPlayer"
+                          [template]="selectedTemplate"
+                          (photoError)="onImageError($event)"
+                        />
+                        <app-fifa-card
+                          class="card-face card-face-back"
+                          side="back"
+                          [player]="currentPlayer"
+                          [template]="selectedTemplate"
+                        />
                       </div>
                     </div>
                   </div>
@@ -174,6 +279,13 @@ interface BatchProgress {
                     >
                     PNG Export
                   </button>
+                  <button
+                    (click)="exportBackPNG()"
+                    [disabled]="isExporting"
+                    class="px-4 py-2 bg-green-700 hover:bg-green-800 disabled:opacity-50 rounded-lg transition-colors text-sm font-medium"
+                    >
+                    PNG Back
+                  </button>
                   <button
                     (click)="copyToClipboard()"
                     [disabled]="isExporting"
@@ -188,6 +300,13 @@ interface BatchProgress {
                     >
                     PDF Sheet
                   </button>
+                  <button
+                    (click)="openPrintSettings([currentPlayer], currentPlayer.name)"
+                    [disabled]="isExporting"
+                    class="px-4 py-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 rounded-lg transition-colors text-sm font-medium"
+                    >
+                    Print PDF
+                  </button>
                   <button
                     (click)="duplicateCard()"
                     class="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg transition-colors text-sm font-medium"
@@ -195,6 +314,10 @@ interface BatchProgress {
                     Duplicate
                   </button>
                 </div>
+                <label class="flex items-center justify-center gap-2 mt-3 text-xs text-slate-400">
+                  <input type="checkbox" [(ngModel)]="duplexContactSheet">
+                  Double-sided PDF sheets (card backs on every other page)
+                </label>
               </div>
             </div>
           </div>
@@ -207,17 +330,54 @@ interface BatchProgress {
               <div>
                 <h3 class="text-lg font-semibold mb-3 text-yellow-400">Card Template</h3>
                 <div class="grid grid-cols-3 sm:grid-cols-5 lg:grid-cols-3 xl:grid-cols-5 gap-2">
-                  @for (template of availableTemplates; track template) {
+                  @for (template of availableTemplates; track template.id) {
                     <button
                       (click)="selectTemplate(template.id)"
+                      (dblclick)="template.custom && openTemplateEditor(template)"
                     [class]="'p-2 rounded-lg border-2 transition-all text-center ' +
-                    (currentPlayer.backgroundTheme === template.name ?
+                    (selectedTemplate?.id === template.id ?
                       'border-yellow-400 bg-yellow-400/10 shadow-glow-gold' :
                       'border-slate-600 hover:border-slate-500')"
+                      [title]="template.custom ? 'Double-click to edit' : template.description"
                       >
                       <div class="text-xs font-medium truncate">{{ template.displayName }}</div>
                     </button>
                   }
+                  <button
+                    (click)="openTemplateEditor(selectedTemplate)"
+                    class="p-2 rounded-lg border-2 border-dashed border-slate-600 hover:border-slate-500 transition-all text-center"
+                    [title]="selectedTemplate?.custom ? 'Edit this custom template' : 'New template based on the selected one'"
+                    >
+                    <div class="text-xs font-medium truncate">{{ selectedTemplate?.custom ? 'Edit' : '+ Custom' }}</div>
+                  </button>
+                </div>
+                <div class="flex items-center gap-2 mt-3">
+                  <div class="file-input-wrapper flex-1">
+                    <div class="w-full px-2 py-1.5 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-center cursor-pointer text-xs">
+                      Import Pack
+                    </div>
+                    <input
+                      type="file"
+                      accept=".zip"
+                      (change)="onTemplatePackImport($event)"
+                      >
+                  </div>
+                  <select
+                    [(ngModel)]="templateConflictStrategy"
+                    class="px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-xs"
+                    title="When a pack template id already exists"
+                    >
+                    <option value="rename">Keep both</option>
+                    <option value="replace">Replace</option>
+                    <option value="skip">Skip</option>
+                  </select>
+                  <button
+                    (click)="exportTemplatePack()"
+                    class="flex-1 px-2 py-1.5 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-xs"
+                    [title]="customTemplateCount > 0 ? 'Export custom templates' : 'Export the selected template'"
+                    >
+                    Export Pack
+                  </button>
                 </div>
               </div>
     
@@ -237,17 +397,34 @@ interface BatchProgress {
     
                 <!-- Position -->
                 <div>
-                  <label class="block text-sm font-medium mb-1">IT Position</label>
+                  <label class="block text-sm font-medium mb-1">Position</label>
                   <select
                     formControlName="position"
                     class="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:border-blue-500 focus:outline-none transition-colors"
                     >
-                    @for (position of itPositions; track position) {
-                      <option [value]="position">
-                        {{ position }} - {{ getPositionName(position) }}
+                    @for (position of positions; track position.code) {
+                      <option [value]="position.code">
+                        {{ position.code }} - {{ position.name }}
                       </option>
                     }
+                    @if (!isKnownPosition(currentPlayer.position)) {
+                      <option [value]="currentPlayer.position">{{ currentPlayer.position }} - Unknown position</option>
+                    }
                   </select>
+                  @if (bestFitPosition; as bestFit) {
+                    <div class="flex items-center justify-between mt-1 text-xs text-slate-400">
+                      <span>Best fit: {{ bestFit.position }} - {{ getPositionName(bestFit.position) }} ({{ bestFit.rating }})</span>
+                      @if (bestFit.position !== currentPlayer.position) {
+                        <button
+                          type="button"
+                          (click)="cardForm.patchValue({ position: bestFit.position })"
+                          class="text-blue-400 hover:text-blue-300"
+                          >
+                          Use
+                        </button>
+                      }
+                    </div>
+                  }
                 </div>
     
                 <!-- Nationality -->
@@ -317,12 +494,65 @@ interface BatchProgress {
                     (change)="onImageUpload($event)"
                     class="hidden"
                     >
+                  @if (editablePhoto) {
+                    <button
+                      (click)="openPhotoEditor()"
+                      class="mt-2 w-full px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors"
+                      >
+                      Crop &amp; Adjust Photo
+                    </button>
+                  }
+                </div>
+
+                <!-- Logo -->
+                <div>
+                  <label class="block text-sm font-medium mb-1">Team Logo</label>
+                  <div class="flex items-center gap-2">
+                    @if (currentPlayer.customLogo) {
+                      <img [src]="currentPlayer.customLogo" alt="Logo" class="w-9 h-9 object-contain bg-slate-700 rounded p-1 shrink-0">
+                    }
+                    @if (projectLogos.length > 0) {
+                      <select
+                        [ngModel]="currentLogoId"
+                        (ngModelChange)="selectLogo($event)"
+                        class="flex-1 min-w-0 px-2 py-2 bg-slate-700 border border-slate-600 rounded-lg text-sm"
+                        >
+                        <option value="">{{ currentPlayer.customLogo && !currentLogoId ? 'Uploaded logo' : 'No logo' }}</option>
+                        @for (logo of projectLogos; track logo.id) {
+                          <option [value]="logo.id">{{ logo.name }}</option>
+                        }
+                      </select>
+                    }
+                    <button
+                      (click)="logoInput.click()"
+                      class="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm transition-colors"
+                      [class.flex-1]="projectLogos.length === 0"
+                      >
+                      Upload
+                    </button>
+                    @if (currentPlayer.customLogo) {
+                      <button
+                        (click)="removeLogo()"
+                        class="px-3 py-2 bg-slate-700 hover:bg-red-700 rounded-lg text-sm transition-colors"
+                        title="Remove logo"
+                        >
+                        &times;
+                      </button>
+                    }
+                  </div>
+                  <input
+                    #logoInput
+                    type="file"
+                    accept="image/*,.svg"
+                    (change)="onLogoUpload($event)"
+                    class="hidden"
+                    >
                 </div>
     
                 <!-- Stats -->
                 <div>
                   <div class="flex items-center justify-between mb-3">
-                    <h4 class="text-sm font-medium">IT Skills</h4>
+                    <h4 class="text-sm font-medium" [title]="'Stat schema: ' + currentStatSchema.name">{{ currentStatSchema.name }}</h4>
                     <div class="flex flex-wrap gap-2">
                       <button
                         type="button"
@@ -348,24 +578,186 @@ interface BatchProgress {
                     </div>
                   </div>
     
-                  <div class="space-y-3">
-                    @for (stat of statKeys; track stat) {
+                  @if (currentStatSchema.id !== activeStatSchema.id) {
+                    <div class="flex items-center justify-between gap-2 mb-3 p-2 bg-slate-700/50 rounded text-xs text-slate-300">
+                      <span>This card uses {{ currentStatSchema.name }}, the project uses {{ activeStatSchema.name }}.</span>
+                      <button
+                        type="button"
+                        (click)="applyProjectStatSchema()"
+                        class="px-2 py-1 bg-slate-600 hover:bg-slate-500 rounded transition-colors whitespace-nowrap"
+                        >
+                        Switch
+                      </button>
+                    </div>
+                  }
+
+                  <div class="space-y-3" formGroupName="stats">
+                    @for (stat of currentStatSchema.stats; track stat.key) {
                       <div class="flex items-center gap-3">
-                        <div class="w-12 text-xs font-medium uppercase text-slate-400">{{ getStatLabel(stat) }}</div>
+                        <div class="w-12 text-xs font-medium uppercase text-slate-400" [title]="stat.label">{{ stat.abbreviation }}</div>
                         <input
                           type="range"
-                          [formControlName]="stat"
-                          min="1"
-                          max="99"
+                          [formControlName]="stat.key"
+                          [min]="stat.min"
+                          [max]="stat.max"
                           class="flex-1 h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer slider"
                           >
                         <div class="w-8 text-xs font-bold text-right text-yellow-400">
-                          {{ cardForm.get(stat)?.value }}
+                          {{ cardForm.get(['stats', stat.key])?.value }}
                         </div>
                       </div>
                     }
                   </div>
                 </div>
+
+                <!-- Profile -->
+                <div formGroupName="profile" class="space-y-3">
+                  <h3 class="text-lg font-semibold text-yellow-400">Profile</h3>
+                  <div class="grid grid-cols-2 gap-3">
+                    <div>
+                      <label class="block text-sm font-medium mb-1">Seniority</label>
+                      <select
+                        formControlName="seniority"
+                        class="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:border-blue-500 focus:outline-none transition-colors text-sm"
+                        >
+                        <option value="">None</option>
+                        @for (level of seniorityLevels; track level.value) {
+                          <option [value]="level.value">{{ level.label }}</option>
+                        }
+                      </select>
+                    </div>
+                    <div>
+                      <label class="block text-sm font-medium mb-1">Alt. Position</label>
+                      <select
+                        formControlName="alternativePosition"
+                        class="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:border-blue-500 focus:outline-none transition-colors text-sm"
+                        >
+                        <option value="">None</option>
+                        @for (position of positions; track position.code) {
+                          @if (position.code !== currentPlayer.position) {
+                            <option [value]="position.code">{{ position.code }} - {{ position.name }}</option>
+                          }
+                        }
+                        @if (currentPlayer.alternativePosition && !isKnownPosition(currentPlayer.alternativePosition)) {
+                          <option [value]="currentPlayer.alternativePosition">{{ currentPlayer.alternativePosition }} - Unknown position</option>
+                        }
+                      </select>
+                    </div>
+                    <div>
+                      <label class="block text-sm font-medium mb-1">Team / Squad</label>
+                      <input
+                        type="text"
+                        formControlName="team"
+                        [maxlength]="maxTeamLength"
+                        class="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:border-blue-500 focus:outline-none transition-colors text-sm"
+                        placeholder="Platform"
+                        >
+                    </div>
+                    <div>
+                      <label class="block text-sm font-medium mb-1">Start Date</label>
+                      <input
+                        type="date"
+                        formControlName="startDate"
+                        [max]="today"
+                        class="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:border-blue-500 focus:outline-none transition-colors text-sm"
+                        >
+                    </div>
+                    <div>
+                      <label class="block text-sm font-medium mb-1">Skill Moves</label>
+                      <select
+                        formControlName="skillMoves"
+                        class="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:border-blue-500 focus:outline-none transition-colors text-sm"
+                        >
+                        <option [ngValue]="null">None</option>
+                        @for (stars of starOptions; track stars) {
+                          <option [ngValue]="stars">{{ '\u2605'.repeat(stars) }}</option>
+                        }
+                      </select>
+                    </div>
+                    <div>
+                      <label class="block text-sm font-medium mb-1">Weak Foot</label>
+                      <select
+                        formControlName="weakFoot"
+                        class="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:border-blue-500 focus:outline-none transition-colors text-sm"
+                        >
+                        <option [ngValue]="null">None</option>
+                        @for (stars of starOptions; track stars) {
+                          <option [ngValue]="stars">{{ '\u2605'.repeat(stars) }}</option>
+                        }
+                      </select>
+                    </div>
+                  </div>
+                  @if (tenureYears !== undefined) {
+                    <div class="text-xs text-slate-400">
+                      {{ tenureYears }} {{ tenureYears === 1 ? 'year' : 'years' }} in the team, shown as a tenure badge.
+                    </div>
+                  }
+                </div>
+
+                <!-- Card Back -->
+                <div formGroupName="back" class="space-y-3">
+                  <div class="flex items-center justify-between">
+                    <h3 class="text-lg font-semibold text-yellow-400">Card Back</h3>
+                    <button
+                      type="button"
+                      (click)="showCardBack = !showCardBack"
+                      class="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs transition-colors"
+                      >
+                      {{ showCardBack ? 'Show Front' : 'Show Back' }}
+                    </button>
+                  </div>
+                  <div>
+                    <label class="block text-sm font-medium mb-1">Bio</label>
+                    <textarea
+                      formControlName="bio"
+                      rows="3"
+                      [maxlength]="maxBioLength"
+                      class="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:border-blue-500 focus:outline-none transition-colors text-sm"
+                      placeholder="A few lines about this player"
+                    ></textarea>
+                  </div>
+                  <div>
+                    <label class="block text-sm font-medium mb-1">Tech Stack</label>
+                    <input
+                      type="text"
+                      formControlName="techStack"
+                      class="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:border-blue-500 focus:outline-none transition-colors text-sm"
+                      placeholder="Angular, TypeScript, Kubernetes"
+                      >
+                    <div class="text-xs text-slate-400 mt-1">Comma separated, up to {{ maxTechStackTags }} tags.</div>
+                  </div>
+                  <div class="grid grid-cols-3 gap-3">
+                    <div>
+                      <label class="block text-sm font-medium mb-1">Years</label>
+                      <input
+                        type="number"
+                        formControlName="yearsOfExperience"
+                        min="0"
+                        [max]="maxYearsOfExperience"
+                        class="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:border-blue-500 focus:outline-none transition-colors text-sm"
+                        >
+                    </div>
+                    <div class="col-span-2">
+                      <label class="block text-sm font-medium mb-1">Profile URL (QR code)</label>
+                      <input
+                        type="url"
+                        formControlName="profileUrl"
+                        class="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:border-blue-500 focus:outline-none transition-colors text-sm"
+                        placeholder="https://"
+                        >
+                    </div>
+                  </div>
+                  <div>
+                    <label class="block text-sm font-medium mb-1">Favorite Quote</label>
+                    <input
+                      type="text"
+                      formControlName="favoriteQuote"
+                      [maxlength]="maxQuoteLength"
+                      class="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:border-blue-500 focus:outline-none transition-colors text-sm"
+                      placeholder="Ship it"
+                      >
+                  </div>
+                </div>
     
               </form>
             </div>
@@ -379,25 +771,32 @@ interface BatchProgress {
               <div class="flex border-b border-slate-700">
                 <button
                   (click)="activeTab = 'single'"
-                  [class]="'px-4 py-2 text-sm font-medium transition-colors ' +
+                  [class]="'px-3 py-2 text-sm font-medium transition-colors ' +
                   (activeTab === 'single' ? 'border-b-2 border-yellow-400 text-yellow-400' : 'text-slate-400 hover:text-white')"
                   >
                   Single Card
                 </button>
                 <button
                   (click)="activeTab = 'batch'"
-                  [class]="'px-4 py-2 text-sm font-medium transition-colors ' +
+                  [class]="'px-3 py-2 text-sm font-medium transition-colors ' +
                   (activeTab === 'batch' ? 'border-b-2 border-yellow-400 text-yellow-400' : 'text-slate-400 hover:text-white')"
                   >
                   Batch Mode
                 </button>
                 <button
                   (click)="activeTab = 'history'"
-                  [class]="'px-4 py-2 text-sm font-medium transition-colors ' +
+                  [class]="'px-3 py-2 text-sm font-medium transition-colors ' +
                   (activeTab === 'history' ? 'border-b-2 border-yellow-400 text-yellow-400' : 'text-slate-400 hover:text-white')"
                   >
                   History
                 </button>
+                <button
+                  (click)="activeTab = 'projects'"
+                  [class]="'px-3 py-2 text-sm font-medium transition-colors ' +
+                  (activeTab === 'projects' ? 'border-b-2 border-yellow-400 text-yellow-400' : 'text-slate-400 hover:text-white')"
+                  >
+                  Projects
+                </button>
               </div>
     
               <!-- Single Card Tab -->
@@ -429,7 +828,35 @@ interface BatchProgress {
                       <div class="font-medium">Social Media</div>
                       <div class="text-xs text-slate-400">1080x1080 square crop</div>
                     </button>
+                    <button
+                      (click)="exportSVG()"
+                      [disabled]="isExporting"
+                      class="w-full p-3 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded-lg transition-colors text-left"
+                      >
+                      <div class="font-medium">Vector SVG</div>
+                      <div class="text-xs text-slate-400">Scalable, self-contained card file</div>
+                    </button>
+                    <button
+                      (click)="openAnimationSettings()"
+                      [disabled]="isExporting"
+                      class="w-full p-3 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded-lg transition-colors text-left"
+                      >
+                      <div class="font-medium">Animated</div>
+                      <div class="text-xs text-slate-400">GIF, APNG or WebM with tilt, shine and reveal</div>
+                    </button>
                   </div>
+
+                  @if (activeProject) {
+                    <app-card-variants
+                      class="border-t border-slate-700 pt-4"
+                      [player]="currentPlayer"
+                      [cards]="activeProject.cards"
+                      [boosts]="activeProject.settings.variantBoosts || {}"
+                      (boostsChange)="updateProjectSettings({ variantBoosts: $event })"
+                      (created)="createVariant($event)"
+                      (selected)="loadProjectCard($event)"
+                      />
+                  }
                 </div>
               }
     
@@ -440,11 +867,11 @@ interface BatchProgress {
                   <div class="space-y-3">
                     <div class="file-input-wrapper w-full">
                       <div class="w-full p-3 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-center cursor-pointer text-sm">
-                        Upload CSV or JSON file
+                        Upload CSV, Excel, ODS or JSON file
                       </div>
                       <input
                         type="file"
-                        accept=".csv,.json"
+                        accept=".csv,.xlsx,.ods,.json"
                         (change)="onBatchImport($event)"
                         >
                     </div>
@@ -486,15 +913,82 @@ interface BatchProgress {
                             <div>
                               <span class="text-sm font-medium">{{ card.name }}</span>
                               <span class="text-xs text-slate-400 ml-2">{{ card.position }}</span>
+                              @if (card.variantId) {
+                                <span class="text-xs text-slate-400 ml-2">{{ getVariantName(card) }}</span>
+                              }
                             </div>
                             <span class="text-xs text-yellow-400 font-bold">{{ card.rating }}</span>
                           </div>
                         }
                       </div>
+                      <button
+                        (click)="addBatchToProject()"
+                        [disabled]="!activeProject"
+                        class="w-full px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded-lg transition-colors text-sm font-medium"
+                        >
+                        Add All to {{ activeProject?.name || 'Project' }}
+                      </button>
+                      @if (photoLibrary.size > 0) {
+                        <button
+                          (click)="reviewPhotoMatches()"
+                          class="w-full px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-sm font-medium"
+                          >
+                          Match Photos ({{ photoLibrary.size }} loaded)
+                        </button>
+                      }
+                      <div class="grid grid-cols-2 gap-2">
+                        <button
+                          (click)="exportCardsTable(batchCards, 'csv', 'FIFA_Cards_Batch')"
+                          class="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-sm font-medium"
+                          >
+                          Export CSV
+                        </button>
+                        <button
+                          (click)="exportCardsTable(batchCards, 'xlsx', 'FIFA_Cards_Batch')"
+                          class="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-sm font-medium"
+                          >
+                          Export XLSX
+                        </button>
+                      </div>
+                      <div class="grid grid-cols-2 gap-2">
+                        <button
+                          (click)="openPrintSettings(batchCards, 'FIFA_Cards_Batch')"
+                          [disabled]="isExporting || isBatchExporting"
+                          class="px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded-lg transition-colors text-sm font-medium"
+                          >
+                          Print PDF
+                        </button>
+                        <button
+                          (click)="openPackOpening(batchCards, 'Batch import')"
+                          class="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-sm font-medium"
+                          >
+                          Pack Opening
+                        </button>
+                      </div>
+                      @if (!isBatchExporting) {
+                        <button
+                          (click)="exportAllBatchCards()"
+                          [disabled]="isExporting"
+                          class="w-full px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded-lg transition-colors text-sm font-medium"
+                          >
+                          Render &amp; Export All (ZIP)
+                        </button>
+                        <label class="flex items-center gap-2 text-xs text-slate-400">
+                          <input type="checkbox" [(ngModel)]="duplexContactSheet">
+                          Double-sided contact sheet
+                        </label>
+                      } @else {
+                        <button
+                          (click)="cancelBatchExport()"
+                          class="w-full px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg transition-colors text-sm font-medium"
+                          >
+                          Cancel Export
+                        </button>
+                      }
                     </div>
                   }
                   <div class="text-xs text-slate-400">
-                    CSV columns: name, position, nationality, technical, leadership, creativity, reliability, collaboration, adaptability
+                    CSV columns: name, position, nationality, {{ statColumnsHint }}; optional team, seniority, startDate, skillMoves, weakFoot, alternativePosition, bio, techStack, yearsOfExperience, favoriteQuote, profileUrl
                   </div>
                 </div>
               }
@@ -505,14 +999,48 @@ interface BatchProgress {
                   <div class="flex items-center justify-between">
                     <h4 class="font-medium">Recent Cards</h4>
                     @if (cardHistory.length > 0) {
-                      <button
-                        (click)="clearHistory()"
-                        class="text-xs text-red-400 hover:text-red-300 transition-colors"
-                        >
-                        Clear All
-                      </button>
+                      <div class="flex gap-3">
+                        <button
+                          (click)="openHistoryPackOpening()"
+                          class="text-xs text-yellow-400 hover:text-yellow-300 transition-colors"
+                          >
+                          Pack Opening
+                        </button>
+                        <button
+                          (click)="clearHistory()"
+                          class="text-xs text-red-400 hover:text-red-300 transition-colors"
+                          >
+                          Clear All
+                        </button>
+                      </div>
                     }
                   </div>
+                  <div class="flex items-center gap-2 text-xs text-slate-400">
+                    <label for="retention-count">Keep</label>
+                    <select
+                      id="retention-count"
+                      [ngModel]="retentionPolicy.maxCards"
+                      (ngModelChange)="updateRetentionPolicy({ maxCards: $event })"
+                      class="px-2 py-1 bg-slate-700 border border-slate-600 rounded text-xs"
+                      >
+                      <option [ngValue]="20">Last 20</option>
+                      <option [ngValue]="50">Last 50</option>
+                      <option [ngValue]="100">Last 100</option>
+                      <option [ngValue]="null">All cards</option>
+                    </select>
+                    <label for="retention-age">for</label>
+                    <select
+                      id="retention-age"
+                      [ngModel]="retentionPolicy.maxAgeDays"
+                      (ngModelChange)="updateRetentionPolicy({ maxAgeDays: $event })"
+                      class="px-2 py-1 bg-slate-700 border border-slate-600 rounded text-xs"
+                      >
+                      <option [ngValue]="null">Ever</option>
+                      <option [ngValue]="30">30 days</option>
+                      <option [ngValue]="90">90 days</option>
+                      <option [ngValue]="365">1 year</option>
+                    </select>
+                  </div>
                   @if (cardHistory.length === 0) {
                     <div class="text-sm text-slate-400">
                       No cards in history yet. Export a card to save it here.
@@ -524,10 +1052,21 @@ interface BatchProgress {
                         <div
                           class="p-3 bg-slate-700 rounded-lg flex items-center justify-between group transition-colors hover:bg-slate-600"
                           >
-                          <div (click)="loadFromHistory(stored)" class="cursor-pointer flex-1">
-                            <div class="font-medium text-sm">{{ stored.playerData.name }}</div>
-                            <div class="text-xs text-slate-400">
-                              {{ stored.playerData.position }} &middot; {{ stored.playerData.rating }} OVR
+                          <div (click)="loadFromHistory(stored)" class="cursor-pointer flex-1 flex items-center gap-3">
+                            @if (historyThumbnails[stored.id]) {
+                              <img
+                                [src]="historyThumbnails[stored.id]"
+                                class="w-10 h-14 object-contain flex-shrink-0"
+                                [alt]="stored.playerData.name"
+                                >
+                            } @else {
+                              <div class="w-10 h-14 bg-slate-800 rounded flex-shrink-0"></div>
+                            }
+                            <div>
+                              <div class="font-medium text-sm">{{ stored.playerData.name }}</div>
+                              <div class="text-xs text-slate-400">
+                                {{ stored.playerData.position }} &middot; {{ stored.playerData.rating }} OVR
+                              </div>
                             </div>
                           </div>
                           <button
@@ -542,57 +1081,332 @@ interface BatchProgress {
                   }
                 </div>
               }
-    
-            </div>
-          </div>
-    
-        </div>
-      </main>
-    
-    </div>
-    `
-})
-export class AppComponent implements OnInit, OnDestroy {
-  private destroy$ = new Subject<void>();
-
-  // Form and data
-  cardForm!: FormGroup;
-  currentPlayer: PlayerData = {} as PlayerData;
-  availableTemplates: CardTemplate[] = [];
-  selectedTemplate: CardTemplate | null = null;
-
-  // UI state
-  activeTab: 'single' | 'batch' | 'history' = 'single';
-  isDragOver = false;
-  isDarkMode = true;
-  cardAnimating = false;
-  cardTiltTransform = '';
-
-  // Toast system
-  toasts: Toast[] = [];
-  private toastIdCounter = 0;
-
-  // Export state
-  isExporting = false;
-  exportingType = '';
 
-  // History & Batch
-  cardHistory: StoredCard[] = [];
-  batchCards: PlayerData[] = [];
-  batchProgress: BatchProgress = { current: 0, total: 0, status: 'idle', message: '' };
-
-  // Constants
-  itPositions: ITPosition[] = ['DEV', 'OPS', 'DATA', 'PM', 'QA', 'UX', 'SEC', 'ARCH'];
-  statKeys: (keyof PlayerStats)[] = ['technical', 'leadership', 'creativity', 'reliability', 'collaboration', 'adaptability'];
+              <!-- Projects Tab -->
+              @if (activeTab === 'projects') {
+                <div class="space-y-4">
+                  @if (activeProject) {
+                    <div class="space-y-3">
+                      <h4 class="font-medium">Active Project</h4>
+                      <div class="flex gap-2">
+                        <input
+                          type="text"
+                          [(ngModel)]="projectNameDraft"
+                          maxlength="40"
+                          class="flex-1 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:border-blue-500 focus:outline-none text-sm"
+                          placeholder="Project name"
+                          >
+                        <button
+                          (click)="renameActiveProject()"
+                          [disabled]="!projectNameDraft.trim() || projectNameDraft === activeProject.name"
+                          class="px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg transition-colors text-sm"
+                          >
+                          Rename
+                        </button>
+                      </div>
+                      <div class="grid grid-cols-2 gap-2">
+                        <div>
+                          <label class="block text-xs text-slate-400 mb-1">Default template</label>
+                          <select
+                            [ngModel]="activeProject.settings.defaultTemplate"
+                            (ngModelChange)="updateProjectSettings({ defaultTemplate: $event })"
+                            class="w-full px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm"
+                            >
+                            @for (template of availableTemplates; track template.id) {
+                              <option [value]="template.id">{{ template.displayName }}</option>
+                            }
+                          </select>
+                        </div>
+                        <div>
+                          <label class="block text-xs text-slate-400 mb-1">Stat schema</label>
+                          <div class="flex gap-1">
+                            <select
+                              [ngModel]="activeStatSchema.id"
+                              (ngModelChange)="updateProjectSettings({ statSchemaId: $event })"
+                              class="flex-1 min-w-0 px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm"
+                              title="Used for new and imported cards"
+                              >
+                              @for (schema of statSchemas; track schema.id) {
+                                <option [value]="schema.id">{{ schema.name }}</option>
+                              }
+                            </select>
+                            <button
+                              (click)="openStatSchemaEditor(activeStatSchema)"
+                              class="px-2 bg-slate-700 hover:bg-slate-600 rounded text-xs transition-colors"
+                              [title]="activeStatSchema.custom ? 'Edit schema' : 'Copy into a custom schema'"
+                              >
+                              {{ activeStatSchema.custom ? 'Edit' : 'Copy' }}
+                            </button>
+                          </div>
+                        </div>
+                        <div>
+                          <label class="block text-xs text-slate-400 mb-1">Branding</label>
+                          <input
+                            type="text"
+                            [ngModel]="activeProject.settings.customBranding || ''"
+                            (change)="updateProjectSettings({ customBranding: $any($event.target).value.trim() || undefined })"
+                            maxlength="60"
+                            class="w-full px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm"
+                            placeholder="PDF watermark"
+                            >
+                        </div>
+                      </div>
+                      <div class="grid grid-cols-3 gap-2">
+                        <button
+                          (click)="duplicateActiveProject()"
+                          class="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-xs font-medium"
+                          >
+                          Duplicate
+                        </button>
+                        <button
+                          (click)="exportActiveProject()"
+                          class="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-xs font-medium"
+                          >
+                          Export JSON
+                        </button>
+                        <button
+                          (click)="deleteActiveProject()"
+                          class="px-3 py-2 bg-red-700 hover:bg-red-600 rounded-lg transition-colors text-xs font-medium"
+                          >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
 
-  constructor(
-    private fb: FormBuilder,
-    private cardService: CardService,
-    private exportService: ExportService,
-    private batchService: BatchService,
-    private storageService: StorageService
-  ) {
-    this.initializeForm();
+                    <app-custom-positions
+                      [positions]="activeProject.settings.customPositions || []"
+                      [schema]="activeStatSchema"
+                      (positionsChange)="updateCustomPositions($event)"
+                      (notify)="showToast($event.message, $event.type)"
+                    />
+
+                    <app-logo-library
+                      [logos]="activeProject.settings.logos || []"
+                      [defaultLogoId]="activeProject.settings.defaultLogoId"
+                      (logosChange)="updateProjectLogos($event)"
+                      (defaultLogoIdChange)="updateProjectSettings({ defaultLogoId: $event })"
+                      (notify)="showToast($event.message, $event.type)"
+                    />
+
+                    <app-rating-weights
+                      [schema]="activeStatSchema"
+                      [profiles]="activeProject.settings.ratingProfiles || {}"
+                      (profilesChange)="updateRatingProfiles($event)"
+                    />
+
+                    <!-- Project Cards -->
+                    <div class="space-y-2">
+                      <div class="flex items-center justify-between">
+                        <h4 class="font-medium text-sm">Cards ({{ activeProject.cards.length }})</h4>
+                        <div class="flex gap-2">
+                          <button
+                            (click)="newProjectCard()"
+                            class="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs transition-colors"
+                            >
+                            New Card
+                          </button>
+                          <button
+                            (click)="saveCurrentCardToProject()"
+                            class="px-2 py-1 bg-green-600 hover:bg-green-700 rounded text-xs transition-colors"
+                            >
+                            Save Current
+                          </button>
+                        </div>
+                      </div>
+                      @if (activeProject.cards.length > 0) {
+                        <div class="flex gap-2">
+                          <button
+                            (click)="exportCardsTable(activeProject.cards, 'csv', activeProject.name)"
+                            class="flex-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs transition-colors"
+                            title="Edit in a spreadsheet and re-import through the Batch tab"
+                            >
+                            Export CSV
+                          </button>
+                          <button
+                            (click)="exportCardsTable(activeProject.cards, 'xlsx', activeProject.name)"
+                            class="flex-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs transition-colors"
+                            title="Edit in a spreadsheet and re-import through the Batch tab"
+                            >
+                            Export XLSX
+                          </button>
+                          <button
+                            (click)="openPrintSettings(activeProject.cards, activeProject.name)"
+                            [disabled]="isExporting"
+                            class="flex-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded text-xs transition-colors"
+                            >
+                            Print PDF
+                          </button>
+                          <button
+                            (click)="openPackOpening(activeProject.cards, activeProject.name)"
+                            class="flex-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs transition-colors"
+                            title="Reveal the cards one by one, full screen"
+                            >
+                            Reveal
+                          </button>
+                        </div>
+                      }
+                      @if (activeProject.cards.length === 0) {
+                        <div class="text-sm text-slate-400">
+                          No cards yet. Save the current card or add a batch import.
+                        </div>
+                      }
+                      <div class="max-h-64 overflow-y-auto space-y-1">
+                        @for (card of activeProject.cards; track card.id) {
+                          <div class="p-2 bg-slate-700 hover:bg-slate-600 rounded flex items-center justify-between group transition-colors">
+                            <div (click)="loadProjectCard(card)" class="cursor-pointer flex-1">
+                              <span class="text-sm font-medium">{{ card.name }}</span>
+                              <span class="text-xs text-slate-400 ml-2">{{ card.position }}</span>
+                            </div>
+                            <span class="text-xs text-yellow-400 font-bold">{{ card.rating }}</span>
+                            <button
+                              (click)="removeProjectCard(card)"
+                              class="text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all text-lg px-2"
+                              >
+                              &times;
+                            </button>
+                          </div>
+                        }
+                      </div>
+                    </div>
+                  }
+
+                  <!-- Create / Import -->
+                  <div class="space-y-2 border-t border-slate-700 pt-4">
+                    <h4 class="font-medium text-sm">New Project</h4>
+                    <div class="flex gap-2">
+                      <input
+                        type="text"
+                        [(ngModel)]="newProjectName"
+                        (keydown.enter)="createProject()"
+                        maxlength="40"
+                        class="flex-1 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:border-blue-500 focus:outline-none text-sm"
+                        placeholder="e.g. Platform Team, Offsite 2026"
+                        >
+                      <button
+                        (click)="createProject()"
+                        class="px-3 py-2 bg-green-600 hover:bg-green-700 rounded-lg transition-colors text-sm"
+                        >
+                        Create
+                      </button>
+                    </div>
+                    <div class="file-input-wrapper w-full">
+                      <div class="w-full p-3 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-center cursor-pointer text-sm">
+                        Import Project JSON
+                      </div>
+                      <input
+                        type="file"
+                        accept=".json"
+                        (change)="onProjectImport($event)"
+                        >
+                    </div>
+                  </div>
+                </div>
+              }
+    
+            </div>
+          </div>
+    
+        </div>
+
+        <!-- Squad Builder -->
+        @if (showLineup && activeProject) {
+          <app-lineup
+            class="mt-6 lg:mt-8"
+            [players]="activeProject.cards"
+            [title]="activeProject.name"
+            [savedLineup]="activeProject.settings.lineup || null"
+            [customBranding]="activeProject.settings.customBranding"
+            (lineupChange)="updateProjectSettings({ lineup: $event })"
+            (notify)="showToast($event.message, $event.type)"
+          />
+        }
+      </main>
+    
+    </div>
+    `
+})
+export class AppComponent implements OnInit, OnDestroy {
+  private destroy$ = new Subject<void>();
+
+  // Form and data
+  cardForm!: FormGroup;
+  currentPlayer: PlayerData = {} as PlayerData;
+  availableTemplates: CardTemplate[] = [];
+  selectedTemplate: CardTemplate | null = null;
+  showTemplateEditor = false;
+  editingTemplate: CardTemplate | null = null;
+  templateConflictStrategy: TemplateConflictStrategy = 'rename';
+  statSchemas: StatSchema[] = [];
+  currentStatSchema!: StatSchema;
+  showStatSchemaEditor = false;
+  editingStatSchema: StatSchema | null = null;
+
+  // UI state
+  activeTab: 'single' | 'batch' | 'history' | 'projects' = 'single';
+  isDragOver = false;
+  isDarkMode = true;
+  cardAnimating = false;
+  cardTiltTransform = '';
+  showCardBack = false;
+  duplexContactSheet = false;
+  readonly maxBioLength = MAX_BIO_LENGTH;
+  readonly maxQuoteLength = MAX_QUOTE_LENGTH;
+  readonly maxTechStackTags = MAX_TECH_STACK_TAGS;
+  readonly maxYearsOfExperience = MAX_YEARS_OF_EXPERIENCE;
+  readonly maxTeamLength = MAX_TEAM_LENGTH;
+  readonly starOptions = Array.from({ length: MAX_STAR_RATING }, (_, index) => index + 1);
+  readonly seniorityLevels = Object.entries(SENIORITY_LEVELS).map(([value, label]) => ({ value: value as SeniorityLevel, label }));
+  readonly today = new Date().toISOString().substring(0, 10);
+
+  // Toast system
+  toasts: Toast[] = [];
+  private toastIdCounter = 0;
+
+  // Export state
+  isExporting = false;
+  exportingType = '';
+  isBatchExporting = false;
+
+  // History & Batch
+  cardHistory: StoredCard[] = [];
+  historyThumbnails: Record<string, string> = {};
+  retentionPolicy: HistoryRetentionPolicy = DEFAULT_RETENTION_POLICY;
+
+  // Projects
+  projects: Project[] = [];
+  activeProject: Project | null = null;
+  projectNameDraft = '';
+  newProjectName = '';
+  showLineup = false;
+  batchCards: PlayerData[] = [];
+  photoLibrary = new Map<string, string>();
+  importSource: ImportSource | null = null;
+  photoMatches: PhotoMatch[] | null = null;
+  photoEditorSource: string | null = null;
+  printCards: PlayerData[] | null = null;
+  printProfile!: PrintProfile;
+  private printFileName = '';
+  animationProfile: AnimationProfile | null = null;
+  packCards: PlayerData[] | null = null;
+  packTitle = '';
+  webmSupported = false;
+  readonly defaultLayout = DEFAULT_CARD_LAYOUT;
+  readonly defaultPhotoCrop = DEFAULT_PHOTO_CROP;
+  batchProgress: BatchProgress = { current: 0, total: 0, status: 'idle', message: '' };
+
+  // Constants
+
+  constructor(
+    private fb: FormBuilder,
+    private cardService: CardService,
+    private exportService: ExportService,
+    private batchService: BatchService,
+    private imageService: ImageService,
+    private storageService: StorageService,
+    private projectService: ProjectService,
+    private templateService: TemplateService
+  ) {
+    this.initializeForm();
   }
 
   ngOnInit() {
@@ -601,14 +1415,23 @@ export class AppComponent implements OnInit, OnDestroy {
       .pipe(takeUntil(this.destroy$))
       .subscribe(player => {
         this.currentPlayer = player;
+        this.selectedTemplate = this.cardService.getTemplateForPlayer(player);
+        this.updateStatControls(this.cardService.getStatSchemaForPlayer(player));
         this.updateFormFromPlayer(player);
       });
 
+    this.cardService.statSchemas$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(schemas => {
+        this.statSchemas = schemas;
+        this.updateStatControls(this.cardService.getStatSchemaForPlayer(this.currentPlayer));
+      });
+
     this.cardService.availableTemplates$
       .pipe(takeUntil(this.destroy$))
       .subscribe(templates => {
         this.availableTemplates = templates;
-        this.selectedTemplate = templates.find(t => t.id === this.currentPlayer.backgroundTheme) || templates[0];
+        this.selectedTemplate = this.cardService.getTemplateForPlayer(this.currentPlayer);
       });
 
     // Subscribe to history
@@ -618,6 +1441,32 @@ export class AppComponent implements OnInit, OnDestroy {
         this.cardHistory = history;
       });
 
+    this.storageService.settings$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        this.retentionPolicy = this.storageService.getRetentionPolicy();
+      });
+
+    this.storageService.thumbnails$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(thumbnails => {
+        this.historyThumbnails = thumbnails;
+      });
+
+    // Subscribe to projects
+    this.projectService.projects$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(projects => {
+        this.projects = projects;
+      });
+
+    this.projectService.activeProject$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(project => {
+        this.activeProject = project;
+        this.projectNameDraft = project?.name || '';
+      });
+
     // Subscribe to batch data
     this.batchService.batchProgress$
       .pipe(takeUntil(this.destroy$))
@@ -630,6 +1479,12 @@ export class AppComponent implements OnInit, OnDestroy {
       .subscribe(cards => {
         this.batchCards = cards;
       });
+
+    this.batchService.photoLibrary$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(photos => {
+        this.photoLibrary = photos;
+      });
   }
 
   ngOnDestroy() {
@@ -665,12 +1520,22 @@ export class AppComponent implements OnInit, OnDestroy {
       position: ['DEV', Validators.required],
       nationality: ['FR', [Validators.required, Validators.pattern(/^[A-Z]{2,3}$/)]],
       rating: [85, [Validators.required, Validators.min(1), Validators.max(99)]],
-      technical: [75, [Validators.min(1), Validators.max(99)]],
-      leadership: [75, [Validators.min(1), Validators.max(99)]],
-      creativity: [75, [Validators.min(1), Validators.max(99)]],
-      reliability: [75, [Validators.min(1), Validators.max(99)]],
-      collaboration: [75, [Validators.min(1), Validators.max(99)]],
-      adaptability: [75, [Validators.min(1), Validators.max(99)]]
+      stats: this.fb.group({}),
+      profile: this.fb.group({
+        seniority: [''],
+        team: ['', Validators.maxLength(MAX_TEAM_LENGTH)],
+        startDate: [''],
+        weakFoot: [null as number | null],
+        skillMoves: [null as number | null],
+        alternativePosition: ['']
+      }),
+      back: this.fb.group({
+        bio: ['', Validators.maxLength(MAX_BIO_LENGTH)],
+        techStack: [''],
+        yearsOfExperience: [null as number | null, [Validators.min(0), Validators.max(MAX_YEARS_OF_EXPERIENCE)]],
+        favoriteQuote: ['', Validators.maxLength(MAX_QUOTE_LENGTH)],
+        profileUrl: ['', Validators.maxLength(300)]
+      })
     });
 
     // Subscribe to form changes
@@ -689,24 +1554,64 @@ export class AppComponent implements OnInit, OnDestroy {
       position: player.position,
       nationality: player.nationality,
       rating: player.rating,
-      ...player.stats
+      stats: player.stats
     }, { emitEvent: false });
+
+    // Leave the profile and back inputs alone while they already describe this player, so
+    // separators and spaces being typed are not replaced by the cleaned-up values
+    const profile = this.cardForm.get('profile')!;
+    if (!this.hasSameFields(this.cardService.parseProfile(profile.value), player, PROFILE_FIELDS)) {
+      profile.patchValue({
+        seniority: player.seniority || '',
+        team: player.team || '',
+        startDate: player.startDate || '',
+        weakFoot: player.weakFoot ?? null,
+        skillMoves: player.skillMoves ?? null,
+        alternativePosition: player.alternativePosition || ''
+      }, { emitEvent: false });
+    }
+
+    const back = this.cardForm.get('back')!;
+    if (!this.hasSameFields(this.cardService.parseCardBack(back.value), player, CARD_BACK_FIELDS)) {
+      back.patchValue({
+        bio: player.bio || '',
+        techStack: player.techStack?.join(', ') || '',
+        yearsOfExperience: player.yearsOfExperience ?? null,
+        favoriteQuote: player.favoriteQuote || '',
+        profileUrl: player.profileUrl || ''
+      }, { emitEvent: false });
+    }
+  }
+
+  private hasSameFields(values: Partial<PlayerData>, player: PlayerData, fields: (keyof PlayerData)[]): boolean {
+    return fields.every(field => JSON.stringify(values[field]) === JSON.stringify(player[field]));
+  }
+
+  // One slider control per stat of the card's schema, rebuilt when the schema changes
+  private updateStatControls(schema: StatSchema) {
+    if (schema === this.currentStatSchema) return;
+    this.currentStatSchema = schema;
+
+    const controls = Object.fromEntries(schema.stats.map(stat => [
+      stat.key,
+      [stat.defaultValue, [Validators.min(stat.min), Validators.max(stat.max)]]
+    ]));
+    this.cardForm.setControl('stats', this.fb.group(controls), { emitEvent: false });
   }
 
   private updatePlayerFromForm(formValues: any) {
+    const profile = this.cardService.parseProfile(formValues.profile);
+    const back = this.cardService.parseCardBack(formValues.back);
     const updatedPlayer: Partial<PlayerData> = {
       name: this.cardService.sanitizeInput(formValues.name, 30),
       position: formValues.position,
       nationality: formValues.nationality?.toUpperCase(),
       rating: formValues.rating,
-      stats: {
-        technical: formValues.technical,
-        leadership: formValues.leadership,
-        creativity: formValues.creativity,
-        reliability: formValues.reliability,
-        collaboration: formValues.collaboration,
-        adaptability: formValues.adaptability
-      }
+      stats: { ...formValues.stats },
+      // Every optional field is listed so that clearing an input removes it from the card
+      ...Object.fromEntries([...PROFILE_FIELDS, ...CARD_BACK_FIELDS].map(field => [field, undefined])),
+      ...profile,
+      ...back
     };
 
     this.cardService.updatePlayer(updatedPlayer);
@@ -717,7 +1622,7 @@ export class AppComponent implements OnInit, OnDestroy {
     const template = this.cardService.getTemplateById(templateId);
     if (template) {
       this.selectedTemplate = template;
-      this.cardService.updatePlayer({ backgroundTheme: template.name as CardTheme });
+      this.cardService.updatePlayer(this.cardService.getTemplateSelection(template.id));
 
       // Trigger entrance animation
       this.cardAnimating = false;
@@ -728,6 +1633,61 @@ export class AppComponent implements OnInit, OnDestroy {
     }
   }
 
+  openTemplateEditor(template: CardTemplate | null) {
+    this.editingTemplate = template;
+    this.showTemplateEditor = true;
+  }
+
+  onTemplateSaved(template: CardTemplate) {
+    this.showTemplateEditor = false;
+    this.selectTemplate(template.id);
+  }
+
+  get customTemplateCount(): number {
+    return this.availableTemplates.filter(template => template.custom).length;
+  }
+
+  async onTemplatePackImport(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    const result = await this.templateService.importPack(file, this.templateConflictStrategy);
+    result.warnings.forEach(warning => this.showToast(warning, 'warning'));
+    if (result.errors.length > 0) {
+      console.warn('Template pack errors:', result.errors);
+      this.showToast(result.errors.slice(0, 2).join(' · ') + (result.errors.length > 2 ? ` (+${result.errors.length - 2} more)` : ''), 'error');
+    }
+    if (result.imported.length > 0) {
+      const details = [
+        result.renamed.length > 0 ? `${result.renamed.length} renamed` : '',
+        result.skipped.length > 0 ? `${result.skipped.length} skipped` : ''
+      ].filter(Boolean).join(', ');
+      this.showToast(`Imported ${result.imported.length} templates${details ? ` (${details})` : ''}`, 'success');
+    } else if (result.skipped.length > 0) {
+      this.showToast(`All ${result.skipped.length} templates already exist and were skipped`, 'info');
+    }
+
+    input.value = '';
+  }
+
+  async exportTemplatePack() {
+    const templates = this.customTemplateCount > 0
+      ? this.availableTemplates.filter(template => template.custom)
+      : this.selectedTemplate ? [this.selectedTemplate] : [];
+    if (templates.length === 0) return;
+
+    try {
+      const name = this.activeProject ? `${this.activeProject.name} Templates` : 'FIFA Card Templates';
+      const blob = await this.templateService.exportPack(templates.map(template => template.id), name);
+      this.exportService.downloadFile(blob, `${name.replace(/\s+/g, '_')}.fifapack.zip`);
+      this.showToast(`Exported ${templates.length} templates`, 'success');
+    } catch (error) {
+      console.error('Error exporting template pack:', error);
+      this.showToast('Template pack export failed.', 'error');
+    }
+  }
+
   // ===== 3D Card Tilt =====
   onCardMouseMove(event: MouseEvent) {
     const el = event.currentTarget as HTMLElement;
@@ -750,28 +1710,74 @@ export class AppComponent implements OnInit, OnDestroy {
   // ===== Stats management =====
   randomizeStats() {
     const seed = this.currentPlayer.name + Date.now();
-    const newStats = this.cardService.randomizeStats(seed);
+    const newStats = this.cardService.randomizeStats(seed, this.currentStatSchema);
     this.cardService.updatePlayer({ stats: newStats, manualRating: false });
-    this.cardForm.patchValue(newStats);
+    this.cardForm.patchValue({ stats: newStats });
   }
 
   recomputeRating() {
-    const newRating = this.cardService.calculateOverallRating(this.currentPlayer.stats);
+    const newRating = this.cardService.calculatePlayerRating(this.currentPlayer);
     this.cardService.updatePlayer({ rating: newRating, manualRating: false });
     this.cardForm.patchValue({ rating: newRating });
   }
 
   resetStats() {
-    const defaultStats = {
-      technical: 75,
-      leadership: 75,
-      creativity: 75,
-      reliability: 75,
-      collaboration: 75,
-      adaptability: 75
-    };
+    const defaultStats = this.cardService.createDefaultStats(this.currentStatSchema);
     this.cardService.updatePlayer({ stats: defaultStats, manualRating: false });
-    this.cardForm.patchValue(defaultStats);
+    this.cardForm.patchValue({ stats: defaultStats });
+  }
+
+  // Move the current card onto the project's schema, keeping stats whose keys match
+  applyProjectStatSchema() {
+    const schema = this.activeStatSchema;
+    const stats = Object.fromEntries(schema.stats.map(stat => {
+      const value = this.currentPlayer.stats[stat.key];
+      return [stat.key, typeof value === 'number' ? Math.max(stat.min, Math.min(stat.max, value)) : stat.defaultValue];
+    }));
+    this.cardService.updatePlayer({ stats, statSchemaId: schema.id });
+  }
+
+  get positions(): PositionDefinition[] {
+    return this.cardService.getPositions();
+  }
+
+  isKnownPosition(code: string): boolean {
+    return !!this.cardService.getPosition(code);
+  }
+
+  get bestFitPosition(): { position: string; rating: number } | null {
+    if (!this.currentPlayer.stats || !this.currentStatSchema) return null;
+    return this.cardService.suggestPosition(this.currentPlayer.stats, this.currentStatSchema);
+  }
+
+  get tenureYears(): number | undefined {
+    return this.cardService.getTenureYears(this.currentPlayer.startDate);
+  }
+
+  // ===== Stat schemas =====
+  get activeStatSchema(): StatSchema {
+    return this.cardService.getActiveStatSchema();
+  }
+
+  get statColumnsHint(): string {
+    return this.activeStatSchema.stats.map(stat => stat.key).join(', ');
+  }
+
+  openStatSchemaEditor(schema: StatSchema | null) {
+    this.editingStatSchema = schema;
+    this.showStatSchemaEditor = true;
+  }
+
+  onStatSchemaSaved(schema: StatSchema) {
+    this.showStatSchemaEditor = false;
+    this.updateProjectSettings({ statSchemaId: schema.id });
+  }
+
+  onStatSchemaDeleted(id: string) {
+    this.showStatSchemaEditor = false;
+    if (this.activeProject?.settings.statSchemaId === id) {
+      this.updateProjectSettings({ statSchemaId: undefined });
+    }
   }
 
   toggleManualRating() {
@@ -818,89 +1824,86 @@ export class AppComponent implements OnInit, OnDestroy {
       return;
     }
 
-    if (file.size > 5 * 1024 * 1024) {
-      this.showToast('Image file too large. Please select a file under 5MB.', 'error');
+    if (file.size > 20 * 1024 * 1024) {
+      this.showToast('Image file too large. Please select a file under 20MB.', 'error');
       return;
     }
 
     try {
-      const processedImage = await this.stripExifAndResize(file);
-      this.cardService.updatePlayer({ profilePhoto: processedImage });
+      const { dataUrl } = await this.imageService.process(file);
+      this.cardService.updatePlayer({ profilePhoto: dataUrl, originalPhoto: dataUrl, photoCrop: undefined });
       this.showToast('Photo uploaded successfully', 'success');
+      this.openPhotoEditor();
     } catch (error) {
       console.error('Error processing image:', error);
       this.showToast('Error processing image. Please try a different file.', 'error');
     }
   }
 
-  private stripExifAndResize(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const img = new Image();
-        img.onload = () => {
-          const canvas = document.createElement('canvas');
-          const ctx = canvas.getContext('2d');
-
-          const maxSize = 800;
-          const { width, height } = this.calculateResizedimensions(img.width, img.height, maxSize);
-
-          canvas.width = width;
-          canvas.height = height;
-          ctx?.drawImage(img, 0, 0, width, height);
-
-          resolve(canvas.toDataURL('image/jpeg', 0.9));
-        };
-        img.onerror = reject;
-        img.src = e.target?.result as string;
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
+  // Only local photos can be edited; remote ones would taint the canvas
+  get editablePhoto(): string | undefined {
+    const { originalPhoto, profilePhoto } = this.currentPlayer;
+    return originalPhoto || (profilePhoto?.startsWith('data:') ? profilePhoto : undefined);
   }
 
-  private calculateResizedimensions(originalWidth: number, originalHeight: number, maxSize: number) {
-    if (originalWidth <= maxSize && originalHeight <= maxSize) {
-      return { width: originalWidth, height: originalHeight };
-    }
+  get projectLogos(): LogoEntry[] {
+    return this.activeProject?.settings.logos || [];
+  }
+
+  get currentLogoId(): string {
+    return this.projectLogos.find(logo => logo.dataUrl === this.currentPlayer.customLogo)?.id || '';
+  }
 
-    const aspectRatio = originalWidth / originalHeight;
+  selectLogo(id: string) {
+    this.cardService.updatePlayer({ customLogo: this.projectLogos.find(logo => logo.id === id)?.dataUrl });
+  }
 
-    if (originalWidth > originalHeight) {
-      return { width: maxSize, height: Math.round(maxSize / aspectRatio) };
-    } else {
-      return { width: Math.round(maxSize * aspectRatio), height: maxSize };
+  removeLogo() {
+    this.cardService.updatePlayer({ customLogo: undefined });
+  }
+
+  async onLogoUpload(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    try {
+      this.cardService.updatePlayer({ customLogo: await this.imageService.processLogo(file) });
+      this.showToast('Logo uploaded', 'success');
+    } catch (error) {
+      console.error('Error processing logo:', error);
+      this.showToast(error instanceof Error ? error.message : 'Could not read this logo', 'error');
     }
   }
 
+  openPhotoEditor() {
+    this.photoEditorSource = this.editablePhoto || null;
+  }
+
+  onPhotoEdited(edit: { photo: string; crop: PhotoCrop }) {
+    this.cardService.updatePlayer({ profilePhoto: edit.photo, originalPhoto: this.photoEditorSource!, photoCrop: edit.crop });
+    this.photoEditorSource = null;
+  }
+
   onImageError(event: Event) {
     console.warn('Image failed to load');
-    this.cardService.updatePlayer({ profilePhoto: undefined });
+    this.cardService.updatePlayer({ profilePhoto: undefined, originalPhoto: undefined, photoCrop: undefined });
   }
 
   // ===== Export functions =====
-  private resetTiltBeforeExport() {
-    this.cardTiltTransform = '';
-  }
-
   async exportPNG(size: 'transparent' | 'web' | 'social' = 'transparent') {
-    const cardElement = document.getElementById('fifa-card-preview');
-    if (!cardElement) return;
-
-    this.resetTiltBeforeExport();
     this.isExporting = true;
     this.exportingType = 'Generating PNG';
 
-    // Wait a tick for tilt reset to apply
-    await new Promise(r => setTimeout(r, 50));
-
     try {
-      const dataUrl = await this.exportService.exportCardAsPNG(cardElement, this.currentPlayer, size);
+      const template = this.cardService.getTemplateForPlayer(this.currentPlayer);
+      const dataUrl = await this.exportService.exportCardAsPNG(this.currentPlayer, template, size);
       this.downloadImage(dataUrl, `${this.currentPlayer.name}_FIFA_Card_${size}.png`);
       this.showToast('PNG exported successfully!', 'success');
 
       // Auto-save to history
-      await this.storageService.saveCardToHistory(this.currentPlayer, cardElement);
+      await this.storageService.saveCardToHistory(this.currentPlayer);
     } catch (error) {
       console.error('Error generating PNG:', error);
       this.showToast('Error generating PNG. Please try again.', 'error');
@@ -910,15 +1913,78 @@ export class AppComponent implements OnInit, OnDestroy {
     }
   }
 
-  async copyToClipboard() {
-    const cardElement = document.getElementById('fifa-card-preview');
-    if (!cardElement) return;
+  async exportBackPNG() {
+    this.isExporting = true;
+    this.exportingType = 'Generating card back';
 
-    this.resetTiltBeforeExport();
-    await new Promise(r => setTimeout(r, 50));
+    try {
+      const template = this.cardService.getTemplateForPlayer(this.currentPlayer);
+      const dataUrl = await this.exportService.exportCardBackAsPNG(this.currentPlayer, template);
+      this.downloadImage(dataUrl, `${this.currentPlayer.name}_FIFA_Card_Back.png`);
+      this.showToast('Card back exported successfully!', 'success');
+    } catch (error) {
+      console.error('Error generating card back:', error);
+      this.showToast('Error generating card back. Please try again.', 'error');
+    } finally {
+      this.isExporting = false;
+      this.exportingType = '';
+    }
+  }
+
+  async exportSVG() {
+    this.isExporting = true;
+    this.exportingType = 'Generating SVG';
 
     try {
-      const success = await this.exportService.copyToClipboard(cardElement);
+      const template = this.cardService.getTemplateForPlayer(this.currentPlayer);
+      const blob = await this.exportService.exportCardAsSVG(this.currentPlayer, template);
+      this.exportService.downloadFile(blob, `${this.currentPlayer.name.replace(/\s+/g, '_')}_FIFA_Card.svg`);
+      this.showToast('SVG exported successfully!', 'success');
+    } catch (error) {
+      console.error('Error generating SVG:', error);
+      this.showToast('Error generating SVG. Please try again.', 'error');
+    } finally {
+      this.isExporting = false;
+      this.exportingType = '';
+    }
+  }
+
+  openAnimationSettings() {
+    this.webmSupported = this.exportService.supportsWebM();
+    this.animationProfile = this.storageService.getAnimationProfile();
+  }
+
+  async exportAnimation(profile: AnimationProfile) {
+    this.animationProfile = null;
+    this.storageService.setAnimationProfile(profile);
+    const format = ANIMATION_FORMATS.find(info => info.id === profile.format) || ANIMATION_FORMATS[0];
+    const action = profile.format === 'webm' ? 'Recording' : 'Encoding';
+    this.isExporting = true;
+    this.exportingType = `${action} ${format.name}`;
+
+    try {
+      const template = this.cardService.getTemplateForPlayer(this.currentPlayer);
+      const blob = await this.exportService.exportCardAnimation(
+        this.currentPlayer,
+        template,
+        profile,
+        (done, total) => this.exportingType = `${action} ${format.name} (${done}/${total} frames)`
+      );
+      this.exportService.downloadFile(blob, `${this.currentPlayer.name.replace(/\s+/g, '_')}_FIFA_Card.${format.extension}`);
+      this.showToast(`${format.name} exported successfully!`, 'success');
+    } catch (error) {
+      console.error('Error generating animation:', error);
+      this.showToast(error instanceof Error ? error.message : 'Error generating animation. Please try again.', 'error');
+    } finally {
+      this.isExporting = false;
+      this.exportingType = '';
+    }
+  }
+
+  async copyToClipboard() {
+    try {
+      const template = this.cardService.getTemplateForPlayer(this.currentPlayer);
+      const success = await this.exportService.copyToClipboard(this.currentPlayer, template);
       if (success) {
         this.showToast('Card copied to clipboard!', 'success');
       } else {
@@ -931,23 +1997,22 @@ export class AppComponent implements OnInit, OnDestroy {
   }
 
   async exportPDF() {
-    const cardElement = document.getElementById('fifa-card-preview');
-    if (!cardElement) return;
-
-    this.resetTiltBeforeExport();
     this.isExporting = true;
     this.exportingType = 'Generating PDF';
 
-    await new Promise(r => setTimeout(r, 50));
-
     try {
       // Generate the current card as PNG first
-      const pngDataUrl = await this.exportService.exportCardAsPNG(cardElement, this.currentPlayer, 'transparent');
+      const template = this.cardService.getTemplateForPlayer(this.currentPlayer);
+      const pngDataUrl = await this.exportService.exportCardAsPNG(this.currentPlayer, template, 'transparent');
+      const backImageDataUrl = this.duplexContactSheet
+        ? await this.exportService.exportCardBackAsPNG(this.currentPlayer, template, 'transparent')
+        : undefined;
 
       // Generate PDF contact sheet with the current card
+      const customBranding = this.activeProject?.settings.customBranding;
       const pdfBytes = await this.exportService.generatePDFContactSheet([
-        { playerData: this.currentPlayer, imageDataUrl: pngDataUrl }
-      ]);
+        { playerData: this.currentPlayer, imageDataUrl: pngDataUrl, backImageDataUrl }
+      ], { includeWatermark: !!customBranding, customBranding, duplex: this.duplexContactSheet });
 
       const blob = new Blob([pdfBytes.buffer as ArrayBuffer], { type: 'application/pdf' });
       this.exportService.downloadFile(blob, `${this.currentPlayer.name}_FIFA_Card_Sheet.pdf`);
@@ -961,6 +2026,48 @@ export class AppComponent implements OnInit, OnDestroy {
     }
   }
 
+  openPrintSettings(cards: PlayerData[], name: string) {
+    this.printProfile = this.storageService.getPrintProfile();
+    this.printFileName = name;
+    this.printCards = cards;
+  }
+
+  async exportPrintSheet(profile: PrintProfile) {
+    const cards = this.printCards || [];
+    this.printCards = null;
+    this.storageService.setPrintProfile(profile);
+    this.printProfile = profile;
+    this.isExporting = true;
+    this.exportingType = 'Rendering print sheet';
+
+    try {
+      const pdfBytes = await this.exportService.generatePrintSheet(
+        cards.map(playerData => ({ playerData, template: this.cardService.getTemplateForPlayer(playerData) })),
+        profile,
+        (done, total) => this.exportingType = `Rendering print sheet (${done}/${total})`
+      );
+
+      const blob = new Blob([pdfBytes.buffer as ArrayBuffer], { type: 'application/pdf' });
+      this.exportService.downloadFile(blob, `${this.printFileName.replace(/\s+/g, '_')}_Print.pdf`);
+      this.showToast('Print PDF exported successfully!', 'success');
+    } catch (error) {
+      console.error('Error generating print PDF:', error);
+      this.showToast('Error generating print PDF. Please try again.', 'error');
+    } finally {
+      this.isExporting = false;
+      this.exportingType = '';
+    }
+  }
+
+  openPackOpening(cards: PlayerData[], title: string) {
+    this.packTitle = title;
+    this.packCards = cards;
+  }
+
+  openHistoryPackOpening() {
+    this.openPackOpening(this.cardHistory.map(stored => stored.playerData), 'Recent cards');
+  }
+
   duplicateCard() {
     const duplicated = {
       ...this.currentPlayer,
@@ -980,25 +2087,16 @@ export class AppComponent implements OnInit, OnDestroy {
     if (!file) return;
 
     try {
-      let result;
-      if (file.name.endsWith('.csv')) {
-        result = await this.batchService.importFromCSV(file);
-      } else if (file.name.endsWith('.json')) {
-        result = await this.batchService.importFromJSON(file);
+      const extension = file.name.split('.').pop()?.toLowerCase() || '';
+      if (['csv', 'xlsx', 'ods'].includes(extension)) {
+        // Tabular files go through the column mapping wizard
+        this.importSource = await this.batchService.readImportFile(file);
+      } else if (extension === 'json') {
+        this.reportImportResult(await this.batchService.importFromJSON(file));
       } else {
-        this.showToast('Please upload a CSV or JSON file.', 'error');
+        this.showToast('Please upload a CSV, Excel, ODS or JSON file.', 'error');
         return;
       }
-
-      const successCount = result.success.length;
-      const errorCount = result.errors.length;
-
-      if (successCount > 0) {
-        this.showToast(`Imported ${successCount} cards successfully!`, 'success');
-      }
-      if (errorCount > 0) {
-        this.showToast(`${errorCount} rows had errors.`, 'warning');
-      }
     } catch (error) {
       console.error('Batch import error:', error);
       this.showToast('Error importing file. Check format and try again.', 'error');
@@ -1008,6 +2106,28 @@ export class AppComponent implements OnInit, OnDestroy {
     input.value = '';
   }
 
+  onMappedImport(result: BatchImportResult) {
+    this.importSource = null;
+    this.reportImportResult(result);
+  }
+
+  private reportImportResult(result: BatchImportResult) {
+    const successCount = result.success.length;
+    const errorCount = result.errors.length;
+
+    if (successCount > 0) {
+      const updated = result.updated > 0 ? ` (${result.updated} existing cards updated)` : '';
+      this.showToast(`Imported ${successCount} cards successfully!${updated}`, 'success');
+    }
+    if (errorCount > 0) {
+      this.showToast(`${errorCount} rows had errors.`, 'warning');
+    }
+    if (result.warnings.length > 0) {
+      console.warn('Batch import warnings:', result.warnings);
+      this.showToast(result.warnings[0].message + (result.warnings.length > 1 ? ` (+${result.warnings.length - 1} more)` : ''), 'warning');
+    }
+  }
+
   async onPhotoZipImport(event: Event) {
     const input = event.target as HTMLInputElement;
     const file = input.files?.[0];
@@ -1017,10 +2137,9 @@ export class AppComponent implements OnInit, OnDestroy {
       const photos = await this.batchService.importPhotoLibrary(file);
       this.showToast(`Loaded ${photos.size} photos`, 'success');
 
-      // Auto-match photos to batch cards if any
+      // Review matches for the batch cards, if any
       if (this.batchCards.length > 0) {
-        this.batchService.matchPhotosToPlayers();
-        this.showToast('Photos matched to players', 'info');
+        this.reviewPhotoMatches();
       }
     } catch (error) {
       console.error('Photo ZIP import error:', error);
@@ -1030,14 +2149,86 @@ export class AppComponent implements OnInit, OnDestroy {
     input.value = '';
   }
 
+  reviewPhotoMatches() {
+    const matches = this.batchService.matchPhotosToPlayers();
+    if (matches.length === 0) {
+      this.showToast('Every batch card already has a photo', 'info');
+      return;
+    }
+    this.photoMatches = matches;
+  }
+
+  onPhotoMatchesApplied(assignments: Record<string, string>) {
+    this.photoMatches = null;
+    const applied = this.batchService.applyPhotoMatches(assignments);
+    this.showToast(`Added photos to ${applied} cards`, 'success');
+  }
+
+  async exportAllBatchCards() {
+    if (this.batchCards.length === 0 || this.isBatchExporting) return;
+
+    this.isBatchExporting = true;
+
+    try {
+      const result = await this.batchService.renderAndExportAll({
+        customBranding: this.activeProject?.settings.customBranding,
+        duplex: this.duplexContactSheet
+      });
+
+      if (result.cancelled) {
+        this.showToast('Batch export cancelled', 'info');
+        return;
+      }
+
+      if (result.zip) {
+        this.exportService.downloadFile(result.zip, 'FIFA_Cards_Batch.zip');
+        this.showToast(`Exported ${result.exported} cards!`, 'success');
+      }
+      if (result.failed.length > 0) {
+        this.showToast(`${result.failed.length} cards failed to render.`, 'warning');
+      }
+    } catch (error) {
+      console.error('Batch export error:', error);
+      this.showToast('Error exporting batch. Please try again.', 'error');
+    } finally {
+      this.isBatchExporting = false;
+    }
+  }
+
+  cancelBatchExport() {
+    this.batchService.cancelBatchExport();
+  }
+
+  async addBatchToProject() {
+    if (!this.activeProject || this.batchCards.length === 0) return;
+
+    try {
+      await this.projectService.upsertCards(this.batchCards);
+      this.showToast(`Added ${this.batchCards.length} cards to ${this.activeProject.name}`, 'success');
+    } catch (error) {
+      console.error('Error adding batch to project:', error);
+      this.showToast('Could not add cards to project.', 'error');
+    }
+  }
+
+  async exportCardsTable(cards: PlayerData[], format: 'csv' | 'xlsx', name: string) {
+    try {
+      const blob = await this.batchService.exportCards(cards, format, name);
+      this.exportService.downloadFile(blob, `${name.replace(/\s+/g, '_')}.${format}`);
+    } catch (error) {
+      console.error('Error exporting cards:', error);
+      this.showToast('Could not export cards.', 'error');
+    }
+  }
+
   loadBatchCard(card: PlayerData) {
-    this.cardService.updatePlayer(card);
+    this.cardService.loadPlayer(card);
     this.showToast(`Loaded card: ${card.name}`, 'info');
   }
 
   // ===== History =====
   loadFromHistory(stored: StoredCard) {
-    this.cardService.updatePlayer(stored.playerData);
+    this.cardService.loadPlayer(stored.playerData);
     this.showToast(`Loaded: ${stored.playerData.name}`, 'info');
   }
 
@@ -1051,6 +2242,195 @@ export class AppComponent implements OnInit, OnDestroy {
     this.showToast('History cleared', 'info');
   }
 
+  async updateRetentionPolicy(change: Partial<HistoryRetentionPolicy>) {
+    await this.storageService.setRetentionPolicy({ ...this.retentionPolicy, ...change });
+    this.showToast('History retention updated', 'info');
+  }
+
+  // ===== Projects =====
+  switchProject(id: string) {
+    this.projectService.switchProject(id);
+    this.showToast(`Switched to ${this.activeProject?.name}`, 'info');
+  }
+
+  async createProject() {
+    try {
+      const project = await this.projectService.createProject(this.newProjectName);
+      this.projectService.switchProject(project.id);
+      this.newProjectName = '';
+      this.showToast(`Created project ${project.name}`, 'success');
+    } catch (error) {
+      console.error('Error creating project:', error);
+      this.showToast('Could not create project.', 'error');
+    }
+  }
+
+  async renameActiveProject() {
+    if (!this.activeProject) return;
+
+    try {
+      await this.projectService.renameProject(this.activeProject.id, this.projectNameDraft);
+      this.showToast('Project renamed', 'success');
+    } catch (error) {
+      console.error('Error renaming project:', error);
+      this.showToast('Could not rename project.', 'error');
+    }
+  }
+
+  async duplicateActiveProject() {
+    if (!this.activeProject) return;
+
+    try {
+      const copy = await this.projectService.duplicateProject(this.activeProject.id);
+      this.projectService.switchProject(copy.id);
+      this.showToast(`Created ${copy.name}`, 'success');
+    } catch (error) {
+      console.error('Error duplicating project:', error);
+      this.showToast('Could not duplicate project.', 'error');
+    }
+  }
+
+  async deleteActiveProject() {
+    if (!this.activeProject) return;
+    if (!confirm(`Delete project "${this.activeProject.name}" and its ${this.activeProject.cards.length} cards?`)) return;
+
+    try {
+      const name = this.activeProject.name;
+      await this.projectService.deleteProject(this.activeProject.id);
+      this.showToast(`Deleted ${name}`, 'info');
+    } catch (error) {
+      console.error('Error deleting project:', error);
+      this.showToast('Could not delete project.', 'error');
+    }
+  }
+
+  // Weights change the overall of the card being edited unless it is set by hand
+  async updateRatingProfiles(ratingProfiles: RatingProfiles) {
+    await this.updateProjectSettings({ ratingProfiles });
+    if (!this.currentPlayer.manualRating) {
+      this.recomputeRating();
+    }
+  }
+
+  // Removing a position also drops its weight overrides
+  async updateCustomPositions(customPositions: PositionDefinition[]) {
+    const codes = new Set(this.positions.filter(position => !position.custom).map(position => position.code));
+    customPositions.forEach(position => codes.add(position.code));
+    const ratingProfiles = Object.fromEntries(
+      Object.entries(this.activeProject?.settings.ratingProfiles || {}).filter(([code]) => codes.has(code))
+    );
+    await this.updateProjectSettings({ customPositions, ratingProfiles });
+    if (!this.currentPlayer.manualRating) {
+      this.recomputeRating();
+    }
+  }
+
+  // Removing the default logo clears the default; cards keep their copy of the image
+  async updateProjectLogos(logos: LogoEntry[]) {
+    const defaultLogoId = logos.some(logo => logo.id === this.activeProject?.settings.defaultLogoId)
+      ? this.activeProject?.settings.defaultLogoId
+      : undefined;
+    await this.updateProjectSettings({ logos, defaultLogoId });
+  }
+
+  async updateProjectSettings(settings: Partial<ProjectSettings>) {
+    if (!this.activeProject) return;
+
+    try {
+      await this.projectService.updateProjectSettings(this.activeProject.id, settings);
+    } catch (error) {
+      console.error('Error updating project settings:', error);
+      this.showToast('Could not save project settings.', 'error');
+    }
+  }
+
+  async exportActiveProject() {
+    if (!this.activeProject) return;
+
+    try {
+      const blob = await this.projectService.exportProject(this.activeProject.id);
+      this.exportService.downloadFile(blob, `${this.activeProject.name.replace(/\s+/g, '_')}.fifacard.json`);
+    } catch (error) {
+      console.error('Error exporting project:', error);
+      this.showToast('Could not export project.', 'error');
+    }
+  }
+
+  async onProjectImport(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    const project = await this.projectService.importProject(file);
+    if (project) {
+      this.projectService.switchProject(project.id);
+      this.showToast(`Imported ${project.name} (${project.cards.length} cards)`, 'success');
+    } else {
+      this.showToast('Invalid project file.', 'error');
+    }
+
+    input.value = '';
+  }
+
+  newProjectCard() {
+    const defaultTemplate = this.activeProject?.settings.defaultTemplate || 'gold-classic';
+    this.cardService.newPlayer(defaultTemplate);
+    const defaultLogo = this.projectLogos.find(logo => logo.id === this.activeProject?.settings.defaultLogoId);
+    if (defaultLogo) {
+      this.cardService.updatePlayer({ customLogo: defaultLogo.dataUrl });
+    }
+  }
+
+  async saveCurrentCardToProject() {
+    if (!this.activeProject) return;
+
+    try {
+      await this.projectService.upsertCards([this.currentPlayer]);
+      this.showToast(`Saved to ${this.activeProject.name}`, 'success');
+    } catch (error) {
+      console.error('Error saving card to project:', error);
+      this.showToast('Could not save card to project.', 'error');
+    }
+  }
+
+  // The variant is made from the base card as saved, so variants of a variant do not stack boosts
+  async createVariant(variantId: string) {
+    if (!this.activeProject) return;
+
+    const base = this.cardService.getVariantBase(this.currentPlayer, this.activeProject.cards);
+    if (!base) {
+      this.showToast('The original of this card was deleted, so no new variant can be made from it.', 'error');
+      return;
+    }
+
+    try {
+      const variant = this.cardService.createVariant(base, variantId);
+      await this.projectService.upsertCards([base, variant]);
+      this.loadProjectCard(variant);
+      this.showToast(`Created ${this.getVariantName(variant)} card for ${variant.name}`, 'success');
+    } catch (error) {
+      console.error('Error creating card variant:', error);
+      this.showToast('Could not create card variant.', 'error');
+    }
+  }
+
+  getVariantName(card: PlayerData): string {
+    return this.cardService.getVariant(card.variantId)?.name || '';
+  }
+
+  loadProjectCard(card: PlayerData) {
+    this.cardService.loadPlayer(card);
+    this.selectedTemplate = this.cardService.getTemplateForPlayer(card);
+    this.showToast(`Loaded card: ${card.name}`, 'info');
+  }
+
+  async removeProjectCard(card: PlayerData) {
+    if (!card.id) return;
+
+    await this.projectService.removeCard(card.id);
+    this.showToast(`Removed ${card.name} from project`, 'info');
+  }
+
   // ===== Utility functions =====
   private downloadImage(dataUrl: string, filename: string) {
     const link = document.createElement('a');
@@ -1061,20 +2441,7 @@ export class AppComponent implements OnInit, OnDestroy {
     document.body.removeChild(link);
   }
 
-  getPositionName(position: ITPosition): string {
-    return POSITION_NAMES[position] || position;
-  }
-
-  getStatLabel(stat: string): string {
-    return STAT_LABELS[stat] || stat.toUpperCase();
-  }
-
-  getFlagEmoji(countryCode: string): string {
-    if (!countryCode || countryCode.length < 2) return '';
-    const code = countryCode.toUpperCase();
-    // Convert country code to regional indicator symbols
-    const offset = 127397;
-    const chars = [...code].map(c => String.fromCodePoint(c.charCodeAt(0) + offset));
-    return chars.join('');
+  getPositionName(position: string): string {
+    return this.cardService.getPositionName(position);
   }
 }
@@ -0,0 +1,131 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import {
+  ANIMATION_FORMATS,
+  ANIMATION_FRAME_RATES,
+  AnimationProfile,
+  DEFAULT_ANIMATION_PROFILE,
+  MAX_ANIMATION_SECONDS,
+  MIN_ANIMATION_SECONDS
+} from '../../models/animation.model';
+
+@Component({
+    selector: 'app-animation-settings',
+    host: { class: 'block' },
+    template: `
+    <div class="bg-slate-800 rounded-xl shadow-xl p-4 sm:p-6 max-h-[90vh] overflow-y-auto">
+      <h3 class="text-lg font-semibold mb-1 text-yellow-400">Animated Export</h3>
+      <div class="text-sm text-slate-400 mb-4">{{ frameCount }} frames, {{ profile.scale === 2 ? '644 × 900' : '322 × 450' }} card</div>
+
+      <div class="grid grid-cols-2 gap-3 text-sm">
+        <div class="col-span-2 grid grid-cols-3 gap-2">
+          @for (format of formats; track format.id) {
+            <button
+              (click)="update({ format: format.id })"
+              [disabled]="format.id === 'webm' && !webmSupported"
+              class="p-2 rounded-lg border-2 text-left transition-colors disabled:opacity-40"
+              [class]="profile.format === format.id ? 'border-yellow-400 bg-yellow-400/10' : 'border-slate-600 hover:border-slate-500'"
+              [title]="format.id === 'webm' && !webmSupported ? 'This browser cannot record WebM' : format.description"
+              >
+              <div class="font-medium">{{ format.name }}</div>
+              <div class="text-xs text-slate-400">{{ format.description }}</div>
+            </button>
+          }
+        </div>
+        <label class="block">
+          <span class="block mb-1">Length (seconds)</span>
+          <input type="number" [min]="minSeconds" [max]="maxSeconds" step="0.5" [ngModel]="profile.durationSeconds" (ngModelChange)="update({ durationSeconds: clampSeconds($event) })" class="w-full px-2 py-1.5 bg-slate-700 border border-slate-600 rounded">
+        </label>
+        <label class="block">
+          <span class="block mb-1">Frame rate</span>
+          <select [ngModel]="profile.fps" (ngModelChange)="update({ fps: $event })" class="w-full px-2 py-1.5 bg-slate-700 border border-slate-600 rounded">
+            @for (fps of frameRates; track fps) {
+              <option [ngValue]="fps">{{ fps }} fps</option>
+            }
+          </select>
+        </label>
+        <label class="block">
+          <span class="block mb-1">Size</span>
+          <select [ngModel]="profile.scale" (ngModelChange)="update({ scale: $event })" class="w-full px-2 py-1.5 bg-slate-700 border border-slate-600 rounded">
+            <option [ngValue]="1">Chat (1×)</option>
+            <option [ngValue]="2">Large (2×)</option>
+          </select>
+        </label>
+        <label class="block">
+          <span class="block mb-1">Background</span>
+          <input type="color" [ngModel]="profile.background" (ngModelChange)="update({ background: $event })" class="w-full h-[34px] bg-slate-700 border border-slate-600 rounded cursor-pointer">
+        </label>
+        <label class="flex items-center gap-2 col-span-2">
+          <input type="checkbox" [ngModel]="profile.reveal" (ngModelChange)="update({ reveal: $event })">
+          Walkout reveal
+          <span class="text-xs text-slate-400">(light rays and a flash before the card)</span>
+        </label>
+        <label class="flex items-center gap-2 col-span-2">
+          <input type="checkbox" [ngModel]="profile.tilt" (ngModelChange)="update({ tilt: $event })">
+          Rotating tilt
+        </label>
+        <label class="flex items-center gap-2 col-span-2">
+          <input type="checkbox" [ngModel]="profile.shine" (ngModelChange)="update({ shine: $event })" [disabled]="!metallic">
+          Shine sweep
+          @if (!metallic) {
+            <span class="text-xs text-slate-400">(metallic templates only)</span>
+          }
+        </label>
+        @if (profile.format !== 'webm') {
+          <label class="flex items-center gap-2 col-span-2">
+            <input type="checkbox" [ngModel]="profile.loop" (ngModelChange)="update({ loop: $event })">
+            Loop forever
+          </label>
+        } @else {
+          <div class="col-span-2 text-xs text-slate-400">WebM is recorded in real time: keep this tab open for {{ profile.durationSeconds }} s.</div>
+        }
+      </div>
+
+      <div class="flex flex-wrap justify-end gap-2 mt-6">
+        <button
+          (click)="closed.emit()"
+          class="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-sm"
+          >
+          Cancel
+        </button>
+        <button
+          (click)="exported.emit(profile)"
+          [disabled]="profile.format === 'webm' && !webmSupported"
+          class="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded-lg transition-colors text-sm font-medium"
+          >
+          Export {{ formatName }}
+        </button>
+      </div>
+    </div>
+    `,
+    imports: [FormsModule]
+})
+export class AnimationSettingsComponent {
+  @Input() profile: AnimationProfile = DEFAULT_ANIMATION_PROFILE;
+  @Input() metallic = false; // the shine only shows on metallic templates
+  @Input() webmSupported = true;
+
+  @Output() exported = new EventEmitter<AnimationProfile>();
+  @Output() closed = new EventEmitter<void>();
+
+  readonly formats = ANIMATION_FORMATS;
+  readonly frameRates = ANIMATION_FRAME_RATES;
+  readonly minSeconds = MIN_ANIMATION_SECONDS;
+  readonly maxSeconds = MAX_ANIMATION_SECONDS;
+
+  get frameCount(): number {
+    return Math.max(1, Math.round(this.profile.durationSeconds * this.profile.fps));
+  }
+
+  get formatName(): string {
+    return ANIMATION_FORMATS.find(format => format.id === this.profile.format)?.name || '';
+  }
+
+  update(changes: Partial<AnimationProfile>) {
+    this.profile = { ...this.profile, ...changes };
+  }
+
+  clampSeconds(value: number | null): number {
+    return Math.min(MAX_ANIMATION_SECONDS, Math.max(MIN_ANIMATION_SECONDS, Number(value) || MIN_ANIMATION_SECONDS));
+  }
+}
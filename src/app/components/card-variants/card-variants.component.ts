@@ -0,0 +1,122 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { CARD_VARIANTS, CardTemplate, CardVariant, MAX_VARIANT_BOOST, PlayerData, VariantBoosts } from '../../models/player.model';
+import { CardService } from '../../services/card.service';
+import { FifaCardComponent } from '../fifa-card/fifa-card.component';
+
+// Version history thumbnails, 129x180
+const CARD_SCALE = 0.4;
+
+@Component({
+    selector: 'app-card-variants',
+    host: { class: 'block' },
+    template: `
+    <div class="space-y-3">
+      <h4 class="font-medium">Promo Variants</h4>
+
+      <div class="space-y-1">
+        @for (variant of variants; track variant.id) {
+          <div class="p-2 bg-slate-700 rounded flex items-center gap-2">
+            <span
+              class="px-2 rounded-full text-xs font-bold tracking-wider w-14 text-center shrink-0"
+              [style.background]="variant.color"
+              [style.color]="variant.textColor"
+              >
+              {{ variant.badge }}
+            </span>
+            <span class="text-sm flex-1 truncate" [title]="describe(variant)">{{ variant.name }}</span>
+            <label class="flex items-center gap-1 text-xs text-slate-400" title="Added to every stat">
+              +
+              <input
+                type="number"
+                min="0"
+                [max]="maxBoost"
+                [ngModel]="variant.statBoost"
+                (change)="setBoost(variant, $any($event.target).value)"
+                class="w-12 px-1 py-0.5 bg-slate-800 border border-slate-600 rounded text-white"
+                >
+            </label>
+            <button
+              (click)="created.emit(variant.id)"
+              class="px-2 py-1 bg-green-600 hover:bg-green-700 rounded text-xs transition-colors"
+              >
+              Create
+            </button>
+          </div>
+        }
+      </div>
+      <div class="text-xs text-slate-400">Creates a boosted copy of this card in the project, linked to the original.</div>
+
+      @if (versions.length > 1) {
+        <div class="space-y-2">
+          <h4 class="font-medium text-sm">Versions</h4>
+          <div class="flex gap-3 overflow-x-auto pb-2">
+            @for (card of versions; track card.id) {
+              <button
+                (click)="selected.emit(card)"
+                class="shrink-0 text-left rounded-lg p-1 transition-colors"
+                [class]="card.id === player.id ? 'bg-yellow-500/20 ring-2 ring-yellow-400' : 'hover:bg-slate-700'"
+                >
+                <div class="overflow-hidden" [style.width.px]="thumbnailWidth" [style.height.px]="thumbnailHeight">
+                  <div class="origin-top-left pointer-events-none" [style.transform]="'scale(' + cardScale + ')'">
+                    <app-fifa-card [player]="card" [template]="getTemplate(card)"/>
+                  </div>
+                </div>
+                <div class="text-xs mt-1 flex justify-between">
+                  <span class="truncate">{{ getVariantName(card) }}</span>
+                  <span class="text-yellow-400 font-bold">{{ card.rating }}</span>
+                </div>
+              </button>
+            }
+          </div>
+        </div>
+      }
+    </div>
+    `,
+    imports: [FormsModule, FifaCardComponent]
+})
+export class CardVariantsComponent {
+  @Input({ required: true }) player!: PlayerData;
+  @Input() cards: PlayerData[] = [];
+  @Input() boosts: VariantBoosts = {};
+
+  @Output() created = new EventEmitter<string>();
+  @Output() selected = new EventEmitter<PlayerData>();
+  @Output() boostsChange = new EventEmitter<VariantBoosts>();
+
+  readonly maxBoost = MAX_VARIANT_BOOST;
+  readonly cardScale = CARD_SCALE;
+  readonly thumbnailWidth = Math.round(322 * CARD_SCALE);
+  readonly thumbnailHeight = Math.round(450 * CARD_SCALE);
+
+  constructor(private cardService: CardService) {}
+
+  get variants(): CardVariant[] {
+    return this.cardService.getVariants();
+  }
+
+  get versions(): PlayerData[] {
+    return this.cardService.getVersions(this.player, this.cards);
+  }
+
+  describe(variant: CardVariant): string {
+    const template = variant.templateId && this.cardService.getTemplateById(variant.templateId);
+    return template ? `${variant.name}, switches to ${template.displayName}` : variant.name;
+  }
+
+  getVariantName(card: PlayerData): string {
+    return card.variantId ? this.cardService.getVariant(card.variantId)?.name || card.variantId : 'Base';
+  }
+
+  getTemplate(card: PlayerData): CardTemplate {
+    return this.cardService.getTemplateForPlayer(card);
+  }
+
+  // Boosts equal to the built-in one are dropped so the project follows future defaults
+  setBoost(variant: CardVariant, value: string) {
+    const boost = Math.max(0, Math.min(MAX_VARIANT_BOOST, Math.round(Number(value) || 0)));
+    const { [variant.id]: _, ...boosts } = this.boosts;
+    const builtIn = CARD_VARIANTS.find(other => other.id === variant.id)?.statBoost;
+    this.boostsChange.emit(boost === builtIn ? boosts : { ...boosts, [variant.id]: boost });
+  }
+}
@@ -0,0 +1,119 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { PositionDefinition, StatSchema } from '../../models/player.model';
+import { CardService } from '../../services/card.service';
+
+@Component({
+    selector: 'app-custom-positions',
+    host: { class: 'block' },
+    template: `
+    <div class="space-y-2">
+      <h4 class="font-medium text-sm">Positions</h4>
+
+      @for (position of positions; track position.code) {
+        <div class="p-2 bg-slate-700 rounded flex items-center gap-2 group">
+          <span class="text-xs font-bold w-12" [style.color]="position.color || null">{{ position.code }}</span>
+          <span class="text-sm flex-1 truncate">{{ position.name }}</span>
+          @if (position.weights) {
+            <span class="text-xs text-slate-400" title="Has its own rating weights">&#9878;</span>
+          }
+          <button
+            (click)="removePosition(position)"
+            class="text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all text-lg px-1"
+            title="Remove position"
+            >
+            &times;
+          </button>
+        </div>
+      }
+
+      <div class="grid grid-cols-[4rem_1fr_2.5rem] gap-2">
+        <input
+          type="text"
+          [ngModel]="draft.code"
+          (ngModelChange)="draft.code = $event.toUpperCase()"
+          maxlength="5"
+          class="px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm uppercase"
+          placeholder="SRE"
+          >
+        <input
+          type="text"
+          [(ngModel)]="draft.name"
+          maxlength="30"
+          class="px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm"
+          placeholder="Site Reliability Engineer"
+          >
+        <input
+          type="color"
+          [(ngModel)]="draft.color"
+          class="w-full h-8 bg-transparent border border-slate-600 rounded cursor-pointer"
+          title="Badge color"
+          >
+      </div>
+      <div class="flex gap-2">
+        <select
+          [(ngModel)]="weightsFrom"
+          class="flex-1 px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm"
+          title="Starting rating weights"
+          >
+          <option value="">Equal weights</option>
+          @for (option of allPositions; track option.code) {
+            <option [value]="option.code">Weights like {{ option.code }}</option>
+          }
+        </select>
+        <button
+          (click)="addPosition()"
+          [disabled]="!draft.code || !draft.name.trim()"
+          class="px-3 py-1.5 bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded text-sm transition-colors"
+          >
+          Add
+        </button>
+      </div>
+    </div>
+    `,
+    imports: [FormsModule]
+})
+export class CustomPositionsComponent {
+  @Input() positions: PositionDefinition[] = [];
+  @Input({ required: true }) schema!: StatSchema;
+
+  @Output() positionsChange = new EventEmitter<PositionDefinition[]>();
+  @Output() notify = new EventEmitter<{ message: string; type: 'success' | 'error' | 'info' }>();
+
+  draft: PositionDefinition = this.emptyDraft();
+  weightsFrom = '';
+
+  constructor(private cardService: CardService) {}
+
+  get allPositions(): PositionDefinition[] {
+    return this.cardService.getPositions();
+  }
+
+  addPosition() {
+    const position: PositionDefinition = {
+      code: this.draft.code.trim(),
+      name: this.draft.name.trim(),
+      color: this.draft.color,
+      custom: true,
+      ...(this.weightsFrom ? { weights: this.cardService.getPositionWeights(this.weightsFrom, this.schema) } : {})
+    };
+
+    const errors = this.cardService.validatePosition(position);
+    if (errors.length > 0) {
+      this.notify.emit({ message: errors.join(', '), type: 'error' });
+      return;
+    }
+
+    this.positionsChange.emit([...this.positions, position]);
+    this.draft = this.emptyDraft();
+    this.weightsFrom = '';
+  }
+
+  removePosition(position: PositionDefinition) {
+    this.positionsChange.emit(this.positions.filter(other => other.code !== position.code));
+  }
+
+  private emptyDraft(): PositionDefinition {
+    return { code: '', name: '', color: '#22c55e' };
+  }
+}
@@ -0,0 +1,316 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { PlayerData, CardTemplate, CardLayout, CardBackLayout, DEFAULT_CARD_BACK_LAYOUT, SENIORITY_LEVELS, StatDefinition, TenureBadge, CardVariant } from '../../models/player.model';
+import { CardService } from '../../services/card.service';
+import { getStatGridColumns } from '../../services/card-renderer.service';
+import { getFlagEmoji } from '../../utils/flags';
+import { encodeQr, qrToDataUrl } from '../../utils/qr';
+
+@Component({
+    selector: 'app-fifa-card',
+    host: { class: 'block' },
+    template: `
+    @if (side === 'back') {
+      <div
+        [attr.id]="elementId"
+        [class]="'fifa-card card-back ' + player.backgroundTheme"
+        [class.custom-metallic]="isCustom && template?.metallic"
+        [class.custom-glow]="isCustom && template?.glowEffect"
+        [style]="customStyle"
+        >
+        <div class="back-name" [style]="getBackSlotStyle('name')">{{ player.name || 'Player Name' }}</div>
+        @if (player.bio) {
+          <div class="back-text" [style]="getBackSlotStyle('bio')">{{ player.bio }}</div>
+        }
+        @if (player.techStack?.length) {
+          <div class="back-tags" [style]="getBackSlotStyle('techStack')">
+            @for (tag of player.techStack; track tag) {
+              <span class="back-tag">{{ tag }}</span>
+            }
+          </div>
+        }
+        @if (player.yearsOfExperience !== undefined) {
+          <div class="back-experience" [style]="getBackSlotStyle('experience')">
+            <span class="back-experience-value">{{ player.yearsOfExperience }}</span>
+            <span class="back-experience-label">{{ player.yearsOfExperience === 1 ? 'Year' : 'Years' }} of experience</span>
+          </div>
+        }
+        @if (player.favoriteQuote) {
+          <div class="back-text back-quote" [style]="getBackSlotStyle('quote')">&ldquo;{{ player.favoriteQuote }}&rdquo;</div>
+        }
+        @if (qrCode) {
+          <img class="back-qr" [src]="qrCode" [style]="getBackSlotStyle('qr')" alt="QR code">
+        }
+        <div class="back-branding" [style]="getBackSlotStyle('branding')">
+          @if (player.customLogo) {
+            <img [src]="player.customLogo" alt="Logo">
+          }
+          @if (branding) {
+            <span>{{ branding }}</span>
+          }
+        </div>
+      </div>
+    } @else {
+      <div
+        [attr.id]="elementId"
+        [class]="'fifa-card ' + player.backgroundTheme"
+        [class.custom-metallic]="isCustom && template?.metallic"
+        [class.custom-glow]="isCustom && template?.glowEffect"
+        [class.custom-layout]="!!template?.layout"
+        [style]="customStyle"
+        >
+        <!-- Header with rating and position -->
+        <div class="card-header">
+          <div class="rating-badge" [style]="getSlotStyle('rating', false)">{{ player.rating }}</div>
+          <div
+            class="position-badge"
+            [style]="getSlotStyle('position', false)"
+            [style.color]="positionColor"
+            [title]="positionName">{{ player.position }}</div>
+          @if (player.nationality) {
+            <div
+              class="flag-logo"
+              [style]="getSlotStyle('flag')"
+              [title]="player.nationality">
+              {{ getFlagEmoji(player.nationality) }}
+            </div>
+          }
+        </div>
+
+        <!-- Player photo -->
+        <div class="player-photo-container" [style]="getSlotStyle('photo')">
+          @if (player.profilePhoto) {
+            <img
+              [src]="player.profilePhoto"
+              [class]="'player-photo ' + getMaskClass()"
+              alt="Player Photo"
+              (error)="photoError.emit($event)"
+              >
+          }
+          @if (!player.profilePhoto) {
+            <div
+              class="photo-placeholder"
+              >
+              &#128100;
+            </div>
+          }
+        </div>
+
+        <!-- Player info -->
+        <div class="player-info" [style]="getSlotStyle('name')">
+          <div class="player-name">{{ player.name || 'Player Name' }}</div>
+          <div class="nationality-info">{{ player.nationality || 'NAT' }}</div>
+        </div>
+
+        <!-- Profile details -->
+        @if (player.alternativePosition) {
+          <div
+            class="alt-position"
+            [style]="getSlotStyle('altPosition')"
+            [style.color]="alternativePositionColor"
+            [title]="'Alternative position: ' + alternativePositionName">{{ player.alternativePosition }}</div>
+        }
+        @if (bestFitPosition) {
+          <div
+            class="best-fit-position"
+            [style]="getSlotStyle('bestFit')"
+            [style.color]="bestFitPositionColor"
+            [title]="'Best fit by rating weights: ' + bestFitPositionName">{{ bestFitPosition }}</div>
+        }
+        @if (player.seniority || tenureBadge) {
+          <div class="profile-badges" [style]="getSlotStyle('badges')">
+            @if (player.seniority) {
+              <span class="profile-badge">{{ seniorityLevels[player.seniority] }}</span>
+            }
+            @if (tenureBadge) {
+              <span class="profile-badge tenure-badge" [style.background]="tenureBadge.color" [title]="'Joined ' + player.startDate">{{ tenureBadge.label }}</span>
+            }
+          </div>
+        }
+        @if (player.skillMoves || player.weakFoot) {
+          <div class="skill-stars" [style]="getSlotStyle('skillStars')">
+            @if (player.skillMoves) {
+              <div title="Skill moves">{{ player.skillMoves }}&#9733; SM</div>
+            }
+            @if (player.weakFoot) {
+              <div title="Weak foot">{{ player.weakFoot }}&#9733; WF</div>
+            }
+          </div>
+        }
+        @if (player.team) {
+          <div class="team-name" [style]="getSlotStyle('team')">{{ player.team }}</div>
+        }
+        @if (variant) {
+          <div class="variant-badge" [style]="getSlotStyle('variant')" [title]="variant.name">
+            <span [style.background]="variant.color" [style.color]="variant.textColor">{{ variant.badge }}</span>
+          </div>
+        }
+
+        <!-- Stats grid -->
+        <div class="stats-grid" [style]="getStatsGridStyle()">
+          @for (stat of stats; track stat.key) {
+            <div class="stat-item" [title]="stat.label">
+              <div class="stat-value">{{ player.stats[stat.key] || 0 }}</div>
+              <div class="stat-label">{{ stat.abbreviation }}</div>
+            </div>
+          }
+        </div>
+
+        <!-- Brand logo -->
+        @if (player.customLogo) {
+          <div class="brand-logo" [style]="getSlotStyle('logo')">
+            <img [src]="player.customLogo" alt="Logo">
+          </div>
+        }
+      </div>
+    }
+    `
+})
+export class FifaCardComponent {
+  @Input({ required: true }) player!: PlayerData;
+  @Input() template: CardTemplate | null = null;
+  @Input() elementId?: string;
+  @Input() side: 'front' | 'back' = 'front';
+
+  @Output() photoError = new EventEmitter<Event>();
+
+  readonly seniorityLevels = SENIORITY_LEVELS;
+
+  private qrCache: { text: string; dataUrl: string | null } | null = null;
+
+  constructor(private cardService: CardService) {}
+
+  get stats(): StatDefinition[] {
+    return this.cardService.getStatSchemaForPlayer(this.player).stats;
+  }
+
+  // Custom templates render through CSS variables read by `.fifa-card.custom-gradient`
+  get isCustom(): boolean {
+    return this.player.backgroundTheme === 'custom-gradient' && !!this.template?.custom;
+  }
+
+  // Custom positions can bring their own badge color
+  get positionColor(): string | null {
+    return this.cardService.getPosition(this.player.position)?.color || null;
+  }
+
+  get positionName(): string {
+    return this.cardService.getPositionName(this.player.position);
+  }
+
+  get alternativePositionColor(): string | null {
+    return this.cardService.getPosition(this.player.alternativePosition || '')?.color || null;
+  }
+
+  get alternativePositionName(): string {
+    return this.cardService.getPositionName(this.player.alternativePosition || '');
+  }
+
+  get bestFitPosition(): string | undefined {
+    return this.cardService.getBestFitPosition(this.player);
+  }
+
+  get bestFitPositionColor(): string | null {
+    return this.cardService.getPosition(this.bestFitPosition || '')?.color || null;
+  }
+
+  get bestFitPositionName(): string {
+    return this.cardService.getPositionName(this.bestFitPosition || '');
+  }
+
+  get variant(): CardVariant | undefined {
+    return this.cardService.getVariant(this.player.variantId);
+  }
+
+  get tenureBadge(): TenureBadge | undefined {
+    return this.cardService.getTenureBadge(this.player.startDate);
+  }
+
+  get customStyle(): Record<string, string> | null {
+    if (!this.isCustom || !this.template) return null;
+
+    const { backgroundGradient, backgroundImage, colorScheme, fontFamily, borderStyle } = this.template;
+    return {
+      '--card-background': backgroundImage ? `url("${backgroundImage}") center / 100% 100% no-repeat` : backgroundGradient,
+      '--card-primary': colorScheme.primary,
+      '--card-secondary': colorScheme.secondary,
+      '--card-text': colorScheme.text,
+      '--card-accent': colorScheme.accent,
+      '--card-font': `'${fontFamily}', 'Roboto Condensed', sans-serif`,
+      '--card-border': borderStyle || 'none'
+    };
+  }
+
+  // Absolute position for an element of a template with its own layout
+  getSlotStyle(slot: keyof CardLayout, sized: boolean = true): Record<string, string> | null {
+    const box = this.template?.layout?.[slot];
+    if (!box) return null;
+
+    return {
+      left: `${box.x}px`,
+      top: `${box.y}px`,
+      height: `${box.height}px`,
+      ...(sized ? { width: `${box.width}px` } : {})
+    };
+  }
+
+  get branding(): string {
+    return this.cardService.getCardBranding();
+  }
+
+  // Encoded once per URL, the preview re-renders on every keystroke
+  get qrCode(): string | null {
+    const text = this.player.profileUrl || '';
+    if (!text) return null;
+    if (this.qrCache?.text !== text) {
+      let dataUrl: string | null = null;
+      try {
+        dataUrl = qrToDataUrl(encodeQr(text));
+      } catch (error) {
+        console.warn('Could not encode QR code:', error);
+      }
+      this.qrCache = { text, dataUrl };
+    }
+    return this.qrCache.dataUrl;
+  }
+
+  // Back elements are always placed by the template's back layout
+  getBackSlotStyle(slot: keyof CardBackLayout): Record<string, string> {
+    const box = (this.template?.backLayout || DEFAULT_CARD_BACK_LAYOUT)[slot];
+    if (slot === 'qr') {
+      const size = Math.min(box.width, box.height);
+      return {
+        left: `${box.x + (box.width - size) / 2}px`,
+        top: `${box.y + (box.height - size) / 2}px`,
+        width: `${size}px`,
+        height: `${size}px`
+      };
+    }
+    return {
+      left: `${box.x}px`,
+      top: `${box.y}px`,
+      width: `${box.width}px`,
+      height: `${box.height}px`
+    };
+  }
+
+  getStatsGridStyle(): Record<string, string> {
+    const columns = getStatGridColumns(this.stats.length);
+    return {
+      ...this.getSlotStyle('stats'),
+      'grid-template-columns': `repeat(${columns}, 1fr)`,
+      'grid-template-rows': `repeat(${Math.ceil(this.stats.length / columns)}, 1fr)`
+    };
+  }
+
+  getMaskClass(): string {
+    switch (this.template?.maskShape) {
+      case 'circle': return 'circle-mask';
+      case 'hexagon': return 'hexagon-mask';
+      default: return '';
+    }
+  }
+
+  getFlagEmoji(countryCode: string): string {
+    return getFlagEmoji(countryCode);
+  }
+}
@@ -0,0 +1,295 @@
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { ImportSource, ImportField, ImportMapping, ImportPreviewRow, SavedImportMapping } from '../../models/import.model';
+import { StatDefinition } from '../../models/player.model';
+import { BatchImportResult, BatchService } from '../../services/batch.service';
+import { CardService } from '../../services/card.service';
+import { StorageService } from '../../services/storage.service';
+import { CSV_DELIMITERS, CsvDelimiter } from '../../utils/csv';
+
+const DELIMITER_NAMES: Record<CsvDelimiter, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe'
+};
+
+const PREVIEW_ROWS = 5;
+
+@Component({
+    selector: 'app-import-wizard',
+    host: { class: 'block' },
+    template: `
+    <div class="bg-slate-800 rounded-xl shadow-xl p-4 sm:p-6 max-h-[90vh] overflow-y-auto">
+      <h3 class="text-lg font-semibold mb-1 text-yellow-400">Import {{ source.fileName }}</h3>
+      <div class="flex flex-wrap items-center gap-3 text-xs text-slate-400 mb-4">
+        <span>{{ source.rows.length }} rows</span>
+        @if (source.format === 'csv') {
+          <span>{{ source.encoding }}</span>
+          <label class="flex items-center gap-1">
+            Delimiter
+            <select
+              [ngModel]="source.delimiter"
+              (ngModelChange)="changeDelimiter($event)"
+              class="px-2 py-1 bg-slate-700 border border-slate-600 rounded text-xs text-white"
+              >
+              @for (delimiter of delimiters; track delimiter) {
+                <option [value]="delimiter">{{ delimiterNames[delimiter] }}</option>
+              }
+            </select>
+          </label>
+        } @else {
+          <label class="flex items-center gap-1">
+            Sheet
+            <select
+              [ngModel]="source.sheetName"
+              (ngModelChange)="changeSheet($event)"
+              class="px-2 py-1 bg-slate-700 border border-slate-600 rounded text-xs text-white"
+              >
+              @for (sheet of source.sheets; track sheet.name) {
+                <option [value]="sheet.name">{{ sheet.name }} ({{ sheet.rows.length - 1 }} rows)</option>
+              }
+            </select>
+          </label>
+        }
+      </div>
+
+      <!-- Column mapping -->
+      <div class="space-y-2 mb-4">
+        <div class="flex flex-wrap items-center justify-between gap-2">
+          <h4 class="font-medium text-sm">Columns</h4>
+          <div class="flex gap-2">
+            <select
+              [ngModel]="selectedMappingId"
+              (ngModelChange)="applySavedMapping($event)"
+              class="px-2 py-1 bg-slate-700 border border-slate-600 rounded text-xs"
+              >
+              <option value="">Suggested mapping</option>
+              @for (saved of savedMappings; track saved.id) {
+                <option [value]="saved.id">{{ saved.name }}</option>
+              }
+            </select>
+            @if (selectedMappingId) {
+              <button
+                (click)="deleteSavedMapping()"
+                class="px-2 py-1 bg-slate-700 hover:bg-red-700 rounded text-xs transition-colors"
+                >
+                Delete
+              </button>
+            }
+          </div>
+        </div>
+
+        <div class="grid sm:grid-cols-2 gap-x-4 gap-y-2">
+          @for (field of fields; track field.key) {
+            <label class="flex items-center gap-2 text-sm">
+              <span class="w-28 shrink-0 truncate" [class.text-yellow-400]="field.required && !mapping[field.key]">
+                {{ field.label }}{{ field.required ? ' *' : '' }}
+              </span>
+              <select
+                [ngModel]="mapping[field.key] || ''"
+                (ngModelChange)="setColumn(field.key, $event)"
+                class="flex-1 min-w-0 px-2 py-1 bg-slate-700 border border-slate-600 rounded text-xs"
+                >
+                <option value="">Not mapped</option>
+                @for (header of source.headers; track $index) {
+                  <option [value]="header">{{ header }}</option>
+                }
+              </select>
+            </label>
+          }
+        </div>
+
+        <div class="flex gap-2">
+          <input
+            type="text"
+            [(ngModel)]="mappingName"
+            maxlength="40"
+            class="flex-1 px-2 py-1 bg-slate-700 border border-slate-600 rounded text-xs"
+            placeholder="Save this mapping as..."
+            >
+          <button
+            (click)="saveMapping()"
+            [disabled]="!mappingName.trim()"
+            class="px-2 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded text-xs transition-colors"
+            >
+            Save Mapping
+          </button>
+        </div>
+      </div>
+
+      <!-- Preview -->
+      <div class="space-y-2">
+        <h4 class="font-medium text-sm">Preview (first {{ preview.length }} rows)</h4>
+        <div class="overflow-x-auto">
+          <table class="w-full text-xs">
+            <thead class="text-slate-400 text-left">
+              <tr>
+                <th class="p-1">#</th>
+                <th class="p-1">Name</th>
+                <th class="p-1">Pos</th>
+                <th class="p-1">Nat</th>
+                <th class="p-1">OVR</th>
+                @for (stat of stats; track stat.key) {
+                  <th class="p-1" [title]="stat.label">{{ stat.abbreviation }}</th>
+                }
+              </tr>
+            </thead>
+            <tbody>
+              @for (row of preview; track row.row) {
+                <tr class="border-t border-slate-700">
+                  <td class="p-1 text-slate-400">{{ row.row }}</td>
+                  <td class="p-1">{{ row.data?.name }}</td>
+                  <td class="p-1">{{ row.data?.position }}</td>
+                  <td class="p-1">{{ row.data?.nationality }}</td>
+                  <td class="p-1 font-bold text-yellow-400">{{ row.data?.rating }}</td>
+                  @for (stat of stats; track stat.key) {
+                    <td class="p-1">{{ row.data?.stats?.[stat.key] }}</td>
+                  }
+                </tr>
+                @if (row.errors.length > 0 || row.warnings.length > 0) {
+                  <tr>
+                    <td></td>
+                    <td [attr.colspan]="4 + stats.length" class="p-1 pt-0">
+                      @for (error of row.errors; track error) {
+                        <div class="text-red-400">{{ error }}</div>
+                      }
+                      @for (warning of row.warnings; track warning) {
+                        <div class="text-yellow-400">{{ warning }}</div>
+                      }
+                    </td>
+                  </tr>
+                }
+              }
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div class="flex flex-wrap justify-end gap-2 mt-6">
+        <button
+          (click)="closed.emit()"
+          class="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-sm"
+          >
+          Cancel
+        </button>
+        <button
+          (click)="importRows()"
+          [disabled]="missingRequired.length > 0 || source.rows.length === 0"
+          [title]="missingRequired.length > 0 ? 'Map ' + missingRequired.join(', ') : ''"
+          class="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded-lg transition-colors text-sm font-medium"
+          >
+          Import {{ source.rows.length }} Rows
+        </button>
+      </div>
+    </div>
+    `,
+    imports: [FormsModule]
+})
+export class ImportWizardComponent implements OnChanges {
+  @Input({ required: true }) source!: ImportSource;
+
+  @Output() imported = new EventEmitter<BatchImportResult>();
+  @Output() closed = new EventEmitter<void>();
+  @Output() notify = new EventEmitter<{ message: string; type: 'success' | 'error' | 'info' }>();
+
+  fields: ImportField[] = [];
+  stats: StatDefinition[] = [];
+  mapping: ImportMapping = {};
+  preview: ImportPreviewRow[] = [];
+  savedMappings: SavedImportMapping[] = [];
+  selectedMappingId = '';
+  mappingName = '';
+
+  readonly delimiters = CSV_DELIMITERS;
+  readonly delimiterNames = DELIMITER_NAMES;
+
+  constructor(
+    private batchService: BatchService,
+    private cardService: CardService,
+    private storageService: StorageService
+  ) {}
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['source']) {
+      this.fields = this.batchService.getImportFields();
+      this.stats = this.cardService.getActiveStatSchema().stats;
+      this.savedMappings = this.storageService.getImportMappings();
+      this.mapping = this.batchService.suggestMapping(this.source.headers);
+      this.selectedMappingId = '';
+      this.updatePreview();
+    }
+  }
+
+  get missingRequired(): string[] {
+    return this.fields.filter(field => field.required && !this.mapping[field.key]).map(field => field.label);
+  }
+
+  changeDelimiter(delimiter: CsvDelimiter) {
+    const { fileName, text, encoding } = this.source;
+    this.updateSource(this.batchService.parseCSVSource(fileName, text!, encoding!, delimiter));
+  }
+
+  changeSheet(sheetName: string) {
+    this.updateSource(this.batchService.selectSheet(this.source, sheetName));
+  }
+
+  setColumn(field: string, header: string) {
+    const { [field]: _previous, ...mapping } = this.mapping;
+    this.mapping = header ? { ...mapping, [field]: header } : mapping;
+    this.updatePreview();
+  }
+
+  applySavedMapping(id: string) {
+    this.selectedMappingId = id;
+    const saved = this.savedMappings.find(mapping => mapping.id === id);
+    this.mapping = saved ? this.keepKnownColumns(saved.mapping) : this.batchService.suggestMapping(this.source.headers);
+    this.mappingName = saved?.name || '';
+    this.updatePreview();
+  }
+
+  saveMapping() {
+    const name = this.mappingName.trim();
+    const existing = this.savedMappings.find(mapping => mapping.name === name);
+    const saved: SavedImportMapping = { id: existing?.id || `mapping_${Date.now().toString(36)}`, name, mapping: { ...this.mapping } };
+
+    this.storageService.saveImportMapping(saved);
+    this.savedMappings = this.storageService.getImportMappings();
+    this.selectedMappingId = saved.id;
+    this.notify.emit({ message: `Saved mapping ${name}`, type: 'success' });
+  }
+
+  deleteSavedMapping() {
+    this.storageService.deleteImportMapping(this.selectedMappingId);
+    this.savedMappings = this.storageService.getImportMappings();
+    this.selectedMappingId = '';
+    this.mappingName = '';
+  }
+
+  async importRows() {
+    try {
+      this.imported.emit(await this.batchService.importMapped(this.source, this.mapping));
+    } catch (error) {
+      this.notify.emit({ message: error instanceof Error ? error.message : 'Import failed', type: 'error' });
+    }
+  }
+
+  private updatePreview() {
+    this.preview = this.batchService.previewImport(this.source, this.mapping, PREVIEW_ROWS);
+  }
+
+  // Keep the mapped columns that still exist, or start over from the suggestion
+  private updateSource(source: ImportSource) {
+    this.source = source;
+    this.mapping = this.keepKnownColumns(this.mapping);
+    if (Object.keys(this.mapping).length === 0) {
+      this.mapping = this.batchService.suggestMapping(this.source.headers);
+    }
+    this.updatePreview();
+  }
+
+  // Saved mappings may name columns this file does not have
+  private keepKnownColumns(mapping: ImportMapping): ImportMapping {
+    return Object.fromEntries(Object.entries(mapping).filter(([, header]) => this.source.headers.includes(header)));
+  }
+}
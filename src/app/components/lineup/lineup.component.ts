@@ -0,0 +1,326 @@
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { PlayerData } from '../../models/player.model';
+import { Formation, FormationSlot, PITCH_LINE_NAMES, ProjectLineup, TeamRatings } from '../../models/lineup.model';
+import { FifaCardComponent } from '../fifa-card/fifa-card.component';
+import { CardService } from '../../services/card.service';
+import { ExportService } from '../../services/export.service';
+import { LineupService } from '../../services/lineup.service';
+
+// Preview size of the pitch; slot positions are fractions of it
+const PITCH_WIDTH = 560;
+const PITCH_HEIGHT = 706;
+const CARD_SCALE = 0.24;
+
+@Component({
+    selector: 'app-lineup',
+    host: { class: 'block' },
+    template: `
+    <div class="bg-slate-800 rounded-xl shadow-xl p-4 sm:p-6">
+      <div class="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <h3 class="text-lg font-semibold text-yellow-400">Squad Builder</h3>
+        <div class="flex flex-wrap items-center gap-2">
+          <select
+            [ngModel]="formation.id"
+            (ngModelChange)="setFormation($event)"
+            class="px-3 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-sm"
+            >
+            @for (option of formations; track option.id) {
+              <option [value]="option.id">{{ option.name }}</option>
+            }
+          </select>
+          <button
+            (click)="autoFill()"
+            [disabled]="players.length === 0"
+            class="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg transition-colors text-sm"
+            >
+            Auto-fill
+          </button>
+          <button
+            (click)="clearLineup()"
+            class="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-sm"
+            >
+            Clear
+          </button>
+          <button
+            (click)="exportPNG()"
+            [disabled]="isExporting"
+            class="px-3 py-1.5 bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded-lg transition-colors text-sm"
+            >
+            PNG
+          </button>
+          <button
+            (click)="exportPDF()"
+            [disabled]="isExporting"
+            class="px-3 py-1.5 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 rounded-lg transition-colors text-sm"
+            >
+            PDF
+          </button>
+        </div>
+      </div>
+
+      <div class="grid lg:grid-cols-3 gap-6">
+        <!-- Pitch -->
+        <div class="lg:col-span-2 overflow-x-auto">
+          <div
+            class="relative mx-auto rounded-lg border-2 border-white/60 bg-green-800 overflow-hidden"
+            [style.width.px]="pitchWidth"
+            [style.height.px]="pitchHeight"
+            >
+            <div class="absolute inset-x-0 top-1/2 border-t-2 border-white/60"></div>
+            <div class="absolute left-1/2 top-1/2 w-28 h-28 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white/60"></div>
+            <div class="absolute left-1/2 top-0 w-56 h-20 -translate-x-1/2 border-2 border-t-0 border-white/60"></div>
+            <div class="absolute left-1/2 bottom-0 w-56 h-20 -translate-x-1/2 border-2 border-b-0 border-white/60"></div>
+
+            @for (slot of formation.slots; track slot.id; let i = $index) {
+              <div
+                (click)="selectSlot(slot)"
+                class="absolute -translate-x-1/2 -translate-y-1/2 cursor-pointer rounded-lg transition-shadow"
+                [class.ring-2]="selectedSlotId === slot.id"
+                [class.ring-yellow-400]="selectedSlotId === slot.id"
+                [style.left.%]="slot.x * 100"
+                [style.top.%]="slot.y * 100"
+                [style.width.px]="slotWidth"
+                [style.height.px]="slotHeight"
+                [title]="lineup[i] ? lineup[i]!.name + ' (' + slot.label + ')' : 'Empty ' + slot.label"
+                >
+                @if (lineup[i]; as player) {
+                  <div class="origin-top-left pointer-events-none" [style.transform]="'scale(' + cardScale + ')'">
+                    <app-fifa-card [player]="player" [template]="getTemplate(player)"/>
+                  </div>
+                } @else {
+                  <div class="w-full h-full rounded-lg border-2 border-dashed border-white/60 bg-black/20 flex items-center justify-center text-sm font-bold text-white/80">
+                    {{ slot.label }}
+                  </div>
+                }
+              </div>
+            }
+          </div>
+        </div>
+
+        <!-- Ratings and squad -->
+        <div class="space-y-4">
+          <div class="grid grid-cols-5 gap-2 text-center">
+            <div class="p-2 bg-slate-700 rounded">
+              <div class="text-xl font-bold text-yellow-400">{{ ratings.overall ?? '-' }}</div>
+              <div class="text-xs text-slate-400">OVR</div>
+            </div>
+            <div class="p-2 bg-slate-700 rounded">
+              <div class="text-lg font-bold">{{ ratings.attack ?? '-' }}</div>
+              <div class="text-xs text-slate-400">ATT</div>
+            </div>
+            <div class="p-2 bg-slate-700 rounded">
+              <div class="text-lg font-bold">{{ ratings.midfield ?? '-' }}</div>
+              <div class="text-xs text-slate-400">MID</div>
+            </div>
+            <div class="p-2 bg-slate-700 rounded">
+              <div class="text-lg font-bold">{{ ratings.defence ?? '-' }}</div>
+              <div class="text-xs text-slate-400">DEF</div>
+            </div>
+            <div class="p-2 bg-slate-700 rounded">
+              <div class="text-lg font-bold">{{ ratings.goalkeeper ?? '-' }}</div>
+              <div class="text-xs text-slate-400">GK</div>
+            </div>
+          </div>
+
+          <div class="text-xs text-slate-400">
+            @if (selectedSlot; as slot) {
+              Pick a player for {{ slot.label }} ({{ getLineName(slot) }}), or click the slot again to empty it.
+            } @else {
+              {{ ratings.filled }}/{{ ratings.total }} slots filled. Click a slot, then a player.
+            }
+          </div>
+
+          @if (players.length === 0) {
+            <div class="text-sm text-slate-400">
+              Add cards to the active project to build a lineup.
+            </div>
+          }
+          <div class="max-h-96 overflow-y-auto space-y-1">
+            @for (player of players; track player.id) {
+              <div
+                (click)="assignPlayer(player)"
+                class="p-2 rounded flex items-center justify-between transition-colors"
+                [class]="isAssigned(player) ? 'bg-slate-700/50 text-slate-400' : 'bg-slate-700 hover:bg-slate-600'"
+                [class.cursor-pointer]="!!selectedSlotId"
+                >
+                <div>
+                  <span class="text-sm font-medium">{{ player.name }}</span>
+                  <span class="text-xs text-slate-400 ml-2">{{ player.position }}</span>
+                  @if (getSlotLabel(player); as label) {
+                    <span class="text-xs text-green-400 ml-2">{{ label }}</span>
+                  }
+                </div>
+                <span class="text-xs text-yellow-400 font-bold">{{ getRating(player) }}</span>
+              </div>
+            }
+          </div>
+        </div>
+      </div>
+    </div>
+    `,
+    imports: [FormsModule, FifaCardComponent]
+})
+export class LineupComponent implements OnChanges {
+  @Input({ required: true }) players: PlayerData[] = [];
+  @Input() title = 'Lineup';
+  @Input() savedLineup: ProjectLineup | null = null;
+  @Input() customBranding?: string;
+
+  @Output() lineupChange = new EventEmitter<ProjectLineup>();
+  @Output() notify = new EventEmitter<{ message: string; type: 'success' | 'error' | 'info' }>();
+
+  formations: Formation[];
+  formation: Formation;
+  assignments: Record<string, string> = {};
+  lineup: (PlayerData | null)[] = [];
+  ratings!: TeamRatings;
+  selectedSlotId: string | null = null;
+  isExporting = false;
+
+  readonly pitchWidth = PITCH_WIDTH;
+  readonly pitchHeight = PITCH_HEIGHT;
+  readonly cardScale = CARD_SCALE;
+  readonly slotWidth = 322 * CARD_SCALE;
+  readonly slotHeight = 450 * CARD_SCALE;
+
+  constructor(
+    private lineupService: LineupService,
+    private cardService: CardService,
+    private exportService: ExportService
+  ) {
+    this.formations = this.lineupService.getFormations();
+    this.formation = this.formations[0];
+    this.refresh();
+  }
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['savedLineup'] && this.savedLineup) {
+      this.formation = this.lineupService.getFormation(this.savedLineup.formationId);
+      this.assignments = { ...this.savedLineup.assignments };
+    }
+    this.refresh();
+  }
+
+  get selectedSlot(): FormationSlot | undefined {
+    return this.formation.slots.find(slot => slot.id === this.selectedSlotId);
+  }
+
+  setFormation(id: string) {
+    // Keep players in slots that exist in both formations
+    const formation = this.lineupService.getFormation(id);
+    const slotIds = new Set(formation.slots.map(slot => slot.id));
+    this.formation = formation;
+    this.assignments = Object.fromEntries(
+      Object.entries(this.assignments).filter(([slotId]) => slotIds.has(slotId))
+    );
+    this.selectedSlotId = null;
+    this.commit();
+  }
+
+  autoFill() {
+    this.assignments = this.lineupService.autoAssign(this.formation, this.players);
+    this.selectedSlotId = null;
+    this.commit();
+  }
+
+  clearLineup() {
+    this.assignments = {};
+    this.selectedSlotId = null;
+    this.commit();
+  }
+
+  selectSlot(slot: FormationSlot) {
+    if (this.selectedSlotId === slot.id && this.assignments[slot.id]) {
+      delete this.assignments[slot.id];
+      this.commit();
+    }
+    this.selectedSlotId = this.selectedSlotId === slot.id ? null : slot.id;
+  }
+
+  assignPlayer(player: PlayerData) {
+    if (!this.selectedSlotId || !player.id) return;
+
+    // A player holds one slot at a time
+    Object.keys(this.assignments)
+      .filter(slotId => this.assignments[slotId] === player.id)
+      .forEach(slotId => delete this.assignments[slotId]);
+
+    this.assignments[this.selectedSlotId] = player.id;
+    this.selectedSlotId = null;
+    this.commit();
+  }
+
+  isAssigned(player: PlayerData): boolean {
+    return Object.values(this.assignments).includes(player.id!);
+  }
+
+  getSlotLabel(player: PlayerData): string | undefined {
+    return this.formation.slots.find(slot => this.assignments[slot.id] === player.id)?.label;
+  }
+
+  getLineName(slot: FormationSlot): string {
+    return PITCH_LINE_NAMES[slot.line];
+  }
+
+  getRating(player: PlayerData): number {
+    return this.lineupService.getPlayerRating(player);
+  }
+
+  getTemplate(player: PlayerData) {
+    return this.cardService.getTemplateForPlayer(player);
+  }
+
+  async exportPNG() {
+    this.isExporting = true;
+
+    try {
+      const dataUrl = await this.exportService.exportLineupAsPNG(this.buildSheet());
+      const blob = await (await fetch(dataUrl)).blob();
+      this.exportService.downloadFile(blob, `${this.getFilename()}_Lineup.png`);
+      this.notify.emit({ message: 'Lineup PNG exported!', type: 'success' });
+    } catch (error) {
+      console.error('Lineup PNG export failed:', error);
+      this.notify.emit({ message: 'Lineup export failed.', type: 'error' });
+    } finally {
+      this.isExporting = false;
+    }
+  }
+
+  async exportPDF() {
+    this.isExporting = true;
+
+    try {
+      const pdfBytes = await this.exportService.exportLineupAsPDF(this.buildSheet(), {
+        includeWatermark: !!this.customBranding,
+        customBranding: this.customBranding
+      });
+      const blob = new Blob([pdfBytes.buffer as ArrayBuffer], { type: 'application/pdf' });
+      this.exportService.downloadFile(blob, `${this.getFilename()}_Lineup.pdf`);
+      this.notify.emit({ message: 'Lineup PDF exported!', type: 'success' });
+    } catch (error) {
+      console.error('Lineup PDF export failed:', error);
+      this.notify.emit({ message: 'Lineup export failed.', type: 'error' });
+    } finally {
+      this.isExporting = false;
+    }
+  }
+
+  private buildSheet() {
+    return this.lineupService.buildLineupSheet(this.title, this.formation, this.lineup);
+  }
+
+  private commit() {
+    this.refresh();
+    this.lineupChange.emit({ formationId: this.formation.id, assignments: { ...this.assignments } });
+  }
+
+  private refresh() {
+    this.lineup = this.lineupService.resolveLineup(this.formation, this.assignments, this.players);
+    this.ratings = this.lineupService.getTeamRatings(this.formation, this.lineup);
+  }
+
+  private getFilename(): string {
+    return this.title.replace(/[^a-z0-9]/gi, '_').replace(/_+/g, '_');
+  }
+}
@@ -0,0 +1,104 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { LogoEntry } from '../../models/player.model';
+import { ImageService } from '../../services/image.service';
+
+@Component({
+    selector: 'app-logo-library',
+    host: { class: 'block' },
+    template: `
+    <div class="space-y-2">
+      <h4 class="font-medium text-sm">Logos</h4>
+
+      @for (logo of logos; track logo.id) {
+        <div class="p-2 bg-slate-700 rounded flex items-center gap-2 group">
+          <img [src]="logo.dataUrl" [alt]="logo.name" class="w-8 h-8 object-contain shrink-0">
+          <span class="text-sm flex-1 truncate">{{ logo.name }}</span>
+          <button
+            (click)="defaultLogoIdChange.emit(logo.id === defaultLogoId ? undefined : logo.id)"
+            class="px-2 py-0.5 rounded text-xs transition-colors"
+            [class]="logo.id === defaultLogoId ? 'bg-yellow-500 text-black' : 'bg-slate-600 hover:bg-slate-500'"
+            title="Give this logo to new and imported cards without one"
+            >
+            {{ logo.id === defaultLogoId ? 'Default' : 'Make default' }}
+          </button>
+          <button
+            (click)="removeLogo(logo)"
+            class="text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all text-lg px-1"
+            title="Remove logo"
+            >
+            &times;
+          </button>
+        </div>
+      }
+
+      <div class="flex gap-2">
+        <input
+          type="text"
+          [(ngModel)]="name"
+          maxlength="40"
+          class="flex-1 px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm"
+          placeholder="Team or department"
+          >
+        <button
+          (click)="logoInput.click()"
+          [disabled]="!name.trim() || isProcessing"
+          class="px-3 py-1.5 bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded text-sm transition-colors"
+          >
+          Upload
+        </button>
+        <input
+          #logoInput
+          type="file"
+          accept="image/*,.svg"
+          (change)="onLogoUpload($event)"
+          class="hidden"
+          >
+      </div>
+      <div class="text-xs text-slate-400">CSV logo or team columns with this name pick the logo.</div>
+    </div>
+    `,
+    imports: [FormsModule]
+})
+export class LogoLibraryComponent {
+  @Input() logos: LogoEntry[] = [];
+  @Input() defaultLogoId?: string;
+
+  @Output() logosChange = new EventEmitter<LogoEntry[]>();
+  @Output() defaultLogoIdChange = new EventEmitter<string | undefined>();
+  @Output() notify = new EventEmitter<{ message: string; type: 'success' | 'error' | 'info' }>();
+
+  name = '';
+  isProcessing = false;
+
+  constructor(private imageService: ImageService) {}
+
+  async onLogoUpload(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    const name = this.name.trim();
+    if (this.logos.some(logo => logo.name.toLowerCase() === name.toLowerCase())) {
+      this.notify.emit({ message: `A logo named ${name} already exists`, type: 'error' });
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      const dataUrl = await this.imageService.processLogo(file);
+      this.logosChange.emit([...this.logos, { id: `logo_${Date.now().toString(36)}`, name, dataUrl }]);
+      this.name = '';
+    } catch (error) {
+      console.error('Error processing logo:', error);
+      this.notify.emit({ message: error instanceof Error ? error.message : 'Could not read this logo', type: 'error' });
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  removeLogo(logo: LogoEntry) {
+    this.logosChange.emit(this.logos.filter(other => other.id !== logo.id));
+  }
+}
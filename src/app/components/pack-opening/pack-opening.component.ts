@@ -0,0 +1,265 @@
+import { Component, EventEmitter, Input, OnDestroy, Output } from '@angular/core';
+import { CardTemplate, PlayerData } from '../../models/player.model';
+import { CardService } from '../../services/card.service';
+import { getFlagEmoji } from '../../utils/flags';
+import { FifaCardComponent } from '../fifa-card/fifa-card.component';
+
+type PackTier = 'bronze' | 'silver' | 'gold' | 'totw';
+type PackStage = 'flag' | 'position' | 'card';
+type PackOrder = 'shuffled' | 'ascending';
+
+// How long the flag and the position stay up before the next reveal step; better cards
+// keep the room waiting longer
+const STAGE_DURATIONS: Record<PackTier, number> = {
+  bronze: 700,
+  silver: 1000,
+  gold: 1300,
+  totw: 1700
+};
+
+const TIER_NAMES: Record<PackTier, string> = {
+  bronze: 'Bronze',
+  silver: 'Silver',
+  gold: 'Gold',
+  totw: 'Team of the Week'
+};
+
+@Component({
+    selector: 'app-pack-opening',
+    host: { class: 'block', '(document:keydown)': 'onKeydown($event)' },
+    template: `
+    <div class="fixed inset-0 z-50 bg-black text-white flex flex-col items-center justify-center overflow-hidden select-none">
+      @if (!started) {
+        <div class="text-center space-y-6 p-6">
+          <h2 class="text-3xl font-bold text-yellow-400">Pack Opening</h2>
+          <div class="text-slate-300">{{ title }}: {{ cards.length }} {{ cards.length === 1 ? 'card' : 'cards' }}</div>
+          <div class="flex justify-center gap-2">
+            <button
+              (click)="order = 'shuffled'"
+              class="px-4 py-2 rounded-lg border-2 transition-colors text-sm"
+              [class]="order === 'shuffled' ? 'border-yellow-400 bg-yellow-400/10' : 'border-slate-600 hover:border-slate-500'"
+              >
+              Shuffled
+            </button>
+            <button
+              (click)="order = 'ascending'"
+              class="px-4 py-2 rounded-lg border-2 transition-colors text-sm"
+              [class]="order === 'ascending' ? 'border-yellow-400 bg-yellow-400/10' : 'border-slate-600 hover:border-slate-500'"
+              >
+              Lowest rating first
+            </button>
+          </div>
+          <button
+            (click)="start()"
+            [disabled]="cards.length === 0"
+            class="px-8 py-3 bg-yellow-500 hover:bg-yellow-400 disabled:opacity-50 text-slate-900 rounded-lg font-bold transition-colors"
+            >
+            Open Pack
+          </button>
+          <div class="text-xs text-slate-500">Space or → to reveal and continue, ← to go back, R to replay, Esc to close</div>
+        </div>
+      } @else if (current) {
+        <div class="pack-stage" [class]="'pack-tier-' + tier" [class.pack-revealed]="stage === 'card'">
+          <div class="pack-rays"></div>
+          @switch (stage) {
+            @case ('flag') {
+              <div class="pack-step pack-flag">{{ flag || '🏳️' }}</div>
+            }
+            @case ('position') {
+              <div class="pack-step text-center">
+                <div class="pack-flag-small">{{ flag }}</div>
+                <div class="pack-position" [style.color]="positionColor">{{ current.position }}</div>
+                <div class="text-slate-300 text-lg">{{ positionName }}</div>
+              </div>
+            }
+            @case ('card') {
+              <div class="pack-flash"></div>
+              <div class="pack-card">
+                <app-fifa-card [player]="current" [template]="template"/>
+              </div>
+            }
+          }
+        </div>
+
+        <div class="absolute bottom-4 inset-x-0 flex items-center justify-center gap-4 text-sm text-slate-400">
+          <button (click)="previous()" [disabled]="index === 0" class="px-3 py-1 rounded hover:bg-white/10 disabled:opacity-30">←</button>
+          <span>{{ index + 1 }} / {{ queue.length }}</span>
+          @if (stage === 'card') {
+            <span class="pack-tier-label">{{ tierName }}</span>
+          }
+          <button (click)="next()" class="px-3 py-1 rounded hover:bg-white/10">→</button>
+        </div>
+      } @else {
+        <div class="text-center space-y-6 p-6">
+          <h2 class="text-3xl font-bold text-yellow-400">All {{ queue.length }} cards revealed</h2>
+          <div class="flex justify-center gap-2">
+            <button (click)="start()" class="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-sm">Open Again</button>
+            <button (click)="close()" class="px-4 py-2 bg-yellow-500 hover:bg-yellow-400 text-slate-900 rounded-lg font-medium transition-colors text-sm">Close</button>
+          </div>
+        </div>
+      }
+
+      <button
+        (click)="close()"
+        class="absolute top-4 right-4 text-slate-400 hover:text-white text-2xl px-2"
+        title="Close (Esc)"
+        >
+        &times;
+      </button>
+    </div>
+    `,
+    imports: [FifaCardComponent]
+})
+export class PackOpeningComponent implements OnDestroy {
+  @Input() cards: PlayerData[] = [];
+  @Input() title = '';
+
+  @Output() closed = new EventEmitter<void>();
+
+  order: PackOrder = 'shuffled';
+  started = false;
+  queue: PlayerData[] = [];
+  index = 0;
+  stage: PackStage = 'flag';
+
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(private cardService: CardService) {}
+
+  get current(): PlayerData | undefined {
+    return this.queue[this.index];
+  }
+
+  get template(): CardTemplate {
+    return this.cardService.getTemplateForPlayer(this.current!);
+  }
+
+  // FIFA's color bands: bronze below 65, silver up to 74, gold from 75; a card on the
+  // Team of the Week template gets the full show whatever its rating
+  get tier(): PackTier {
+    const card = this.current!;
+    if (this.cardService.getTemplateForPlayer(card).id === 'totw') return 'totw';
+    if (card.rating >= 75) return 'gold';
+    return card.rating >= 65 ? 'silver' : 'bronze';
+  }
+
+  get tierName(): string {
+    return TIER_NAMES[this.tier];
+  }
+
+  get flag(): string {
+    return getFlagEmoji(this.current?.nationality || '');
+  }
+
+  get positionColor(): string | null {
+    return this.cardService.getPosition(this.current?.position || '')?.color || null;
+  }
+
+  get positionName(): string {
+    return this.cardService.getPositionName(this.current?.position || '');
+  }
+
+  start() {
+    this.queue = this.order === 'ascending'
+      ? [...this.cards].sort((a, b) => a.rating - b.rating)
+      : shuffle(this.cards);
+    this.started = true;
+    this.index = 0;
+    document.documentElement.requestFullscreen?.().catch(() => {
+      // Presenting in the overlay still works without the browser's full screen
+    });
+    this.reveal();
+  }
+
+  // Skips the rest of a reveal in progress, otherwise moves on to the next card
+  next() {
+    if (!this.started || !this.current) return;
+    if (this.stage !== 'card') {
+      this.showCard();
+      return;
+    }
+    this.index++;
+    this.reveal();
+  }
+
+  // Earlier cards come back fully revealed
+  previous() {
+    if (!this.started || this.index === 0) return;
+    this.index--;
+    this.showCard();
+  }
+
+  replay() {
+    if (this.current) {
+      this.reveal();
+    }
+  }
+
+  close() {
+    clearTimeout(this.timer);
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    }
+    this.closed.emit();
+  }
+
+  onKeydown(event: KeyboardEvent) {
+    switch (event.key) {
+      case ' ':
+      case 'Enter':
+        if (this.started) {
+          this.next();
+        } else {
+          this.start();
+        }
+        break;
+      case 'ArrowRight':
+        this.next();
+        break;
+      case 'ArrowLeft':
+        this.previous();
+        break;
+      case 'r':
+      case 'R':
+        this.replay();
+        break;
+      case 'Escape':
+        this.close();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  ngOnDestroy() {
+    clearTimeout(this.timer);
+  }
+
+  // Flag, then position, then the card
+  private reveal() {
+    clearTimeout(this.timer);
+    if (!this.current) return;
+
+    const duration = STAGE_DURATIONS[this.tier];
+    this.stage = 'flag';
+    this.timer = setTimeout(() => {
+      this.stage = 'position';
+      this.timer = setTimeout(() => this.stage = 'card', duration);
+    }, duration);
+  }
+
+  private showCard() {
+    clearTimeout(this.timer);
+    this.stage = 'card';
+  }
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
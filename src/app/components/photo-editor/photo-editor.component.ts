@@ -0,0 +1,230 @@
+import { Component, ElementRef, EventEmitter, Input, OnChanges, Output, SimpleChanges, ViewChild } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { CardTemplate, DEFAULT_PHOTO_CROP, LayoutSlot, PhotoCrop } from '../../models/player.model';
+import {
+  MAX_PHOTO_ZOOM,
+  canDetectFaces,
+  detectFace,
+  exportCroppedPhoto,
+  frameFace,
+  loadImage,
+  renderCroppedPhoto
+} from '../../utils/photo-editor';
+
+// Same clip paths as the card's photo masks in styles.scss
+const MASK_CLIP_PATHS: Record<CardTemplate['maskShape'], string> = {
+  shield: 'polygon(50% 0%, 90% 20%, 100% 60%, 90% 90%, 50% 100%, 10% 90%, 0% 60%, 10% 20%)',
+  circle: 'circle(50%)',
+  hexagon: 'polygon(50% 0%, 100% 25%, 100% 75%, 50% 100%, 0% 75%, 0% 25%)'
+};
+
+// Photos are stored at twice the slot size so they stay sharp in 2x exports
+const OUTPUT_SCALE = 2;
+const PREVIEW_HEIGHT = 300;
+
+@Component({
+    selector: 'app-photo-editor',
+    host: { class: 'block' },
+    template: `
+    <div class="bg-slate-800 rounded-xl shadow-xl p-4 sm:p-6 max-h-[90vh] overflow-y-auto">
+      <h3 class="text-lg font-semibold mb-4 text-yellow-400">Edit Photo</h3>
+
+      <div class="flex flex-col sm:flex-row gap-6">
+        <div
+          class="relative shrink-0 mx-auto cursor-move touch-none select-none"
+          style="background: repeating-conic-gradient(#334155 0% 25%, #1e293b 0% 50%) 50% / 16px 16px"
+          [style.width.px]="previewWidth"
+          [style.height.px]="previewHeight"
+          (pointerdown)="startDrag($event)"
+          (pointermove)="drag($event)"
+          (pointerup)="endDrag($event)"
+          (pointercancel)="endDrag($event)"
+          (wheel)="onWheel($event)"
+          >
+          <canvas #outside class="absolute inset-0 w-full h-full opacity-30"></canvas>
+          <canvas #inside class="absolute inset-0 w-full h-full" [style.clip-path]="clipPath"></canvas>
+        </div>
+
+        <div class="flex-1 space-y-3 text-sm">
+          <label class="block">
+            <span class="flex justify-between"><span>Zoom</span><span class="text-slate-400">{{ crop.zoom.toFixed(2) }}x</span></span>
+            <input type="range" min="1" [max]="maxZoom" step="0.01" [ngModel]="crop.zoom" (ngModelChange)="update({ zoom: $event })" class="w-full">
+          </label>
+          <label class="block">
+            <span class="flex justify-between"><span>Rotation</span><span class="text-slate-400">{{ crop.rotation }}&deg;</span></span>
+            <input type="range" min="-45" max="45" step="1" [ngModel]="crop.rotation" (ngModelChange)="update({ rotation: $event })" class="w-full">
+          </label>
+          <label class="block">
+            <span class="flex justify-between"><span>Brightness</span><span class="text-slate-400">{{ crop.brightness }}%</span></span>
+            <input type="range" min="50" max="150" step="1" [ngModel]="crop.brightness" (ngModelChange)="update({ brightness: $event })" class="w-full">
+          </label>
+          <label class="block">
+            <span class="flex justify-between"><span>Contrast</span><span class="text-slate-400">{{ crop.contrast }}%</span></span>
+            <input type="range" min="50" max="150" step="1" [ngModel]="crop.contrast" (ngModelChange)="update({ contrast: $event })" class="w-full">
+          </label>
+
+          <div class="p-2 bg-slate-700 rounded space-y-2">
+            <label class="flex items-center gap-2">
+              <input type="checkbox" [ngModel]="crop.removeBackground" (ngModelChange)="update({ removeBackground: $event })">
+              Remove background
+            </label>
+            @if (crop.removeBackground) {
+              <label class="block">
+                <span class="flex justify-between text-xs"><span>Tolerance</span><span class="text-slate-400">{{ crop.backgroundTolerance }}</span></span>
+                <input type="range" min="5" max="80" step="1" [ngModel]="crop.backgroundTolerance" (ngModelChange)="update({ backgroundTolerance: $event })" class="w-full">
+              </label>
+              <div class="text-xs text-slate-400">Works best on plain backdrops. Runs in the browser; the photo is not uploaded.</div>
+            }
+          </div>
+
+          <div class="flex flex-wrap gap-2">
+            @if (faceDetection) {
+              <button
+                (click)="frameFace()"
+                class="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-xs transition-colors"
+                >
+                Frame Face
+              </button>
+            }
+            <button
+              (click)="reset()"
+              class="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-xs transition-colors"
+              >
+              Reset
+            </button>
+          </div>
+          <div class="text-xs text-slate-400">Drag to move, scroll to zoom.</div>
+        </div>
+      </div>
+
+      <div class="flex flex-wrap justify-end gap-2 mt-6">
+        <button
+          (click)="closed.emit()"
+          class="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-sm"
+          >
+          Cancel
+        </button>
+        <button
+          (click)="save()"
+          [disabled]="!image"
+          class="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded-lg transition-colors text-sm font-medium"
+          >
+          Apply
+        </button>
+      </div>
+    </div>
+    `,
+    imports: [FormsModule]
+})
+export class PhotoEditorComponent implements OnChanges {
+  @Input({ required: true }) source!: string; // uncropped photo
+  @Input() crop: PhotoCrop = DEFAULT_PHOTO_CROP;
+  @Input({ required: true }) slot!: LayoutSlot;
+  @Input() maskShape: CardTemplate['maskShape'] = 'shield';
+
+  @Output() saved = new EventEmitter<{ photo: string; crop: PhotoCrop }>();
+  @Output() closed = new EventEmitter<void>();
+  @Output() notify = new EventEmitter<{ message: string; type: 'success' | 'error' | 'info' }>();
+
+  @ViewChild('inside', { static: true }) insideCanvas!: ElementRef<HTMLCanvasElement>;
+  @ViewChild('outside', { static: true }) outsideCanvas!: ElementRef<HTMLCanvasElement>;
+
+  image: HTMLImageElement | null = null;
+  readonly maxZoom = MAX_PHOTO_ZOOM;
+  readonly faceDetection = canDetectFaces();
+
+  private dragStart: { x: number; y: number; offsetX: number; offsetY: number } | null = null;
+
+  get previewHeight(): number {
+    return PREVIEW_HEIGHT;
+  }
+
+  get previewWidth(): number {
+    return Math.round(PREVIEW_HEIGHT * this.slot.width / this.slot.height);
+  }
+
+  get clipPath(): string {
+    return MASK_CLIP_PATHS[this.maskShape] || MASK_CLIP_PATHS.shield;
+  }
+
+  async ngOnChanges(changes: SimpleChanges) {
+    if (changes['crop']) {
+      this.crop = { ...DEFAULT_PHOTO_CROP, ...this.crop };
+    }
+    if (changes['source']) {
+      try {
+        this.image = await loadImage(this.source);
+      } catch {
+        this.image = null;
+        this.notify.emit({ message: 'Could not load the photo for editing.', type: 'error' });
+      }
+    }
+    this.redraw();
+  }
+
+  update(changes: Partial<PhotoCrop>) {
+    this.crop = { ...this.crop, ...changes };
+    this.redraw();
+  }
+
+  reset() {
+    this.update({ ...DEFAULT_PHOTO_CROP });
+  }
+
+  async frameFace() {
+    if (!this.image) return;
+
+    try {
+      const face = await detectFace(this.image);
+      if (!face) {
+        this.notify.emit({ message: 'No face found in this photo.', type: 'info' });
+        return;
+      }
+      this.update(frameFace(this.image, face, this.slot.width, this.slot.height, this.crop));
+    } catch (error) {
+      console.warn('Face detection failed:', error);
+      this.notify.emit({ message: 'Face detection is not available.', type: 'error' });
+    }
+  }
+
+  startDrag(event: PointerEvent) {
+    (event.currentTarget as HTMLElement).setPointerCapture(event.pointerId);
+    this.dragStart = { x: event.clientX, y: event.clientY, offsetX: this.crop.offsetX, offsetY: this.crop.offsetY };
+  }
+
+  drag(event: PointerEvent) {
+    if (!this.dragStart) return;
+    this.update({
+      offsetX: this.dragStart.offsetX + (event.clientX - this.dragStart.x) / this.previewWidth,
+      offsetY: this.dragStart.offsetY + (event.clientY - this.dragStart.y) / this.previewHeight
+    });
+  }
+
+  endDrag(event: PointerEvent) {
+    (event.currentTarget as HTMLElement).releasePointerCapture(event.pointerId);
+    this.dragStart = null;
+  }
+
+  onWheel(event: WheelEvent) {
+    event.preventDefault();
+    const zoom = this.crop.zoom * (event.deltaY < 0 ? 1.05 : 1 / 1.05);
+    this.update({ zoom: Math.min(MAX_PHOTO_ZOOM, Math.max(1, zoom)) });
+  }
+
+  save() {
+    if (!this.image) return;
+    const canvas = renderCroppedPhoto(this.image, this.crop, this.slot.width * OUTPUT_SCALE, this.slot.height * OUTPUT_SCALE);
+    this.saved.emit({ photo: exportCroppedPhoto(canvas, this.crop), crop: this.crop });
+  }
+
+  private redraw() {
+    if (!this.image) return;
+
+    const rendered = renderCroppedPhoto(this.image, this.crop, this.slot.width * OUTPUT_SCALE, this.slot.height * OUTPUT_SCALE);
+    [this.insideCanvas.nativeElement, this.outsideCanvas.nativeElement].forEach(canvas => {
+      canvas.width = rendered.width;
+      canvas.height = rendered.height;
+      canvas.getContext('2d')?.drawImage(rendered, 0, 0);
+    });
+  }
+}
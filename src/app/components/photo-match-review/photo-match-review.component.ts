@@ -0,0 +1,154 @@
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { DecimalPipe } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { PhotoMatch, PhotoMatchStatus } from '../../models/import.model';
+
+const STATUS_LABELS: Record<PhotoMatchStatus, string> = {
+  matched: 'Matched',
+  ambiguous: 'Needs a choice',
+  unmatched: 'No photo found'
+};
+
+const REASON_LABELS: Record<NonNullable<PhotoMatch['reason']>, string> = {
+  column: 'photo column',
+  id: 'card id',
+  name: 'name'
+};
+
+@Component({
+    selector: 'app-photo-match-review',
+    host: { class: 'block' },
+    template: `
+    <div class="bg-slate-800 rounded-xl shadow-xl p-4 sm:p-6 max-h-[90vh] overflow-y-auto">
+      <h3 class="text-lg font-semibold mb-1 text-yellow-400">Match Photos</h3>
+      <div class="flex flex-wrap gap-3 text-xs text-slate-400 mb-4">
+        <span>{{ photoPaths.length }} photos</span>
+        @for (status of statuses; track status) {
+          <span>{{ statusLabels[status] }}: {{ countByStatus(status) }}</span>
+        }
+      </div>
+
+      @for (status of statuses; track status) {
+        @if (countByStatus(status) > 0) {
+          <div class="space-y-2 mb-4">
+            <h4 class="font-medium text-sm" [class.text-yellow-400]="status !== 'matched'">{{ statusLabels[status] }}</h4>
+            @for (match of matches; track match.cardId) {
+              @if (match.status === status) {
+                <div class="p-2 bg-slate-700 rounded flex items-center gap-3">
+                  @if (assignments[match.cardId]; as path) {
+                    <img [src]="photos.get(path)" [alt]="match.cardName" class="w-10 h-10 rounded object-cover shrink-0">
+                  } @else {
+                    <div class="w-10 h-10 rounded bg-slate-600 shrink-0"></div>
+                  }
+                  <div class="w-40 shrink-0">
+                    <div class="text-sm font-medium truncate">{{ match.cardName }}</div>
+                    @if (match.reason && assignments[match.cardId] === match.photo) {
+                      <div class="text-xs text-slate-400">by {{ reasonLabels[match.reason] }}</div>
+                    } @else if (match.photoHint && match.reason !== 'column') {
+                      <div class="text-xs text-yellow-400 truncate" [title]="match.photoHint">{{ match.photoHint }} not found</div>
+                    }
+                  </div>
+                  <select
+                    [ngModel]="assignments[match.cardId] || ''"
+                    (ngModelChange)="assign(match.cardId, $event)"
+                    class="flex-1 min-w-0 px-2 py-1 bg-slate-600 border border-slate-500 rounded text-xs"
+                    >
+                    <option value="">No photo</option>
+                    @if (match.candidates.length > 0) {
+                      <optgroup label="Suggestions">
+                        @for (candidate of match.candidates; track candidate.photo) {
+                          <option [value]="candidate.photo">{{ candidate.photo }} ({{ candidate.score * 100 | number:'1.0-0' }}%)</option>
+                        }
+                      </optgroup>
+                    }
+                    <optgroup label="All photos">
+                      @for (path of photoPaths; track path) {
+                        <option [value]="path">{{ path }}{{ usage(path) > 0 && assignments[match.cardId] !== path ? ' (used)' : '' }}</option>
+                      }
+                    </optgroup>
+                  </select>
+                </div>
+              }
+            }
+          </div>
+        }
+      }
+
+      @if (unusedPhotos.length > 0) {
+        <div class="space-y-2">
+          <h4 class="font-medium text-sm">Unused Photos ({{ unusedPhotos.length }})</h4>
+          <div class="grid grid-cols-4 sm:grid-cols-6 gap-2">
+            @for (path of unusedPhotos; track path) {
+              <div class="text-center" [title]="path">
+                <img [src]="photos.get(path)" [alt]="path" class="w-full aspect-square rounded object-cover">
+                <div class="text-[10px] text-slate-400 truncate">{{ path }}</div>
+              </div>
+            }
+          </div>
+        </div>
+      }
+
+      <div class="flex flex-wrap justify-end gap-2 mt-6">
+        <button
+          (click)="closed.emit()"
+          class="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-sm"
+          >
+          Cancel
+        </button>
+        <button
+          (click)="applied.emit(assignments)"
+          [disabled]="assignedCount === 0"
+          class="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded-lg transition-colors text-sm font-medium"
+          >
+          Apply {{ assignedCount }} Photos
+        </button>
+      </div>
+    </div>
+    `,
+    imports: [FormsModule, DecimalPipe]
+})
+export class PhotoMatchReviewComponent implements OnChanges {
+  @Input({ required: true }) matches: PhotoMatch[] = [];
+  @Input({ required: true }) photos: Map<string, string> = new Map();
+
+  // card id -> photo path
+  @Output() applied = new EventEmitter<Record<string, string>>();
+  @Output() closed = new EventEmitter<void>();
+
+  assignments: Record<string, string> = {};
+  photoPaths: string[] = [];
+
+  readonly statuses: PhotoMatchStatus[] = ['ambiguous', 'unmatched', 'matched'];
+  readonly statusLabels = STATUS_LABELS;
+  readonly reasonLabels = REASON_LABELS;
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['matches'] || changes['photos']) {
+      this.photoPaths = [...this.photos.keys()].sort();
+      this.assignments = Object.fromEntries(
+        this.matches.filter(match => match.photo).map(match => [match.cardId, match.photo!])
+      );
+    }
+  }
+
+  get assignedCount(): number {
+    return Object.keys(this.assignments).length;
+  }
+
+  get unusedPhotos(): string[] {
+    return this.photoPaths.filter(path => this.usage(path) === 0);
+  }
+
+  countByStatus(status: PhotoMatchStatus): number {
+    return this.matches.filter(match => match.status === status).length;
+  }
+
+  usage(path: string): number {
+    return Object.values(this.assignments).filter(assigned => assigned === path).length;
+  }
+
+  assign(cardId: string, path: string) {
+    const { [cardId]: _previous, ...assignments } = this.assignments;
+    this.assignments = path ? { ...assignments, [cardId]: path } : assignments;
+  }
+}
@@ -0,0 +1,135 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { CARD_SIZES, DEFAULT_PRINT_PROFILE, PAPER_SIZES, PrintProfile } from '../../models/print.model';
+import { SheetLayout, layoutSheet } from '../../utils/print-sheet';
+
+@Component({
+    selector: 'app-print-settings',
+    host: { class: 'block' },
+    template: `
+    <div class="bg-slate-800 rounded-xl shadow-xl p-4 sm:p-6 max-h-[90vh] overflow-y-auto">
+      <h3 class="text-lg font-semibold mb-1 text-yellow-400">Print PDF</h3>
+      <div class="text-sm text-slate-400 mb-4">{{ cardCount }} {{ cardCount === 1 ? 'card' : 'cards' }}</div>
+
+      <div class="grid grid-cols-2 gap-3 text-sm">
+        <label class="block col-span-2">
+          <span class="block mb-1">Card size</span>
+          <select [ngModel]="profile.cardSizeId" (ngModelChange)="update({ cardSizeId: $event })" class="w-full px-2 py-1.5 bg-slate-700 border border-slate-600 rounded">
+            @for (size of cardSizes; track size.id) {
+              <option [value]="size.id">{{ size.name }}</option>
+            }
+          </select>
+        </label>
+        <label class="block">
+          <span class="block mb-1">Paper</span>
+          <select [ngModel]="profile.paperSizeId" (ngModelChange)="update({ paperSizeId: $event })" class="w-full px-2 py-1.5 bg-slate-700 border border-slate-600 rounded">
+            @for (paper of paperSizes; track paper.id) {
+              <option [value]="paper.id">{{ paper.name }}</option>
+            }
+          </select>
+        </label>
+        <label class="block">
+          <span class="block mb-1">Resolution</span>
+          <select [ngModel]="profile.dpi" (ngModelChange)="update({ dpi: $event })" class="w-full px-2 py-1.5 bg-slate-700 border border-slate-600 rounded">
+            <option [ngValue]="300">300 DPI</option>
+            <option [ngValue]="600">600 DPI</option>
+          </select>
+        </label>
+        <label class="block">
+          <span class="block mb-1">Bleed (mm)</span>
+          <input type="number" min="0" max="5" step="0.5" [ngModel]="profile.bleedMm" (ngModelChange)="update({ bleedMm: clamp($event, 5) })" class="w-full px-2 py-1.5 bg-slate-700 border border-slate-600 rounded">
+        </label>
+        <label class="block">
+          <span class="block mb-1">Gap between cards (mm)</span>
+          <input type="number" min="0" max="10" step="0.5" [ngModel]="profile.gutterMm" (ngModelChange)="update({ gutterMm: clamp($event, 10) })" class="w-full px-2 py-1.5 bg-slate-700 border border-slate-600 rounded">
+        </label>
+        <label class="flex items-center gap-2 col-span-2">
+          <input type="checkbox" [ngModel]="profile.cropMarks" (ngModelChange)="update({ cropMarks: $event })">
+          Crop marks
+        </label>
+        <label class="flex items-center gap-2 col-span-2">
+          <input type="checkbox" [ngModel]="profile.cmykSafe" (ngModelChange)="update({ cmykSafe: $event })">
+          CMYK-safe colors
+          <span class="text-xs text-slate-400">(tones down screen colors a press cannot print)</span>
+        </label>
+        <label class="flex items-center gap-2 col-span-2">
+          <input type="checkbox" [ngModel]="profile.duplex" (ngModelChange)="update({ duplex: $event })">
+          Double-sided with card backs
+        </label>
+      </div>
+
+      <div class="mt-4 p-3 bg-slate-700 rounded text-sm">
+        @if (layout) {
+          <div>
+            {{ layout.columns }} × {{ layout.rows }} cards per {{ layout.paper.name }} sheet ({{ layout.landscape ? 'landscape' : 'portrait' }}),
+            {{ pageCount }} {{ pageCount === 1 ? 'page' : 'pages' }}
+          </div>
+          @if (profile.duplex) {
+            <div class="text-xs text-slate-400 mt-1">Print double-sided, flip on long edge.</div>
+          }
+        } @else {
+          <div class="text-red-400">{{ layoutError }}</div>
+        }
+      </div>
+
+      <div class="flex flex-wrap justify-end gap-2 mt-6">
+        <button
+          (click)="closed.emit()"
+          class="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-sm"
+          >
+          Cancel
+        </button>
+        <button
+          (click)="exported.emit(profile)"
+          [disabled]="!layout || cardCount === 0"
+          class="px-4 py-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 rounded-lg transition-colors text-sm font-medium"
+          >
+          Export PDF
+        </button>
+      </div>
+    </div>
+    `,
+    imports: [FormsModule]
+})
+export class PrintSettingsComponent implements OnChanges {
+  @Input() cardCount = 0;
+  @Input() profile: PrintProfile = DEFAULT_PRINT_PROFILE;
+
+  @Output() exported = new EventEmitter<PrintProfile>();
+  @Output() closed = new EventEmitter<void>();
+
+  readonly cardSizes = CARD_SIZES;
+  readonly paperSizes = PAPER_SIZES;
+
+  layout: SheetLayout | null = null;
+  layoutError = '';
+
+  get pageCount(): number {
+    if (!this.layout) return 0;
+    const sheets = Math.ceil(this.cardCount / this.layout.slots.length);
+    return this.profile.duplex ? sheets * 2 : sheets;
+  }
+
+  ngOnChanges() {
+    this.updateLayout();
+  }
+
+  update(changes: Partial<PrintProfile>) {
+    this.profile = { ...this.profile, ...changes };
+    this.updateLayout();
+  }
+
+  clamp(value: number | null, max: number): number {
+    return Math.min(max, Math.max(0, Number(value) || 0));
+  }
+
+  private updateLayout() {
+    try {
+      this.layout = layoutSheet(this.profile);
+      this.layoutError = '';
+    } catch (error) {
+      this.layout = null;
+      this.layoutError = error instanceof Error ? error.message : 'These settings do not fit on the paper';
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { MAX_POSITION_WEIGHT, PositionDefinition, PositionWeights, RatingProfiles, StatSchema } from '../../models/player.model';
+import { CardService } from '../../services/card.service';
+
+@Component({
+    selector: 'app-rating-weights',
+    host: { class: 'block' },
+    template: `
+    <div class="space-y-2">
+      <div class="flex items-center justify-between gap-2">
+        <h4 class="font-medium text-sm">Rating Weights</h4>
+        <select
+          [(ngModel)]="position"
+          class="px-2 py-1 bg-slate-700 border border-slate-600 rounded text-xs"
+          >
+          @for (option of positions; track option.code) {
+            <option [value]="option.code">{{ option.code }} - {{ option.name }}</option>
+          }
+        </select>
+      </div>
+
+      @for (stat of schema.stats; track stat.key) {
+        <div class="flex items-center gap-3">
+          <div class="w-10 text-xs font-medium uppercase text-slate-400" [title]="stat.label">{{ stat.abbreviation }}</div>
+          <input
+            type="range"
+            min="0"
+            [max]="maxWeight"
+            step="0.5"
+            [ngModel]="weights[stat.key]"
+            (ngModelChange)="setWeight(stat.key, $event)"
+            class="flex-1 h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer slider"
+            >
+          <div class="w-8 text-xs font-bold text-right text-yellow-400">&times;{{ weights[stat.key] }}</div>
+        </div>
+      }
+
+      <div class="flex items-center justify-between text-xs text-slate-400">
+        <span>{{ isCustomized ? 'Customized for this project' : 'Default weights' }}</span>
+        <button
+          (click)="resetPosition()"
+          [disabled]="!isCustomized"
+          class="px-2 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded transition-colors"
+          >
+          Reset {{ position }}
+        </button>
+      </div>
+    </div>
+    `,
+    imports: [FormsModule]
+})
+export class RatingWeightsComponent {
+  @Input({ required: true }) schema!: StatSchema;
+  @Input() profiles: RatingProfiles = {};
+
+  @Output() profilesChange = new EventEmitter<RatingProfiles>();
+
+  position = 'DEV';
+
+  readonly maxWeight = MAX_POSITION_WEIGHT;
+
+  constructor(private cardService: CardService) {}
+
+  get positions(): PositionDefinition[] {
+    return this.cardService.getPositions();
+  }
+
+  get weights(): PositionWeights {
+    return this.cardService.getPositionWeights(this.position, this.schema, this.profiles);
+  }
+
+  get isCustomized(): boolean {
+    return !!this.profiles[this.position];
+  }
+
+  setWeight(key: string, value: number) {
+    this.profilesChange.emit({
+      ...this.profiles,
+      [this.position]: { ...this.weights, [key]: Number(value) }
+    });
+  }
+
+  resetPosition() {
+    const { [this.position]: _removed, ...profiles } = this.profiles;
+    this.profilesChange.emit(profiles);
+  }
+}
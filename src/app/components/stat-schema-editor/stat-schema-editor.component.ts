@@ -0,0 +1,217 @@
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { MAX_SCHEMA_STATS, MIN_SCHEMA_STATS, StatDefinition, StatSchema } from '../../models/player.model';
+import { CardService } from '../../services/card.service';
+import { StorageService } from '../../services/storage.service';
+
+@Component({
+    selector: 'app-stat-schema-editor',
+    host: { class: 'block' },
+    template: `
+    <div class="bg-slate-800 rounded-xl shadow-xl p-4 sm:p-6 max-h-[90vh] overflow-y-auto">
+      <h3 class="text-lg font-semibold mb-4 text-yellow-400">
+        {{ draft.custom ? 'Edit Stat Schema' : 'New Stat Schema' }}
+      </h3>
+
+      <div class="space-y-4">
+        <div>
+          <label class="block text-sm font-medium mb-1">Name</label>
+          <input
+            type="text"
+            [(ngModel)]="draft.name"
+            maxlength="30"
+            class="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:border-blue-500 focus:outline-none text-sm"
+            placeholder="e.g. Support Team"
+            >
+        </div>
+
+        <div class="space-y-2">
+          <div class="grid grid-cols-[1fr_1fr_4rem_3.5rem_3.5rem_3.5rem_1.5rem] gap-2 text-xs text-slate-400">
+            <span>Label</span>
+            <span>Key</span>
+            <span>Abbr.</span>
+            <span>Default</span>
+            <span>Min</span>
+            <span>Max</span>
+            <span></span>
+          </div>
+          @for (stat of draft.stats; track $index; let i = $index) {
+            <div class="grid grid-cols-[1fr_1fr_4rem_3.5rem_3.5rem_3.5rem_1.5rem] gap-2 items-center">
+              <input
+                type="text"
+                [ngModel]="stat.label"
+                (ngModelChange)="setLabel(stat, $event)"
+                maxlength="24"
+                class="px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm"
+                placeholder="Label"
+                >
+              <input
+                type="text"
+                [(ngModel)]="stat.key"
+                maxlength="24"
+                class="px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm font-mono"
+                placeholder="key"
+                >
+              <input
+                type="text"
+                [ngModel]="stat.abbreviation"
+                (ngModelChange)="stat.abbreviation = $event.toUpperCase()"
+                maxlength="4"
+                class="px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm uppercase"
+                >
+              <input
+                type="number"
+                [(ngModel)]="stat.defaultValue"
+                class="px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm"
+                >
+              <input
+                type="number"
+                [(ngModel)]="stat.min"
+                class="px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm"
+                >
+              <input
+                type="number"
+                [(ngModel)]="stat.max"
+                class="px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm"
+                >
+              <button
+                (click)="removeStat(i)"
+                [disabled]="draft.stats.length <= minStats"
+                class="text-slate-500 hover:text-red-400 disabled:opacity-30 text-lg"
+                title="Remove stat"
+                >
+                &times;
+              </button>
+            </div>
+          }
+          @if (draft.stats.length < maxStats) {
+            <button
+              (click)="addStat()"
+              class="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs transition-colors"
+              >
+              + Add Stat
+            </button>
+          }
+          <p class="text-xs text-slate-400">
+            {{ minStats }} to {{ maxStats }} stats. CSV and JSON imports match columns by key or abbreviation.
+          </p>
+        </div>
+
+        @if (errors.length > 0) {
+          <ul class="text-xs text-red-400 space-y-1">
+            @for (error of errors; track error) {
+              <li>{{ error }}</li>
+            }
+          </ul>
+        }
+      </div>
+
+      <div class="flex flex-wrap justify-end gap-2 mt-6">
+        @if (draft.custom) {
+          <button
+            (click)="deleteSchema()"
+            class="px-4 py-2 bg-red-700 hover:bg-red-600 rounded-lg transition-colors text-sm mr-auto"
+            >
+            Delete
+          </button>
+        }
+        <button
+          (click)="closed.emit()"
+          class="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-sm"
+          >
+          Cancel
+        </button>
+        <button
+          (click)="saveSchema()"
+          [disabled]="!draft.name.trim()"
+          class="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded-lg transition-colors text-sm font-medium"
+          >
+          Save Schema
+        </button>
+      </div>
+    </div>
+    `,
+    imports: [FormsModule]
+})
+export class StatSchemaEditorComponent implements OnChanges {
+  // Built-in schemas are copied, custom ones are edited in place
+  @Input() baseSchema: StatSchema | null = null;
+
+  @Output() saved = new EventEmitter<StatSchema>();
+  @Output() deleted = new EventEmitter<string>();
+  @Output() closed = new EventEmitter<void>();
+  @Output() notify = new EventEmitter<{ message: string; type: 'success' | 'error' | 'info' }>();
+
+  draft!: StatSchema;
+  errors: string[] = [];
+
+  readonly minStats = MIN_SCHEMA_STATS;
+  readonly maxStats = MAX_SCHEMA_STATS;
+
+  constructor(
+    private cardService: CardService,
+    private storageService: StorageService
+  ) {}
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['baseSchema'] || !this.draft) {
+      const base = this.baseSchema || this.cardService.getActiveStatSchema();
+      this.draft = {
+        id: base.custom ? base.id : `stats_${Date.now().toString(36)}`,
+        name: base.custom ? base.name : `${base.name} (Copy)`,
+        stats: base.stats.map(stat => ({ ...stat })),
+        custom: base.custom
+      };
+      this.errors = [];
+    }
+  }
+
+  // Keep the key in step with the label until the user edits it by hand
+  setLabel(stat: StatDefinition, label: string) {
+    if (!stat.key || stat.key === this.toKey(stat.label)) {
+      stat.key = this.toKey(label);
+    }
+    stat.label = label;
+  }
+
+  addStat() {
+    this.draft.stats.push({ key: '', label: '', abbreviation: '', defaultValue: 75, min: 1, max: 99 });
+  }
+
+  removeStat(index: number) {
+    this.draft.stats.splice(index, 1);
+  }
+
+  saveSchema() {
+    const schema: StatSchema = {
+      ...this.draft,
+      name: this.draft.name.trim(),
+      stats: this.draft.stats.map(stat => ({
+        ...stat,
+        key: stat.key.trim(),
+        label: stat.label.trim() || stat.key.trim(),
+        abbreviation: stat.abbreviation.trim().toUpperCase()
+      })),
+      custom: true
+    };
+
+    this.errors = this.cardService.validateStatSchema(schema);
+    if (this.errors.length > 0) return;
+
+    this.storageService.saveStatSchema(schema);
+    this.notify.emit({ message: `Saved stat schema ${schema.name}`, type: 'success' });
+    this.saved.emit(schema);
+  }
+
+  deleteSchema() {
+    if (!confirm(`Delete stat schema "${this.draft.name}"? Projects and cards using it switch to the default schema.`)) return;
+
+    this.storageService.deleteStatSchema(this.draft.id);
+    this.notify.emit({ message: `Deleted stat schema ${this.draft.name}`, type: 'info' });
+    this.deleted.emit(this.draft.id);
+  }
+
+  private toKey(label: string): string {
+    return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '');
+  }
+}
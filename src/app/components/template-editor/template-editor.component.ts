@@ -0,0 +1,461 @@
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { BACK_LAYOUT_SLOT_NAMES, CardTemplate, DEFAULT_CARD_BACK_LAYOUT, DEFAULT_CARD_LAYOUT, LAYOUT_SLOT_NAMES, LayoutSlot, PlayerData } from '../../models/player.model';
+import { FifaCardComponent } from '../fifa-card/fifa-card.component';
+import { TemplateService } from '../../services/template.service';
+import { CARD_HEIGHT, CARD_WIDTH } from '../../services/card-renderer.service';
+import { SceneGradient } from '../../utils/scene-painter';
+
+const MAX_GRADIENT_STOPS = 5;
+const MIN_SLOT_SIZE = 10;
+
+// Fonts the editor offers; the first two are loaded by styles.scss
+const TEMPLATE_FONTS = ['Roboto Condensed', 'Inter', 'Arial Narrow', 'Georgia', 'Courier New'];
+
+@Component({
+    selector: 'app-template-editor',
+    host: { class: 'block' },
+    template: `
+    <div class="bg-slate-800 rounded-xl shadow-xl p-4 sm:p-6 max-h-[90vh] overflow-y-auto">
+      <h3 class="text-lg font-semibold mb-4 text-yellow-400">
+        {{ draft.id ? 'Edit Template' : 'New Custom Template' }}
+      </h3>
+
+      <div class="grid md:grid-cols-2 gap-6">
+        <!-- Settings -->
+        <div class="space-y-4">
+          <div>
+            <label class="block text-sm font-medium mb-1">Name</label>
+            <input
+              type="text"
+              [(ngModel)]="draft.displayName"
+              maxlength="30"
+              class="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:border-blue-500 focus:outline-none text-sm"
+              placeholder="e.g. Platform Purple"
+              >
+          </div>
+
+          <!-- Gradient -->
+          <div class="space-y-2">
+            <div class="flex items-center justify-between">
+              <label class="text-sm font-medium">Gradient</label>
+              <span class="text-xs text-slate-400">{{ gradient.angle }}&deg;</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="360"
+              [(ngModel)]="gradient.angle"
+              (ngModelChange)="updatePreview()"
+              class="w-full slider"
+              >
+            @for (stop of gradient.stops; track $index; let i = $index) {
+              <div class="flex items-center gap-2">
+                <input
+                  type="color"
+                  [(ngModel)]="stop.color"
+                  (ngModelChange)="updatePreview()"
+                  class="w-9 h-8 bg-transparent border border-slate-600 rounded cursor-pointer"
+                  >
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  [ngModel]="stop.offset * 100"
+                  (ngModelChange)="setStopOffset(i, $event)"
+                  class="flex-1 slider"
+                  >
+                <span class="text-xs text-slate-400 w-9 text-right">{{ (stop.offset * 100).toFixed(0) }}%</span>
+                <button
+                  (click)="removeStop(i)"
+                  [disabled]="gradient.stops.length <= 2"
+                  class="text-slate-500 hover:text-red-400 disabled:opacity-30 text-lg px-1"
+                  title="Remove stop"
+                  >
+                  &times;
+                </button>
+              </div>
+            }
+            @if (gradient.stops.length < maxStops) {
+              <button
+                (click)="addStop()"
+                class="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs transition-colors"
+                >
+                + Add Stop
+              </button>
+            }
+          </div>
+
+          <!-- Color scheme -->
+          <div>
+            <label class="block text-sm font-medium mb-2">Colors</label>
+            <div class="grid grid-cols-4 gap-2 text-center">
+              @for (key of colorKeys; track key) {
+                <label class="text-xs text-slate-400 capitalize">
+                  <input
+                    type="color"
+                    [(ngModel)]="draft.colorScheme[key]"
+                    (ngModelChange)="updatePreview()"
+                    class="block w-full h-8 mb-1 bg-transparent border border-slate-600 rounded cursor-pointer"
+                    >
+                  {{ key }}
+                </label>
+              }
+            </div>
+          </div>
+
+          <div class="grid grid-cols-2 gap-2">
+            <div>
+              <label class="block text-xs text-slate-400 mb-1">Photo mask</label>
+              <select
+                [(ngModel)]="draft.maskShape"
+                (ngModelChange)="updatePreview()"
+                class="w-full px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm"
+                >
+                <option value="shield">Shield</option>
+                <option value="circle">Circle</option>
+                <option value="hexagon">Hexagon</option>
+              </select>
+            </div>
+            <div>
+              <label class="block text-xs text-slate-400 mb-1">Font</label>
+              <select
+                [(ngModel)]="draft.fontFamily"
+                (ngModelChange)="updatePreview()"
+                class="w-full px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm"
+                >
+                @for (font of fonts; track font) {
+                  <option [value]="font">{{ font }}</option>
+                }
+              </select>
+            </div>
+          </div>
+
+          <!-- Artwork -->
+          <div class="space-y-2">
+            <label class="block text-sm font-medium">Artwork</label>
+            <div class="flex gap-2">
+              <div class="file-input-wrapper flex-1">
+                <div class="w-full p-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-center cursor-pointer text-xs">
+                  {{ draft.backgroundImage ? 'Replace frame image' : 'Upload frame PNG' }}
+                </div>
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp"
+                  (change)="onArtworkUpload($event)"
+                  >
+              </div>
+              @if (draft.backgroundImage) {
+                <button
+                  (click)="removeArtwork()"
+                  class="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-xs"
+                  >
+                  Remove
+                </button>
+              }
+            </div>
+            <div class="text-xs text-slate-400">Stretched to 322x450; the gradient shows when no artwork is set.</div>
+          </div>
+
+          <!-- Layout slots -->
+          <div class="space-y-2">
+            <div class="flex items-center justify-between">
+              <label class="text-sm font-medium">Layout</label>
+              <div class="flex items-center gap-3 text-xs">
+                <div class="flex rounded overflow-hidden">
+                  @for (option of sides; track option) {
+                    <button
+                      (click)="setSide(option)"
+                      [class]="'px-2 py-0.5 capitalize transition-colors ' + (side === option ? 'bg-yellow-500 text-slate-900' : 'bg-slate-700 hover:bg-slate-600')"
+                      >
+                      {{ option }}
+                    </button>
+                  }
+                </div>
+                <label class="flex items-center gap-1 text-slate-400">
+                  <input type="checkbox" [(ngModel)]="showGuides" class="rounded">
+                  Guides
+                </label>
+                <button (click)="resetLayout()" class="text-slate-400 hover:text-white">Reset</button>
+              </div>
+            </div>
+            <div class="flex flex-wrap gap-1">
+              @for (slot of slotKeys; track slot) {
+                <button
+                  (click)="selectedSlot = slot"
+                  [class]="'px-2 py-1 rounded text-xs transition-colors ' +
+                  (selectedSlot === slot ? 'bg-yellow-500 text-slate-900' : 'bg-slate-700 hover:bg-slate-600')"
+                  >
+                  {{ slotNames[slot] }}
+                </button>
+              }
+            </div>
+            <div class="grid grid-cols-4 gap-2">
+              @for (field of slotFields; track field) {
+                <label class="text-xs text-slate-400 uppercase">
+                  {{ field.charAt(0) }}
+                  <input
+                    type="number"
+                    [ngModel]="layout[selectedSlot][field]"
+                    (ngModelChange)="setSlotField(field, $event)"
+                    class="w-full px-2 py-1 bg-slate-700 border border-slate-600 rounded text-sm text-white"
+                    >
+                </label>
+              }
+            </div>
+            <div class="text-xs text-slate-400">Drag a guide on the preview to move it, or its corner to resize.</div>
+          </div>
+
+          <div class="flex gap-4 text-sm">
+            <label class="flex items-center gap-2">
+              <input type="checkbox" [(ngModel)]="draft.glowEffect" (ngModelChange)="updatePreview()" class="rounded">
+              Glow
+            </label>
+            <label class="flex items-center gap-2">
+              <input type="checkbox" [(ngModel)]="draft.metallic" (ngModelChange)="updatePreview()" class="rounded">
+              Metallic
+            </label>
+          </div>
+        </div>
+
+        <!-- Live preview -->
+        <div class="flex justify-center items-start">
+          <div class="relative">
+            <app-fifa-card [player]="previewPlayer" [template]="previewTemplate" [side]="side"/>
+            @if (showGuides) {
+              <div class="absolute inset-0">
+                @for (slot of slotKeys; track slot) {
+                  <div
+                    (pointerdown)="startDrag($event, slot, 'move')"
+                    (pointermove)="onDrag($event)"
+                    (pointerup)="endDrag()"
+                    class="absolute border cursor-move touch-none"
+                    [class]="selectedSlot === slot ? 'border-yellow-400 bg-yellow-400/20 z-10' : 'border-sky-400/70 bg-sky-400/10'"
+                    [style.left.px]="layout[slot].x"
+                    [style.top.px]="layout[slot].y"
+                    [style.width.px]="layout[slot].width"
+                    [style.height.px]="layout[slot].height"
+                    [title]="slotNames[slot]"
+                    >
+                    <span class="absolute -top-4 left-0 text-[10px] leading-none text-white bg-black/60 px-1 rounded">{{ slotNames[slot] }}</span>
+                    <div
+                      (pointerdown)="startDrag($event, slot, 'resize')"
+                      class="absolute -right-1 -bottom-1 w-3 h-3 bg-white border border-slate-900 cursor-se-resize"
+                    ></div>
+                  </div>
+                }
+              </div>
+            }
+          </div>
+        </div>
+      </div>
+
+      <div class="flex flex-wrap justify-end gap-2 mt-6">
+        @if (draft.id) {
+          <button
+            (click)="deleteTemplate()"
+            [disabled]="isSaving"
+            class="px-4 py-2 bg-red-700 hover:bg-red-600 disabled:opacity-50 rounded-lg transition-colors text-sm mr-auto"
+            >
+            Delete
+          </button>
+        }
+        <button
+          (click)="closed.emit()"
+          class="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-sm"
+          >
+          Cancel
+        </button>
+        <button
+          (click)="saveTemplate()"
+          [disabled]="isSaving || !draft.displayName.trim()"
+          class="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded-lg transition-colors text-sm font-medium"
+          >
+          Save Template
+        </button>
+      </div>
+    </div>
+    `,
+    imports: [FormsModule, FifaCardComponent]
+})
+export class TemplateEditorComponent implements OnChanges {
+  @Input() baseTemplate: CardTemplate | null = null;
+  @Input({ required: true }) player!: PlayerData;
+
+  @Output() saved = new EventEmitter<CardTemplate>();
+  @Output() deleted = new EventEmitter<string>();
+  @Output() closed = new EventEmitter<void>();
+  @Output() notify = new EventEmitter<{ message: string; type: 'success' | 'error' | 'info' }>();
+
+  draft!: CardTemplate;
+  gradient!: SceneGradient;
+  previewTemplate!: CardTemplate;
+  previewPlayer!: PlayerData;
+  isSaving = false;
+
+  fonts = TEMPLATE_FONTS;
+  readonly maxStops = MAX_GRADIENT_STOPS;
+  readonly colorKeys: (keyof CardTemplate['colorScheme'])[] = ['primary', 'secondary', 'text', 'accent'];
+  readonly slotFields: (keyof LayoutSlot)[] = ['x', 'y', 'width', 'height'];
+  readonly sides: ('front' | 'back')[] = ['front', 'back'];
+
+  // Front and back layouts are edited the same way, one side at a time
+  side: 'front' | 'back' = 'front';
+  slotNames: Record<string, string> = LAYOUT_SLOT_NAMES;
+  slotKeys = Object.keys(LAYOUT_SLOT_NAMES);
+  selectedSlot = 'photo';
+  showGuides = false;
+  private drag: { slot: string; mode: 'move' | 'resize'; startX: number; startY: number; origin: LayoutSlot } | null = null;
+
+  constructor(private templateService: TemplateService) {}
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['baseTemplate'] || !this.draft) {
+      this.draft = this.templateService.createDraft(this.baseTemplate || undefined);
+      this.gradient = this.templateService.getGradient(this.draft);
+      // Pack templates may bring their own font
+      this.fonts = TEMPLATE_FONTS.includes(this.draft.fontFamily) ? TEMPLATE_FONTS : [...TEMPLATE_FONTS, this.draft.fontFamily];
+    }
+    this.updatePreview();
+  }
+
+  updatePreview() {
+    this.previewTemplate = this.templateService.withGradient(this.draft, this.gradient);
+    this.previewPlayer = { ...this.player, backgroundTheme: 'custom-gradient', templateId: this.draft.id };
+  }
+
+  get layout(): Record<string, LayoutSlot> {
+    const layout = this.side === 'back' ? this.draft.backLayout! : this.draft.layout!;
+    return layout as unknown as Record<string, LayoutSlot>;
+  }
+
+  setSide(side: 'front' | 'back') {
+    this.side = side;
+    this.slotNames = side === 'back' ? BACK_LAYOUT_SLOT_NAMES : LAYOUT_SLOT_NAMES;
+    this.slotKeys = Object.keys(this.slotNames);
+    this.selectedSlot = this.slotKeys[0];
+  }
+
+  onArtworkUpload(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      this.draft.backgroundImage = reader.result as string;
+      this.showGuides = true;
+      this.updatePreview();
+    };
+    reader.onerror = () => this.notify.emit({ message: 'Could not read artwork image.', type: 'error' });
+    reader.readAsDataURL(file);
+    input.value = '';
+  }
+
+  removeArtwork() {
+    this.draft.backgroundImage = undefined;
+    this.updatePreview();
+  }
+
+  resetLayout() {
+    if (this.side === 'back') {
+      this.draft.backLayout = this.templateService.copyLayout(DEFAULT_CARD_BACK_LAYOUT);
+    } else {
+      this.draft.layout = this.templateService.copyLayout(DEFAULT_CARD_LAYOUT);
+    }
+    this.updatePreview();
+  }
+
+  setSlotField(field: keyof LayoutSlot, value: number) {
+    if (typeof value !== 'number' || isNaN(value)) return;
+    this.layout[this.selectedSlot] = this.clampSlot({ ...this.layout[this.selectedSlot], [field]: value });
+    this.updatePreview();
+  }
+
+  startDrag(event: PointerEvent, slot: string, mode: 'move' | 'resize') {
+    event.stopPropagation();
+    event.preventDefault();
+    this.selectedSlot = slot;
+    this.drag = { slot, mode, startX: event.clientX, startY: event.clientY, origin: { ...this.layout[slot] } };
+
+    // Resize handles sit inside the slot, so capture on the slot itself
+    const target = (mode === 'resize' ? (event.target as HTMLElement).parentElement : event.target) as HTMLElement;
+    target.setPointerCapture(event.pointerId);
+  }
+
+  onDrag(event: PointerEvent) {
+    if (!this.drag) return;
+
+    const dx = Math.round(event.clientX - this.drag.startX);
+    const dy = Math.round(event.clientY - this.drag.startY);
+    const { origin } = this.drag;
+    const next = this.drag.mode === 'move'
+      ? { ...origin, x: origin.x + dx, y: origin.y + dy }
+      : { ...origin, width: origin.width + dx, height: origin.height + dy };
+
+    this.layout[this.drag.slot] = this.clampSlot(next);
+    this.updatePreview();
+  }
+
+  endDrag() {
+    this.drag = null;
+  }
+
+  setStopOffset(index: number, percent: number) {
+    this.gradient.stops[index].offset = percent / 100;
+    this.updatePreview();
+  }
+
+  addStop() {
+    const last = this.gradient.stops[this.gradient.stops.length - 1];
+    this.gradient.stops.push({ color: last.color, offset: 1 });
+    this.updatePreview();
+  }
+
+  removeStop(index: number) {
+    this.gradient.stops.splice(index, 1);
+    this.updatePreview();
+  }
+
+  async saveTemplate() {
+    this.isSaving = true;
+
+    try {
+      const template = await this.templateService.saveTemplate(this.templateService.withGradient(this.draft, this.gradient));
+      this.notify.emit({ message: `Saved template ${template.displayName}`, type: 'success' });
+      this.saved.emit(template);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      this.notify.emit({ message: 'Could not save template.', type: 'error' });
+    } finally {
+      this.isSaving = false;
+    }
+  }
+
+  async deleteTemplate() {
+    if (!confirm(`Delete template "${this.draft.displayName}"? Cards using it switch to the default template.`)) return;
+    this.isSaving = true;
+
+    try {
+      await this.templateService.deleteTemplate(this.draft.id);
+      this.notify.emit({ message: `Deleted template ${this.draft.displayName}`, type: 'info' });
+      this.deleted.emit(this.draft.id);
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      this.notify.emit({ message: 'Could not delete template.', type: 'error' });
+    } finally {
+      this.isSaving = false;
+    }
+  }
+
+  private clampSlot(slot: LayoutSlot): LayoutSlot {
+    const width = Math.min(CARD_WIDTH, Math.max(MIN_SLOT_SIZE, Math.round(slot.width)));
+    const height = Math.min(CARD_HEIGHT, Math.max(MIN_SLOT_SIZE, Math.round(slot.height)));
+    return {
+      x: Math.min(CARD_WIDTH - width, Math.max(0, Math.round(slot.x))),
+      y: Math.min(CARD_HEIGHT - height, Math.max(0, Math.round(slot.y))),
+      width,
+      height
+    };
+  }
+}
@@ -0,0 +1,45 @@
+// Animated card exports: output formats and the settings for a tilt, shine and reveal clip
+
+export type AnimationFormat = 'gif' | 'apng' | 'webm';
+
+export interface AnimationFormatInfo {
+  id: AnimationFormat;
+  name: string;
+  extension: string;
+  mimeType: string;
+  description: string;
+}
+
+export const ANIMATION_FORMATS: AnimationFormatInfo[] = [
+  { id: 'gif', name: 'GIF', extension: 'gif', mimeType: 'image/gif', description: 'Plays everywhere, 256 colors per frame' },
+  { id: 'apng', name: 'APNG', extension: 'png', mimeType: 'image/png', description: 'Full color, larger files' },
+  { id: 'webm', name: 'WebM', extension: 'webm', mimeType: 'video/webm', description: 'Smallest file, recorded in real time' }
+];
+
+export const ANIMATION_FRAME_RATES = [10, 15, 24, 30];
+export const MIN_ANIMATION_SECONDS = 1;
+export const MAX_ANIMATION_SECONDS = 10;
+
+export interface AnimationProfile {
+  format: AnimationFormat;
+  durationSeconds: number;
+  fps: number;
+  scale: 1 | 2; // card drawn at 322x450 or 644x900
+  background: string; // hex color; GIF frames cannot be partly transparent
+  tilt: boolean; // card turns left and right
+  shine: boolean; // light sweep, metallic templates only
+  reveal: boolean; // walkout-style light rays and flash before the card appears
+  loop: boolean; // GIF and APNG; WebM players loop on their own
+}
+
+export const DEFAULT_ANIMATION_PROFILE: AnimationProfile = {
+  format: 'gif',
+  durationSeconds: 3,
+  fps: 15,
+  scale: 1,
+  background: '#0f172a',
+  tilt: true,
+  shine: true,
+  reveal: true,
+  loop: true
+};
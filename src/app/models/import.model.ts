@@ -0,0 +1,83 @@
+import { PlayerData } from './player.model';
+import { CsvDelimiter } from '../utils/csv';
+import { SpreadsheetSheet } from '../utils/spreadsheet';
+
+// Card field a source column can feed; stat fields are keyed `stats.<statKey>`
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+}
+
+// Field key -> source column header
+export type ImportMapping = Record<string, string>;
+
+export interface SavedImportMapping {
+  id: string;
+  name: string;
+  mapping: ImportMapping;
+}
+
+export type ImportFormat = 'csv' | 'xlsx' | 'ods';
+
+// Parsed rows of an import file, kept with enough of the original to re-parse
+// with another delimiter (CSV) or switch sheets (workbooks) without re-reading it
+export interface ImportSource {
+  fileName: string;
+  format: ImportFormat;
+  headers: string[];
+  rows: string[][]; // data rows, header excluded
+  encoding?: string; // CSV only
+  delimiter?: CsvDelimiter;
+  text?: string;
+  sheetName?: string; // workbooks only
+  sheets?: SpreadsheetSheet[];
+}
+
+export interface ImportPreviewRow {
+  row: number; // 1-based data row
+  data: PlayerData | null; // null when the row could not be mapped
+  photoHint?: string; // photo file named in the row, matched against the photo library
+  errors: string[];
+  warnings: string[];
+}
+
+export const STAT_FIELD_PREFIX = 'stats.';
+
+// Header spellings recognised when suggesting a mapping, compared after normalizing
+export const IMPORT_FIELD_ALIASES: Record<string, string[]> = {
+  id: ['id', 'card id'],
+  name: ['name', 'full name', 'fullname', 'player', 'player name', 'display name', 'employee'],
+  position: ['position', 'pos', 'role', 'job title', 'title'],
+  nationality: ['nationality', 'country', 'country code', 'nation', 'nat'],
+  rating: ['rating', 'overall', 'ovr'],
+  manualRating: ['manualrating', 'manual rating', 'manual'],
+  theme: ['theme', 'template', 'template id', 'card', 'card type', 'background theme'],
+  statSchemaId: ['statschemaid', 'stat schema', 'schema'],
+  profilePhoto: ['photo', 'profilephoto', 'profile photo', 'picture', 'image', 'avatar'],
+  customLogo: ['logo', 'customlogo', 'custom logo', 'brand'],
+  team: ['team', 'department', 'dept', 'club', 'company', 'squad'],
+  seniority: ['seniority', 'level', 'seniority level', 'grade'],
+  startDate: ['startdate', 'start date', 'joined', 'join date', 'hire date', 'hired', 'start'],
+  skillMoves: ['skillmoves', 'skill moves', 'sm'],
+  weakFoot: ['weakfoot', 'weak foot', 'wf'],
+  alternativePosition: ['alternativeposition', 'alternative position', 'alt position', 'altposition', 'secondary position', 'position 2'],
+  bio: ['bio', 'biography', 'about', 'summary'],
+  techStack: ['techstack', 'tech stack', 'skills', 'tags', 'stack', 'technologies'],
+  yearsOfExperience: ['yearsofexperience', 'years of experience', 'experience', 'years', 'yoe'],
+  favoriteQuote: ['favoritequote', 'favorite quote', 'favourite quote', 'quote', 'motto'],
+  profileUrl: ['profileurl', 'profile url', 'url', 'link', 'linkedin', 'website']
+};
+
+export type PhotoMatchStatus = 'matched' | 'ambiguous' | 'unmatched';
+
+// Photo found for a batch card; `photo` and candidates are paths in the photo library
+export interface PhotoMatch {
+  cardId: string;
+  cardName: string;
+  status: PhotoMatchStatus;
+  photo?: string;
+  reason?: 'column' | 'id' | 'name'; // photo column, file named after the card id, or fuzzy name match
+  photoHint?: string; // file named in the photo column
+  candidates: { photo: string; score: number }[]; // best first
+}
@@ -0,0 +1,121 @@
+import { ITPosition } from './player.model';
+
+export type PitchLine = 'goalkeeper' | 'defence' | 'midfield' | 'attack';
+
+export interface FormationSlot {
+  id: string; // unique within the formation, e.g. 'LCB'
+  label: string; // shown on empty slots
+  line: PitchLine;
+  x: number; // 0-1 across the pitch, left to right
+  y: number; // 0-1 down the pitch, attack at the top
+}
+
+export interface Formation {
+  id: string; // e.g. '4-3-3'
+  name: string;
+  slots: FormationSlot[];
+}
+
+// Slot id -> card id; saved per project
+export interface ProjectLineup {
+  formationId: string;
+  assignments: Record<string, string>;
+}
+
+export interface TeamRatings {
+  overall: number | null;
+  attack: number | null;
+  midfield: number | null;
+  defence: number | null;
+  goalkeeper: number | null;
+  filled: number; // slots with a card
+  total: number;
+}
+
+// IT roles that fit each line of the pitch, best fit first
+export const LINE_POSITIONS: Record<PitchLine, ITPosition[]> = {
+  goalkeeper: ['SEC', 'QA', 'OPS'],
+  defence: ['QA', 'OPS', 'SEC', 'ARCH'],
+  midfield: ['PM', 'ARCH', 'UX', 'DATA'],
+  attack: ['DEV', 'DATA', 'UX']
+};
+
+export const PITCH_LINE_NAMES: Record<PitchLine, string> = {
+  goalkeeper: 'GK',
+  defence: 'DEF',
+  midfield: 'MID',
+  attack: 'ATT'
+};
+
+const GK: FormationSlot = { id: 'GK', label: 'GK', line: 'goalkeeper', x: 0.5, y: 0.9 };
+
+export const FORMATIONS: Formation[] = [
+  {
+    id: '4-3-3',
+    name: '4-3-3',
+    slots: [
+      GK,
+      { id: 'LB', label: 'LB', line: 'defence', x: 0.14, y: 0.68 },
+      { id: 'LCB', label: 'CB', line: 'defence', x: 0.38, y: 0.72 },
+      { id: 'RCB', label: 'CB', line: 'defence', x: 0.62, y: 0.72 },
+      { id: 'RB', label: 'RB', line: 'defence', x: 0.86, y: 0.68 },
+      { id: 'LCM', label: 'CM', line: 'midfield', x: 0.24, y: 0.45 },
+      { id: 'CM', label: 'CM', line: 'midfield', x: 0.5, y: 0.48 },
+      { id: 'RCM', label: 'CM', line: 'midfield', x: 0.76, y: 0.45 },
+      { id: 'LW', label: 'LW', line: 'attack', x: 0.18, y: 0.18 },
+      { id: 'ST', label: 'ST', line: 'attack', x: 0.5, y: 0.14 },
+      { id: 'RW', label: 'RW', line: 'attack', x: 0.82, y: 0.18 }
+    ]
+  },
+  {
+    id: '4-4-2',
+    name: '4-4-2',
+    slots: [
+      GK,
+      { id: 'LB', label: 'LB', line: 'defence', x: 0.14, y: 0.68 },
+      { id: 'LCB', label: 'CB', line: 'defence', x: 0.38, y: 0.72 },
+      { id: 'RCB', label: 'CB', line: 'defence', x: 0.62, y: 0.72 },
+      { id: 'RB', label: 'RB', line: 'defence', x: 0.86, y: 0.68 },
+      { id: 'LM', label: 'LM', line: 'midfield', x: 0.14, y: 0.42 },
+      { id: 'LCM', label: 'CM', line: 'midfield', x: 0.38, y: 0.46 },
+      { id: 'RCM', label: 'CM', line: 'midfield', x: 0.62, y: 0.46 },
+      { id: 'RM', label: 'RM', line: 'midfield', x: 0.86, y: 0.42 },
+      { id: 'LST', label: 'ST', line: 'attack', x: 0.35, y: 0.15 },
+      { id: 'RST', label: 'ST', line: 'attack', x: 0.65, y: 0.15 }
+    ]
+  },
+  {
+    id: '4-2-3-1',
+    name: '4-2-3-1',
+    slots: [
+      GK,
+      { id: 'LB', label: 'LB', line: 'defence', x: 0.14, y: 0.7 },
+      { id: 'LCB', label: 'CB', line: 'defence', x: 0.38, y: 0.74 },
+      { id: 'RCB', label: 'CB', line: 'defence', x: 0.62, y: 0.74 },
+      { id: 'RB', label: 'RB', line: 'defence', x: 0.86, y: 0.7 },
+      { id: 'LDM', label: 'DM', line: 'midfield', x: 0.35, y: 0.53 },
+      { id: 'RDM', label: 'DM', line: 'midfield', x: 0.65, y: 0.53 },
+      { id: 'LAM', label: 'LM', line: 'midfield', x: 0.16, y: 0.33 },
+      { id: 'CAM', label: 'AM', line: 'midfield', x: 0.5, y: 0.33 },
+      { id: 'RAM', label: 'RM', line: 'midfield', x: 0.84, y: 0.33 },
+      { id: 'ST', label: 'ST', line: 'attack', x: 0.5, y: 0.12 }
+    ]
+  },
+  {
+    id: '3-5-2',
+    name: '3-5-2',
+    slots: [
+      GK,
+      { id: 'LCB', label: 'CB', line: 'defence', x: 0.25, y: 0.72 },
+      { id: 'CB', label: 'CB', line: 'defence', x: 0.5, y: 0.74 },
+      { id: 'RCB', label: 'CB', line: 'defence', x: 0.75, y: 0.72 },
+      { id: 'LWB', label: 'LWB', line: 'midfield', x: 0.1, y: 0.46 },
+      { id: 'LCM', label: 'CM', line: 'midfield', x: 0.3, y: 0.5 },
+      { id: 'CM', label: 'CM', line: 'midfield', x: 0.5, y: 0.44 },
+      { id: 'RCM', label: 'CM', line: 'midfield', x: 0.7, y: 0.5 },
+      { id: 'RWB', label: 'RWB', line: 'midfield', x: 0.9, y: 0.46 },
+      { id: 'LST', label: 'ST', line: 'attack', x: 0.35, y: 0.15 },
+      { id: 'RST', label: 'ST', line: 'attack', x: 0.65, y: 0.15 }
+    ]
+  }
+];
@@ -1,31 +1,130 @@
+import { ProjectLineup } from './lineup.model';
+
 export interface PlayerData {
   id?: string;
   name: string;
-  position: ITPosition;
+  position: string; // built-in ITPosition or a code from the project's custom positions
   nationality: string; // ISO code like 'FR', 'US', 'DE'
   rating: number; // 1-99, auto-computed or manual override
   manualRating?: boolean; // true if rating was manually set
 
-  // Six core stats (1-99)
+  // Stat values keyed by the card's stat schema
   stats: PlayerStats;
+  statSchemaId?: string; // defaults to the IT schema
 
   // Visual data
   profilePhoto?: string; // base64 or URL
+  originalPhoto?: string; // uploaded photo before cropping, kept so it can be re-cropped
+  photoCrop?: PhotoCrop; // edits that turned originalPhoto into profilePhoto
   backgroundTheme: CardTheme;
+  templateId?: string; // custom template id, used with backgroundTheme 'custom-gradient'
   customLogo?: string; // base64 or URL
 
+  // Profile
+  seniority?: SeniorityLevel;
+  team?: string; // team or squad name printed on the card
+  startDate?: string; // YYYY-MM-DD, tenure badges are derived from it
+  weakFoot?: number; // 1-5 stars
+  skillMoves?: number; // 1-5 stars
+  alternativePosition?: string; // preferred second position, a code like `position`
+
+  // Promo version
+  variantId?: string; // CardVariant this card was created as
+  originalId?: string; // id of the base card it was derived from
+
+  // Card back
+  bio?: string;
+  techStack?: string[]; // skill and tech stack tags
+  yearsOfExperience?: number;
+  favoriteQuote?: string;
+  profileUrl?: string; // encoded in the QR code on the back
+
   // Metadata
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-export interface PlayerStats {
-  technical: number; // Technical skills (coding, architecture)
-  leadership: number; // Team leadership and communication
-  creativity: number; // Problem-solving and innovation
-  reliability: number; // Consistency and dependability
-  collaboration: number; // Teamwork and interpersonal skills
-  adaptability: number; // Learning and flexibility
+export type PlayerStats = Record<string, number>;
+
+export type SeniorityLevel = 'junior' | 'mid' | 'senior' | 'staff';
+
+export const SENIORITY_LEVELS: Record<SeniorityLevel, string> = {
+  junior: 'Junior',
+  mid: 'Mid-level',
+  senior: 'Senior',
+  staff: 'Staff'
+};
+
+// Badge for players who joined at least `minYears` ago; the first match wins
+export interface TenureBadge {
+  minYears: number;
+  label: string;
+  color: string; // badge background, text is dark
+}
+
+export const TENURE_BADGES: TenureBadge[] = [
+  { minYears: 10, label: '10 YRS', color: '#c084fc' },
+  { minYears: 5, label: '5 YRS', color: '#facc15' },
+  { minYears: 3, label: '3 YRS', color: '#cbd5e1' },
+  { minYears: 1, label: '1 YR', color: '#d6a06b' },
+  { minYears: 0, label: 'NEW', color: '#4ade80' }
+];
+
+export const MAX_STAR_RATING = 5;
+export const MAX_TEAM_LENGTH = 30;
+
+// Photo editor settings. At zoom 1 the photo covers the template's photo slot; offsets
+// move its center by a fraction of the slot size.
+export interface PhotoCrop {
+  zoom: number; // 1-4
+  offsetX: number;
+  offsetY: number;
+  rotation: number; // degrees
+  brightness: number; // percent, 100 = unchanged
+  contrast: number; // percent, 100 = unchanged
+  removeBackground: boolean;
+  backgroundTolerance: number; // 0-100, how far a color may be from the backdrop and still be removed
+}
+
+export const DEFAULT_PHOTO_CROP: PhotoCrop = {
+  zoom: 1,
+  offsetX: 0,
+  offsetY: 0,
+  rotation: 0,
+  brightness: 100,
+  contrast: 100,
+  removeBackground: false,
+  backgroundTolerance: 30
+};
+
+export interface StatDefinition {
+  key: string; // property in PlayerStats and CSV/JSON column name
+  label: string; // full name, e.g. 'Technical'
+  abbreviation: string; // shown on the card, up to 4 characters
+  defaultValue: number;
+  min: number;
+  max: number;
+}
+
+export interface StatSchema {
+  id: string;
+  name: string;
+  stats: StatDefinition[]; // 3 to 8 stats, in card order
+  custom?: boolean; // user-defined, stored in settings
+}
+
+// Relative stat weights for one position, keyed by stat key; unlisted stats weigh 1
+export type PositionWeights = Record<string, number>;
+
+export type RatingProfiles = Record<string, PositionWeights>;
+
+// Position a card can hold; projects add their own on top of the built-in ITPositions
+export interface PositionDefinition {
+  code: string; // 2-5 uppercase letters or digits, printed on the card
+  name: string;
+  color?: string; // position badge text color
+  weights?: PositionWeights; // rating profile, project overrides still apply
+  custom?: boolean;
 }
 
 export type ITPosition =
@@ -74,6 +173,45 @@ export interface CardTemplate {
   metallic?: boolean;
   glowEffect?: boolean;
   patternOverlay?: string;
+
+  custom?: boolean; // user-made in the template editor, stored in IndexedDB
+  layout?: CardLayout; // element positions for uploaded artwork, defaults to DEFAULT_CARD_LAYOUT
+  backLayout?: CardBackLayout; // element positions on the card back, defaults to DEFAULT_CARD_BACK_LAYOUT
+  fontSource?: string; // data URL of a font bundled with the template, registered as fontFamily
+}
+
+// Box in card pixels (322x450); text is vertically centered in its slot
+export interface LayoutSlot {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CardLayout {
+  rating: LayoutSlot;
+  position: LayoutSlot;
+  flag: LayoutSlot;
+  photo: LayoutSlot;
+  name: LayoutSlot; // nationality sits just below the name
+  stats: LayoutSlot; // 3x2 grid
+  logo: LayoutSlot;
+  altPosition: LayoutSlot;
+  badges: LayoutSlot; // seniority and tenure, stacked
+  skillStars: LayoutSlot; // skill moves and weak foot
+  team: LayoutSlot;
+  variant: LayoutSlot; // promo variant badge
+  bestFit: LayoutSlot; // position the rating weights suggest, when it is not the card's own
+}
+
+export interface CardBackLayout {
+  name: LayoutSlot;
+  bio: LayoutSlot; // wrapped to as many lines as fit
+  techStack: LayoutSlot; // tags flow into rows
+  experience: LayoutSlot;
+  quote: LayoutSlot;
+  qr: LayoutSlot; // square, drawn at the smaller side
+  branding: LayoutSlot; // team logo and project branding
 }
 
 export interface ExportOptions {
@@ -84,6 +222,36 @@ export interface ExportOptions {
   customBranding?: string;
 }
 
+// Club, team or department logo in a project's library; CSV `logo`/`team` values resolve to it by name
+export interface LogoEntry {
+  id: string;
+  name: string;
+  dataUrl: string; // processed raster or sanitized SVG
+}
+
+export interface ProjectSettings {
+  defaultTemplate: string;
+  statSchemaId?: string; // schema for new and imported cards, defaults to the IT schema
+  ratingProfiles?: RatingProfiles; // per-position weight overrides on top of the schema defaults
+  customPositions?: PositionDefinition[];
+  logos?: LogoEntry[];
+  defaultLogoId?: string; // library logo given to new and imported cards without one
+  customBranding?: string; // watermark text for PDF sheets
+  lineup?: ProjectLineup; // squad builder formation and slot assignments
+  variantBoosts?: VariantBoosts; // per-variant stat boost overrides
+}
+
+// Named squad with its own card list, default template and branding
+export interface Project {
+  id: string;
+  name: string;
+  description?: string;
+  cards: PlayerData[];
+  settings: ProjectSettings;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface StoredCard {
   id: string;
   playerData: PlayerData;
@@ -92,14 +260,112 @@ export interface StoredCard {
   updatedAt: Date;
 }
 
-// Predefined stat labels for IT positions
-export const STAT_LABELS: Record<string, string> = {
-  technical: 'TEC',
-  leadership: 'LEA',
-  creativity: 'CRE',
-  reliability: 'REL',
-  collaboration: 'COL',
-  adaptability: 'ADA'
+export const MIN_SCHEMA_STATS = 3;
+export const MAX_SCHEMA_STATS = 8;
+
+const stat = (key: string, label: string, abbreviation: string): StatDefinition =>
+  ({ key, label, abbreviation, defaultValue: 75, min: 1, max: 99 });
+
+export const DEFAULT_STAT_SCHEMA_ID = 'it';
+
+// Built-in stat schemas
+export const STAT_SCHEMAS: StatSchema[] = [
+  {
+    id: DEFAULT_STAT_SCHEMA_ID,
+    name: 'IT Skills',
+    stats: [
+      stat('technical', 'Technical', 'TEC'), // coding, architecture
+      stat('leadership', 'Leadership', 'LEA'), // team leadership and communication
+      stat('creativity', 'Creativity', 'CRE'), // problem-solving and innovation
+      stat('reliability', 'Reliability', 'REL'), // consistency and dependability
+      stat('collaboration', 'Collaboration', 'COL'), // teamwork
+      stat('adaptability', 'Adaptability', 'ADA') // learning and flexibility
+    ]
+  },
+  {
+    id: 'football',
+    name: 'Classic Football',
+    stats: [
+      stat('pace', 'Pace', 'PAC'),
+      stat('shooting', 'Shooting', 'SHO'),
+      stat('passing', 'Passing', 'PAS'),
+      stat('dribbling', 'Dribbling', 'DRI'),
+      stat('defending', 'Defending', 'DEF'),
+      stat('physical', 'Physical', 'PHY')
+    ]
+  },
+  {
+    id: 'sales',
+    name: 'Sales',
+    stats: [
+      stat('prospecting', 'Prospecting', 'PRO'),
+      stat('closing', 'Closing', 'CLO'),
+      stat('negotiation', 'Negotiation', 'NEG'),
+      stat('relationships', 'Relationships', 'REL'),
+      stat('product', 'Product Knowledge', 'PRD'),
+      stat('pipeline', 'Pipeline', 'PIP')
+    ]
+  }
+];
+
+// Positions of the built-in card frames, mirrors the layout in styles.scss
+export const DEFAULT_CARD_LAYOUT: CardLayout = {
+  rating: { x: 30, y: 60, width: 60, height: 36 },
+  position: { x: 30, y: 97, width: 60, height: 16 },
+  flag: { x: 256, y: 60, width: 36, height: 34 },
+  photo: { x: 93, y: 70, width: 170, height: 200 },
+  name: { x: 20, y: 268, width: 282, height: 24 },
+  stats: { x: 30, y: 332, width: 262, height: 93 },
+  logo: { x: 10, y: 420, width: 40, height: 20 },
+  altPosition: { x: 30, y: 116, width: 60, height: 14 },
+  badges: { x: 24, y: 136, width: 66, height: 36 },
+  skillStars: { x: 262, y: 100, width: 46, height: 32 },
+  team: { x: 20, y: 312, width: 282, height: 16 },
+  variant: { x: 111, y: 34, width: 100, height: 20 },
+  bestFit: { x: 262, y: 136, width: 46, height: 16 }
+};
+
+export const DEFAULT_CARD_BACK_LAYOUT: CardBackLayout = {
+  name: { x: 20, y: 40, width: 282, height: 28 },
+  bio: { x: 28, y: 78, width: 266, height: 96 },
+  techStack: { x: 28, y: 184, width: 266, height: 54 },
+  experience: { x: 28, y: 248, width: 266, height: 40 },
+  quote: { x: 28, y: 298, width: 176, height: 80 },
+  qr: { x: 214, y: 298, width: 80, height: 80 },
+  branding: { x: 20, y: 392, width: 282, height: 32 }
+};
+
+export const BACK_LAYOUT_SLOT_NAMES: Record<keyof CardBackLayout, string> = {
+  name: 'Name',
+  bio: 'Bio',
+  techStack: 'Tech Stack',
+  experience: 'Experience',
+  quote: 'Quote',
+  qr: 'QR Code',
+  branding: 'Branding'
+};
+
+// Card back text limits, shared by the form and imports
+export const MAX_BIO_LENGTH = 280;
+export const MAX_QUOTE_LENGTH = 120;
+export const MAX_TECH_STACK_TAGS = 8;
+export const MAX_TECH_STACK_TAG_LENGTH = 20;
+export const MAX_YEARS_OF_EXPERIENCE = 60;
+
+export const LAYOUT_SLOT_NAMES: Record<keyof CardLayout, string> = {
+  rating: 'Rating',
+  position: 'Position',
+  flag: 'Flag',
+  photo: 'Photo',
+  name: 'Name',
+  stats: 'Stats',
+  logo: 'Logo',
+  altPosition: 'Alt Position',
+  badges: 'Badges',
+  skillStars: 'Stars',
+  team: 'Team',
+  variant: 'Variant',
+  bestFit: 'Best Fit'
 };
 
 // Position display names
@@ -113,3 +379,47 @@ export const POSITION_NAMES: Record<ITPosition, string> = {
   'SEC': 'Security Engineer',
   'ARCH': 'Solutions Architect'
 };
+
+export const BUILT_IN_POSITIONS: PositionDefinition[] = (Object.keys(POSITION_NAMES) as ITPosition[])
+  .map(code => ({ code, name: POSITION_NAMES[code] }));
+
+export const MAX_POSITION_WEIGHT = 5;
+
+// Promo version of a card: a copy of a base card with boosted stats and a badge
+export interface CardVariant {
+  id: string;
+  name: string;
+  badge: string; // printed on the card
+  color: string; // badge background
+  textColor: string;
+  statBoost: number; // added to every stat, capped at the stat's maximum
+  templateId?: string; // template the variant switches to, the card's own when omitted
+}
+
+// Variant id -> stat boost, overriding the built-in boost
+export type VariantBoosts = Record<string, number>;
+
+export const MAX_VARIANT_BOOST = 20;
+
+export const CARD_VARIANTS: CardVariant[] = [
+  { id: 'rare', name: 'Rare', badge: 'RARE', color: '#facc15', textColor: '#1a1a1a', statBoost: 1 },
+  { id: 'inform', name: 'Inform', badge: 'IF', color: '#111827', textColor: '#ffd700', statBoost: 2, templateId: 'totw' },
+  { id: 'eotm', name: 'Employee of the Month', badge: 'EOTM', color: '#ffd700', textColor: '#1a1a1a', statBoost: 3, templateId: 'totw' },
+  { id: 'potm', name: 'Player of the Month', badge: 'POTM', color: '#2563eb', textColor: '#ffffff', statBoost: 4, templateId: 'totw' },
+  { id: 'hero', name: 'Hero', badge: 'HERO', color: '#7c3aed', textColor: '#ffffff', statBoost: 5, templateId: 'dark-mode-it' },
+  { id: 'icon', name: 'Icon', badge: 'ICON', color: '#f5f5f4', textColor: '#3d2c00', statBoost: 7, templateId: 'gold-classic' }
+];
+
+// Default overall rating weights per stat schema
+export const DEFAULT_RATING_PROFILES: Record<string, RatingProfiles> = {
+  [DEFAULT_STAT_SCHEMA_ID]: {
+    'DEV': { technical: 3, creativity: 2, reliability: 1.5 },
+    'OPS': { reliability: 3, technical: 2, adaptability: 1.5 },
+    'DATA': { technical: 2.5, creativity: 2, reliability: 1.5 },
+    'PM': { leadership: 3, collaboration: 2.5, adaptability: 1.5, technical: 0.5 },
+    'QA': { reliability: 3, technical: 1.5, collaboration: 1.5 },
+    'UX': { creativity: 3, collaboration: 2, adaptability: 1.5 },
+    'SEC': { reliability: 3, technical: 2.5, creativity: 0.5 },
+    'ARCH': { technical: 2.5, leadership: 2, creativity: 1.5 }
+  }
+};
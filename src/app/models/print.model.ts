@@ -0,0 +1,48 @@
+// Print shop output: finished card sizes, sheet sizes and the settings for a print-ready PDF
+
+export interface CardSize {
+  id: string;
+  name: string;
+  widthMm: number; // trim size, portrait
+  heightMm: number;
+}
+
+export interface PaperSize {
+  id: string;
+  name: string;
+  widthMm: number; // portrait
+  heightMm: number;
+}
+
+export const CARD_SIZES: CardSize[] = [
+  { id: 'trading', name: 'Trading card (63 × 88 mm)', widthMm: 63, heightMm: 88 },
+  { id: 'poker', name: 'Poker (2.5 × 3.5 in)', widthMm: 63.5, heightMm: 88.9 }
+];
+
+export const PAPER_SIZES: PaperSize[] = [
+  { id: 'a4', name: 'A4', widthMm: 210, heightMm: 297 },
+  { id: 'letter', name: 'US Letter', widthMm: 215.9, heightMm: 279.4 },
+  { id: 'a3', name: 'A3', widthMm: 297, heightMm: 420 }
+];
+
+export interface PrintProfile {
+  cardSizeId: string;
+  paperSizeId: string;
+  dpi: 300 | 600;
+  bleedMm: number; // artwork extended past the trim line on every side
+  gutterMm: number; // space between trims; 0 puts cards edge to edge with shared cut lines
+  cropMarks: boolean;
+  duplex: boolean; // a card back page after every front page
+  cmykSafe: boolean; // pull colors a CMYK press cannot reproduce into printable range
+}
+
+export const DEFAULT_PRINT_PROFILE: PrintProfile = {
+  cardSizeId: 'trading',
+  paperSizeId: 'a4',
+  dpi: 300,
+  bleedMm: 3,
+  gutterMm: 0,
+  cropMarks: true,
+  duplex: false,
+  cmykSafe: true
+};
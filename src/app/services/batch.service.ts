@@ -1,11 +1,20 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
 import * as JSZip from 'jszip';
-import { PlayerData, PlayerStats, ITPosition } from '../models/player.model';
+import { LogoEntry, PlayerData, PlayerStats, StatDefinition, StatSchema } from '../models/player.model';
+import { ImportSource, IMPORT_FIELD_ALIASES, ImportField, ImportMapping, ImportPreviewRow, PhotoMatch, STAT_FIELD_PREFIX } from '../models/import.model';
+import { CsvDelimiter, decodeText, detectDelimiter, parseCSV, toCSV } from '../utils/csv';
+import { SpreadsheetSheet, readWorkbook, writeXlsx } from '../utils/spreadsheet';
+import { isImageSource, nameTokens, photoBaseName, scorePhotoMatch } from '../utils/photo-match';
+import { isRecord } from '../utils/guards';
 import { CardService } from './card.service';
+import { ExportService } from './export.service';
+import { ImageService } from './image.service';
+import { ProjectService } from './project.service';
 
-interface BatchImportResult {
+export interface BatchImportResult {
   success: PlayerData[];
+  updated: number; // cards whose id matched an existing batch or project card
   errors: { row: number; message: string; data?: any }[];
   warnings: { row: number; message: string; data?: any }[];
 }
@@ -13,10 +22,39 @@ interface BatchImportResult {
 interface BatchProgress {
   current: number;
   total: number;
-  status: 'idle' | 'processing' | 'completed' | 'error';
+  status: 'idle' | 'processing' | 'completed' | 'cancelled' | 'error';
   message: string;
 }
 
+interface BatchExportResult {
+  zip: Blob | null; // null when the export was cancelled
+  exported: number;
+  failed: { name: string; message: string }[];
+  cancelled: boolean;
+}
+
+// Fuzzy photo matching: scores are 0..1 (see scorePhotoMatch). A best score at or above
+// PHOTO_MATCH_SCORE and clear of the runner-up by PHOTO_MATCH_MARGIN is taken as the match.
+const PHOTO_MATCH_SCORE = 0.85;
+const PHOTO_MATCH_MARGIN = 0.1;
+const PHOTO_CANDIDATE_SCORE = 0.6;
+const MAX_PHOTO_CANDIDATES = 5;
+
+// Card fields read from a JSON import, with the other spellings accepted for some
+type JsonCard = Partial<Record<
+  'id' | 'name' | 'position' | 'nationality' | 'rating' | 'stats' | 'statSchemaId' | 'templateId' | 'theme' | 'backgroundTheme' |
+  'profilePhoto' | 'photo' | 'customLogo' | 'logo' | 'team' | 'squad' | 'seniority' | 'startDate' | 'weakFoot' | 'skillMoves' |
+  'alternativePosition' | 'altPosition' | 'bio' | 'techStack' | 'skills' | 'yearsOfExperience' | 'favoriteQuote' | 'quote' |
+  'profileUrl' | 'createdAt',
+  unknown
+>>;
+
+// Optional card fields an import column can clear by leaving its cell blank
+const CLEARABLE_IMPORT_FIELDS: (keyof PlayerData)[] = [
+  'profilePhoto', 'customLogo', 'team', 'seniority', 'startDate', 'skillMoves', 'weakFoot', 'alternativePosition',
+  'bio', 'techStack', 'yearsOfExperience', 'favoriteQuote', 'profileUrl'
+];
+
 @Injectable({
   providedIn: 'root'
 })
@@ -30,92 +68,162 @@ export class BatchService {
 
   private batchCardsSubject = new BehaviorSubject<PlayerData[]>([]);
   private photoLibrarySubject = new BehaviorSubject<Map<string, string>>(new Map());
+  private photoHints = new Map<string, string>(); // batch card id -> photo file named in the import
 
   public batchProgress$ = this.batchProgressSubject.asObservable();
   public batchCards$ = this.batchCardsSubject.asObservable();
   public photoLibrary$ = this.photoLibrarySubject.asObservable();
 
-  constructor(private cardService: CardService) {}
+  private exportCancelRequested = false;
 
-  // CSV Import
-  async importFromCSV(file: File): Promise<BatchImportResult> {
-    this.updateProgress(0, 0, 'processing', 'Reading CSV file...');
+  constructor(
+    private cardService: CardService,
+    private exportService: ExportService,
+    private imageService: ImageService,
+    private projectService: ProjectService
+  ) {}
 
-    try {
-      const text = await file.text();
-      const lines = text.split('\n').filter(line => line.trim());
-      
-      if (lines.length === 0) {
-        throw new Error('Empty CSV file');
-      }
+  // Tabular import (CSV, XLSX, ODS): read the file into rows; mapping happens separately
+  async readImportFile(file: File): Promise<ImportSource> {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (extension === 'xlsx' || extension === 'ods') {
+      return this.readSpreadsheet(file, extension);
+    }
+    return this.readCSV(file);
+  }
 
-      // Parse header
-      const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-      const requiredFields = ['name', 'position', 'nationality'];
-      const statFields = ['technical', 'leadership', 'creativity', 'reliability', 'collaboration', 'adaptability'];
-      
-      // Validate headers
-      const missingRequired = requiredFields.filter(field => !headers.includes(field));
-      if (missingRequired.length > 0) {
-        throw new Error(`Missing required columns: ${missingRequired.join(', ')}`);
-      }
+  // CSV: decode and detect the delimiter
+  async readCSV(file: File): Promise<ImportSource> {
+    const { text, encoding } = decodeText(await file.arrayBuffer());
+    return this.parseCSVSource(file.name, text, encoding);
+  }
 
-      const result: BatchImportResult = {
-        success: [],
-        errors: [],
-        warnings: []
-      };
+  parseCSVSource(fileName: string, text: string, encoding: string, delimiter: CsvDelimiter = detectDelimiter(text)): ImportSource {
+    const [headerRow = [], ...rows] = parseCSV(text, delimiter);
+    const headers = headerRow.map(header => header.trim());
+    if (headers.length === 0) {
+      throw new Error('Empty CSV file');
+    }
+    return { fileName, format: 'csv', text, encoding, delimiter, headers, rows };
+  }
 
-      // Process data rows
-      for (let i = 1; i < lines.length; i++) {
-        this.updateProgress(i, lines.length - 1, 'processing', `Processing row ${i}...`);
-        
-        try {
-          const values = this.parseCSVLine(lines[i]);
-          if (values.length === 0) continue; // Skip empty lines
+  // Workbooks: every sheet is read up front, the first one with data is selected
+  async readSpreadsheet(file: File, format: 'xlsx' | 'ods'): Promise<ImportSource> {
+    const sheets = await readWorkbook(await file.arrayBuffer(), format);
+    if (sheets.length === 0) {
+      throw new Error('The workbook has no sheets with data');
+    }
+    return this.selectSheet({ fileName: file.name, format, headers: [], rows: [], sheets }, sheets[0].name);
+  }
 
-          const playerData = this.parsePlayerDataFromCSV(headers, values, i);
-          
-          // Validate the player data
-          const validation = this.validatePlayerData(playerData);
-          if (!validation.isValid) {
-            result.errors.push({
-              row: i,
-              message: validation.errors.join(', '),
-              data: values
-            });
-            continue;
-          }
+  selectSheet(source: ImportSource, sheetName: string): ImportSource {
+    const sheet: SpreadsheetSheet | undefined = source.sheets?.find(candidate => candidate.name === sheetName);
+    if (!sheet) {
+      throw new Error(`Sheet ${sheetName} not found`);
+    }
+    const [headerRow, ...rows] = sheet.rows;
+    return { ...source, sheetName, headers: headerRow.map(header => header.trim()), rows };
+  }
 
-          // Add warnings if any
-          if (validation.warnings.length > 0) {
-            result.warnings.push({
-              row: i,
-              message: validation.warnings.join(', '),
-              data: playerData
-            });
-          }
+  // Fields a column can be mapped to, including one per stat of the schema
+  getImportFields(schema: StatSchema = this.cardService.getActiveStatSchema()): ImportField[] {
+    return [
+      { key: 'id', label: 'Card ID' },
+      { key: 'name', label: 'Name', required: true },
+      { key: 'position', label: 'Position', required: true },
+      { key: 'nationality', label: 'Nationality', required: true },
+      { key: 'rating', label: 'Rating' },
+      { key: 'manualRating', label: 'Manual Rating' },
+      { key: 'theme', label: 'Template' },
+      { key: 'statSchemaId', label: 'Stat Schema' },
+      { key: 'profilePhoto', label: 'Photo (URL or file)' },
+      { key: 'customLogo', label: 'Logo (URL or library name)' },
+      { key: 'team', label: 'Team / Department' },
+      { key: 'seniority', label: 'Seniority' },
+      { key: 'startDate', label: 'Start Date' },
+      { key: 'skillMoves', label: 'Skill Moves (1-5)' },
+      { key: 'weakFoot', label: 'Weak Foot (1-5)' },
+      { key: 'alternativePosition', label: 'Alternative Position' },
+      { key: 'bio', label: 'Bio' },
+      { key: 'techStack', label: 'Tech Stack (comma separated)' },
+      { key: 'yearsOfExperience', label: 'Years of Experience' },
+      { key: 'favoriteQuote', label: 'Favorite Quote' },
+      { key: 'profileUrl', label: 'Profile URL (QR code)' },
+      ...schema.stats.map(stat => ({ key: STAT_FIELD_PREFIX + stat.key, label: stat.label }))
+    ];
+  }
 
-          result.success.push(playerData);
-        } catch (error) {
-          result.errors.push({
-            row: i,
-            message: error instanceof Error ? error.message : 'Unknown error',
-            data: lines[i]
-          });
-        }
-      }
+  // Match headers by field alias, or by stat key, abbreviation or label
+  suggestMapping(headers: string[], schema: StatSchema = this.cardService.getActiveStatSchema()): ImportMapping {
+    const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+    const byName = new Map(headers.map(header => [normalize(header), header]));
+    const mapping: ImportMapping = {};
 
-      // Update batch cards
-      this.batchCardsSubject.next(result.success);
-      this.updateProgress(result.success.length, result.success.length, 'completed', 
-        `Imported ${result.success.length} cards successfully`);
+    Object.entries(IMPORT_FIELD_ALIASES).forEach(([field, aliases]) => {
+      const alias = aliases.find(candidate => byName.has(candidate));
+      if (alias) mapping[field] = byName.get(alias)!;
+    });
+    schema.stats.forEach(stat => {
+      const alias = [stat.key, stat.abbreviation, stat.label].map(normalize).find(candidate => byName.has(candidate));
+      if (alias) mapping[STAT_FIELD_PREFIX + stat.key] = byName.get(alias)!;
+    });
 
-      return result;
-    } catch (error) {
-      this.updateProgress(0, 0, 'error', error instanceof Error ? error.message : 'Import failed');
-      throw error;
+    return mapping;
+  }
+
+  // Map and validate the first rows without touching the batch
+  previewImport(source: ImportSource, mapping: ImportMapping, limit: number = 5): ImportPreviewRow[] {
+    const schema = this.cardService.getActiveStatSchema();
+    return source.rows.slice(0, limit).map((values, index) => this.mapRow(source.headers, values, index + 1, mapping, schema));
+  }
+
+  async importMapped(source: ImportSource, mapping: ImportMapping): Promise<BatchImportResult> {
+    const schema = this.cardService.getActiveStatSchema();
+    const missingRequired = this.getImportFields(schema).filter(field => field.required && !mapping[field.key]);
+    if (missingRequired.length > 0) {
+      throw new Error(`Map the required fields: ${missingRequired.map(field => field.label).join(', ')}`);
     }
+
+    const result: BatchImportResult = {
+      success: [],
+      updated: 0,
+      errors: [],
+      warnings: []
+    };
+
+    // Unmapped stats fall back to the schema defaults
+    const missingStats = schema.stats.filter(stat => !mapping[STAT_FIELD_PREFIX + stat.key]);
+    if (missingStats.length > 0) {
+      result.warnings.push({
+        row: 0,
+        message: `No column for ${missingStats.map(stat => stat.label).join(', ')}, default values used`,
+        data: source.headers
+      });
+    }
+
+    const photoHints = new Map<string, string>();
+    source.rows.forEach((values, index) => {
+      const row = index + 1;
+      this.updateProgress(row, source.rows.length, 'processing', `Processing row ${row}...`);
+
+      const preview = this.mapRow(source.headers, values, row, mapping, schema);
+      if (!preview.data || preview.errors.length > 0) {
+        result.errors.push({ row, message: preview.errors.join(', '), data: values });
+        return;
+      }
+      if (preview.warnings.length > 0) {
+        result.warnings.push({ row, message: preview.warnings.join(', '), data: preview.data });
+      }
+      result.success.push(preview.data);
+      if (preview.photoHint) photoHints.set(preview.data.id!, preview.photoHint);
+    });
+
+    this.warnAboutPhotoHints(result, photoHints);
+    result.updated = await this.setImportedCards(result.success, photoHints);
+    this.updateProgress(result.success.length, result.success.length, 'completed',
+      `Imported ${result.success.length} cards successfully`);
+
+    return result;
   }
 
   // JSON Import
@@ -124,33 +232,37 @@ export class BatchService {
 
     try {
       const text = await file.text();
-      const jsonData = JSON.parse(text);
+      const jsonData: unknown = JSON.parse(text);
 
-      let playersArray: any[];
+      let playersArray: unknown[];
       
       // Handle different JSON structures
       if (Array.isArray(jsonData)) {
         playersArray = jsonData;
-      } else if (jsonData.cards && Array.isArray(jsonData.cards)) {
-        playersArray = jsonData.cards;
-      } else if (jsonData.players && Array.isArray(jsonData.players)) {
-        playersArray = jsonData.players;
+      } else if (isRecord(jsonData) && Array.isArray(jsonData['cards'])) {
+        playersArray = jsonData['cards'];
+      } else if (isRecord(jsonData) && Array.isArray(jsonData['players'])) {
+        playersArray = jsonData['players'];
       } else {
         throw new Error('Invalid JSON structure. Expected array or object with "cards"/"players" property');
       }
 
       const result: BatchImportResult = {
         success: [],
+        updated: 0,
         errors: [],
         warnings: []
       };
 
+      const schema = this.cardService.getActiveStatSchema();
+      const photoHints = new Map<string, string>();
+
       // Process each player
       for (let i = 0; i < playersArray.length; i++) {
         this.updateProgress(i, playersArray.length, 'processing', `Processing item ${i + 1}...`);
 
         try {
-          const playerData = this.parsePlayerDataFromJSON(playersArray[i], i);
+          const { playerData, photoHint } = this.parsePlayerDataFromJSON(playersArray[i], i, schema);
           
           const validation = this.validatePlayerData(playerData);
           if (!validation.isValid) {
@@ -171,6 +283,7 @@ export class BatchService {
           }
 
           result.success.push(playerData);
+          if (photoHint) photoHints.set(playerData.id!, photoHint);
         } catch (error) {
           result.errors.push({
             row: i + 1,
@@ -180,7 +293,8 @@ export class BatchService {
         }
       }
 
-      this.batchCardsSubject.next(result.success);
+      this.warnAboutPhotoHints(result, photoHints);
+      result.updated = await this.setImportedCards(result.success, photoHints);
       this.updateProgress(result.success.length, result.success.length, 'completed',
         `Imported ${result.success.length} cards successfully`);
 
@@ -191,40 +305,38 @@ export class BatchService {
     }
   }
 
-  // Photo ZIP Import
+  // Photo ZIP Import: every photo goes through the shared image pipeline (upright,
+  // metadata stripped, resized) and identical photos are stored once
   async importPhotoLibrary(file: File): Promise<Map<string, string>> {
     this.updateProgress(0, 0, 'processing', 'Extracting photos from ZIP...');
 
     try {
-      const zip = new JSZip();
-      const zipContent = await zip.loadAsync(file);
-      const photoMap = new Map<string, string>();
+      const zipContent = await JSZip.loadAsync(file);
 
-      const imageFiles = Object.keys(zipContent.files).filter(filename => 
-        /\.(jpg|jpeg|png|gif|webp)$/i.test(filename) && !zipContent.files[filename].dir
+      // Skip macOS resource forks and other hidden files
+      const imageFiles = Object.keys(zipContent.files).filter(filename =>
+        /\.(jpg|jpeg|png|gif|webp)$/i.test(filename) && !zipContent.files[filename].dir &&
+        !filename.startsWith('__MACOSX/') && !photoBaseName(filename).startsWith('.')
       );
 
-      for (let i = 0; i < imageFiles.length; i++) {
-        this.updateProgress(i, imageFiles.length, 'processing', `Processing ${imageFiles[i]}...`);
+      const result = await this.imageService.processMany(
+        imageFiles.map(filename => ({ fileName: filename, read: () => zipContent.files[filename].async('blob') })),
+        progress => this.updateProgress(progress.current, progress.total, 'processing',
+          `Processing ${progress.fileName} (${progress.current + 1}/${progress.total})...`)
+      );
+      result.failed.forEach(failure => console.warn(`Failed to process photo ${failure.fileName}:`, failure.message));
 
-        const filename = imageFiles[i];
-        const file = zipContent.files[filename];
-        
-        try {
-          const blob = await file.async('blob');
-          const base64 = await this.blobToBase64(blob);
-          
-          // Use filename without extension as key
-          const key = filename.replace(/\.[^/.]+$/, '').toLowerCase();
-          photoMap.set(key, base64);
-        } catch (error) {
-          console.warn(`Failed to process photo ${filename}:`, error);
-        }
-      }
+      // Keyed by path in the ZIP; matching looks at file and folder names
+      const photoMap = new Map<string, string>();
+      result.images.forEach((image, filename) => photoMap.set(filename.replace(/^\.\//, ''), image.dataUrl));
 
       this.photoLibrarySubject.next(photoMap);
+      const notes = [
+        result.duplicates > 0 ? `${result.duplicates} duplicates` : '',
+        result.failed.length > 0 ? `${result.failed.length} could not be read` : ''
+      ].filter(Boolean);
       this.updateProgress(photoMap.size, photoMap.size, 'completed',
-        `Loaded ${photoMap.size} photos`);
+        `Loaded ${photoMap.size} photos${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`);
 
       return photoMap;
     } catch (error) {
@@ -233,37 +345,198 @@ export class BatchService {
     }
   }
 
-  // Match photos to players by name
-  matchPhotosToPlayers(): void {
-    const cards = this.batchCardsSubject.value;
+  // Find a photo for every batch card that has none yet: the file named in its photo
+  // column first, then a file named after the card id, then the best fuzzy name match.
+  // Nothing is applied until applyPhotoMatches.
+  matchPhotosToPlayers(): PhotoMatch[] {
+    const photos = [...this.photoLibrarySubject.value.keys()];
+    const fileKey = (path: string) => photoBaseName(path).toLowerCase();
+
+    const matches = this.batchCardsSubject.value
+      .filter(card => !card.profilePhoto || !isImageSource(card.profilePhoto))
+      .map((card): PhotoMatch => {
+        const photoHint = this.photoHints.get(card.id!) || card.profilePhoto;
+        const match: PhotoMatch = { cardId: card.id!, cardName: card.name, status: 'unmatched', candidates: [], photoHint };
+
+        const named = photoHint?.replace(/\\/g, '/').toLowerCase();
+        const fromColumn = named && (photos.find(path => path.toLowerCase() === named || path.toLowerCase().endsWith(`/${named}`))
+          || photos.find(path => fileKey(path) === fileKey(named)));
+        const fromId = card.id && photos.find(path => fileKey(path) === card.id!.toLowerCase());
+        if (fromColumn || fromId) {
+          return { ...match, status: 'matched', photo: (fromColumn || fromId) as string, reason: fromColumn ? 'column' : 'id' };
+        }
+
+        match.candidates = photos
+          .map(photo => ({ photo, score: scorePhotoMatch(card.name, photo) }))
+          .filter(candidate => candidate.score >= PHOTO_CANDIDATE_SCORE)
+          .sort((a, b) => b.score - a.score)
+          .slice(0, MAX_PHOTO_CANDIDATES);
+
+        const [best, runnerUp] = match.candidates;
+        if (best && best.score >= PHOTO_MATCH_SCORE && (!runnerUp || best.score - runnerUp.score >= PHOTO_MATCH_MARGIN)) {
+          return { ...match, status: 'matched', photo: best.photo, reason: 'name' };
+        }
+        return { ...match, status: best ? 'ambiguous' : 'unmatched' };
+      });
+
+    // A photo picked by name for two players, or already claimed by a column/id match, needs a decision
+    const claims = new Map<string, PhotoMatch[]>();
+    matches.filter(match => match.photo).forEach(match => claims.set(match.photo!, [...(claims.get(match.photo!) || []), match]));
+    claims.forEach((claimants, photo) => {
+      if (claimants.length < 2) return;
+      const explicit = claimants.some(match => match.reason !== 'name');
+      claimants
+        .filter(match => match.reason === 'name')
+        .forEach(match => {
+          match.status = 'ambiguous';
+          match.photo = undefined;
+          match.reason = undefined;
+          if (explicit) match.candidates = match.candidates.filter(candidate => candidate.photo !== photo);
+        });
+    });
+
+    return matches;
+  }
+
+  // Set the chosen library photo (card id -> photo path) on each batch card; returns how many changed
+  applyPhotoMatches(assignments: Record<string, string>): number {
     const photos = this.photoLibrarySubject.value;
+    let applied = 0;
 
-    const updatedCards = cards.map(card => {
-      if (!card.profilePhoto) {
-        const key = card.name.toLowerCase().replace(/\s+/g, '_');
-        const photo = photos.get(key);
-        if (photo) {
-          return { ...card, profilePhoto: photo };
+    this.batchCardsSubject.next(this.batchCardsSubject.value.map(card => {
+      const photo = card.id ? photos.get(assignments[card.id]) : undefined;
+      if (!photo) return card;
+      applied++;
+      return { ...card, profilePhoto: photo, originalPhoto: undefined, photoCrop: undefined };
+    }));
+
+    return applied;
+  }
+
+  // Render every batch card, front and back, and bundle PNGs, contact sheet and project JSON into one ZIP
+  async renderAndExportAll(options: { customBranding?: string; duplex?: boolean } = {}): Promise<BatchExportResult> {
+    const cards = this.batchCardsSubject.value;
+    const rendered: { playerData: PlayerData; pngData: string; backPngData: string }[] = [];
+    const failed: BatchExportResult['failed'] = [];
+
+    this.exportCancelRequested = false;
+    this.updateProgress(0, cards.length, 'processing', 'Preparing batch export...');
+
+    try {
+      for (let i = 0; i < cards.length; i++) {
+        if (this.exportCancelRequested) {
+          this.updateProgress(i, cards.length, 'cancelled', `Export cancelled after ${i} cards`);
+          return { zip: null, exported: rendered.length, failed, cancelled: true };
+        }
+
+        this.updateProgress(i, cards.length, 'processing', `Rendering ${cards[i].name} (${i + 1}/${cards.length})...`);
+
+        try {
+          const template = this.cardService.getTemplateForPlayer(cards[i]);
+          const pngData = await this.exportService.exportCardAsPNG(cards[i], template, 'transparent');
+          const backPngData = await this.exportService.exportCardBackAsPNG(cards[i], template, 'transparent');
+          rendered.push({ playerData: cards[i], pngData, backPngData });
+        } catch (error) {
+          console.warn(`Failed to render card ${cards[i].name}:`, error);
+          failed.push({
+            name: cards[i].name,
+            message: error instanceof Error ? error.message : 'Render failed'
+          });
         }
       }
-      return card;
-    });
 
-    this.batchCardsSubject.next(updatedCards);
+      if (rendered.length === 0) {
+        throw new Error('No cards could be rendered');
+      }
+
+      this.updateProgress(cards.length, cards.length, 'processing', 'Building PDF contact sheet...');
+      const pdfData = await this.exportService.generatePDFContactSheet(
+        rendered.map(card => ({ playerData: card.playerData, imageDataUrl: card.pngData, backImageDataUrl: card.backPngData })),
+        { includeWatermark: !!options.customBranding, customBranding: options.customBranding, duplex: options.duplex }
+      );
+
+      if (this.exportCancelRequested) {
+        this.updateProgress(cards.length, cards.length, 'cancelled', 'Export cancelled');
+        return { zip: null, exported: rendered.length, failed, cancelled: true };
+      }
+
+      this.updateProgress(cards.length, cards.length, 'processing', 'Compressing ZIP archive...');
+      const zip = await this.exportService.createBatchExportZip(rendered, pdfData, { includeJSON: true });
+
+      this.updateProgress(cards.length, cards.length, 'completed',
+        `Exported ${rendered.length} cards` + (failed.length > 0 ? ` (${failed.length} failed)` : ''));
+
+      return { zip, exported: rendered.length, failed, cancelled: false };
+    } catch (error) {
+      this.updateProgress(0, 0, 'error', error instanceof Error ? error.message : 'Batch export failed');
+      throw error;
+    }
   }
 
-  // Generate example CSV template
-  generateCSVTemplate(): string {
+  cancelBatchExport(): void {
+    this.exportCancelRequested = true;
+  }
+
+  // Round-trip export: every card field with stable ids, so an edited file re-imports as updates.
+  // Embedded (data URL) images are left out, re-imported cards keep their current ones;
+  // library logos are written by name.
+  async exportCards(cards: PlayerData[], format: 'csv' | 'xlsx', sheetName: string = 'Cards'): Promise<Blob> {
+    const statKeys = [...new Set(cards.flatMap(card => this.cardService.getStatSchemaForPlayer(card).stats.map(stat => stat.key)))];
     const headers = [
-      'name', 'position', 'nationality', 'rating', 'theme',
-      'technical', 'leadership', 'creativity', 'reliability', 'collaboration', 'adaptability'
+      'id', 'name', 'position', 'nationality', 'rating', 'manualRating', 'theme', 'statSchemaId',
+      ...statKeys,
+      'profilePhoto', 'customLogo', 'team', 'seniority', 'startDate', 'skillMoves', 'weakFoot', 'alternativePosition', 'bio', 'techStack', 'yearsOfExperience', 'favoriteQuote', 'profileUrl', 'createdAt', 'updatedAt'
     ];
+    const linkOnly = (value?: string) => value && !value.startsWith('data:') ? value : '';
+    const logos = this.projectService.getActiveProject()?.settings.logos || [];
+    const logoName = (value?: string) => logos.find(entry => entry.dataUrl === value)?.name || linkOnly(value);
+    const rows: (string | number)[][] = cards.map(card => [
+      card.id || '',
+      card.name,
+      card.position,
+      card.nationality,
+      card.rating,
+      card.manualRating ? 'true' : 'false',
+      card.templateId || card.backgroundTheme,
+      card.statSchemaId || '',
+      ...statKeys.map(key => card.stats[key] ?? ''),
+      linkOnly(card.profilePhoto),
+      logoName(card.customLogo),
+      card.team || '',
+      card.seniority || '',
+      card.startDate || '',
+      card.skillMoves ?? '',
+      card.weakFoot ?? '',
+      card.alternativePosition || '',
+      card.bio || '',
+      (card.techStack || []).join(', '),
+      card.yearsOfExperience ?? '',
+      card.favoriteQuote || '',
+      card.profileUrl || '',
+      new Date(card.createdAt || Date.now()).toISOString(),
+      new Date(card.updatedAt || Date.now()).toISOString()
+    ]);
+
+    if (format === 'xlsx') {
+      return writeXlsx(sheetName, [headers, ...rows]);
+    }
+    // BOM so Excel opens the file as UTF-8
+    return new Blob(['\ufeff' + toCSV([headers, ...rows])], { type: 'text/csv;charset=utf-8' });
+  }
+
+  // Generate example CSV template with one column per stat of the active schema
+  generateCSVTemplate(): string {
+    const schema = this.cardService.getActiveStatSchema();
+    const headers = ['name', 'position', 'nationality', 'rating', 'theme', ...schema.stats.map(stat => stat.key)];
 
     const examples = [
-      ['Larry Mota', 'DEV', 'FR', '85', 'gold-classic', '88', '82', '90', '85', '83', '87'],
-      ['Sarah Chen', 'DATA', 'US', '', 'dark-mode-it', '92', '78', '88', '90', '85', '82'],
-      ['Mike Johnson', 'OPS', 'GB', '', 'gold-classic', '85', '88', '75', '92', '80', '85']
-    ];
+      ['Larry Mota', 'DEV', 'FR', '85', 'gold-classic'],
+      ['Sarah Chen', 'DATA', 'US', '', 'dark-mode-it'],
+      ['Mike Johnson', 'OPS', 'GB', '', 'gold-classic']
+    ].map(row => {
+      const stats = this.cardService.randomizeStats(row[0], schema);
+      return [...row, ...schema.stats.map(stat => String(stats[stat.key]))];
+    });
 
     const csvContent = [
       headers.join(','),
@@ -277,6 +550,7 @@ export class BatchService {
   clearBatch(): void {
     this.batchCardsSubject.next([]);
     this.photoLibrarySubject.next(new Map());
+    this.photoHints = new Map();
     this.updateProgress(0, 0, 'idle', '');
   }
 
@@ -290,31 +564,62 @@ export class BatchService {
   }
 
   // Private helper methods
-  private parseCSVLine(line: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
+  // Imported cards replace the batch; an id that matches a card already in the batch
+  // or the active project updates that card. Fields the file has no column for are kept,
+  // a blank cell clears the field, except embedded images, which exports leave blank.
+  // Updates to project cards are saved to the project right away.
+  // New cards without a logo get the project's default logo.
+  private async setImportedCards(cards: PlayerData[], photoHints: Map<string, string>): Promise<number> {
+    const project = this.projectService.getActiveProject();
+    const projectIds = new Set((project?.cards || []).map(card => card.id));
+    const existing = new Map<string, PlayerData>();
+    [...(project?.cards || []), ...this.getCurrentBatch()]
+      .forEach(card => card.id && existing.set(card.id, card));
+
+    const settings = project?.settings;
+    const defaultLogo = settings?.logos?.find(entry => entry.id === settings.defaultLogoId)?.dataUrl;
+    const embedded = (value?: string) => value?.startsWith('data:') ? value : undefined;
+
+    let updated = 0;
+    const merged = cards.map(card => {
+      const previous = card.id ? existing.get(card.id) : undefined;
+      if (!previous) return { ...card, customLogo: card.customLogo || defaultLogo };
+
+      updated++;
+      return {
+        ...previous,
+        ...card,
+        profilePhoto: 'profilePhoto' in card ? card.profilePhoto || embedded(previous.profilePhoto) : previous.profilePhoto,
+        customLogo: 'customLogo' in card ? card.customLogo || embedded(previous.customLogo) : previous.customLogo,
+        createdAt: previous.createdAt
+      };
+    });
 
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
+    const projectUpdates = merged.filter(card => card.id && projectIds.has(card.id));
+    if (projectUpdates.length > 0) {
+      await this.projectService.upsertCards(projectUpdates, project!.id);
+    }
+
+    this.photoHints = photoHints;
+    this.batchCardsSubject.next(merged);
+    return updated;
+  }
+
+  // Photo files named in the import are only matched once a photo ZIP is loaded
+  private warnAboutPhotoHints(result: BatchImportResult, photoHints: Map<string, string>): void {
+    if (photoHints.size > 0 && this.photoLibrarySubject.value.size === 0) {
+      result.warnings.push({
+        row: 0,
+        message: `${photoHints.size} cards name a photo file, load the photo ZIP to match them`,
+        data: [...photoHints.values()]
+      });
     }
-    
-    result.push(current.trim());
-    return result;
   }
 
-  private parsePlayerDataFromCSV(headers: string[], values: string[], rowIndex: number): PlayerData {
+  // Build and validate one card from a data row using the column mapping
+  private mapRow(headers: string[], values: string[], rowIndex: number, mapping: ImportMapping, defaultSchema: StatSchema): ImportPreviewRow {
     const getValue = (field: string): string => {
-      const index = headers.indexOf(field);
+      const index = mapping[field] ? headers.indexOf(mapping[field]) : -1;
       return index >= 0 ? values[index]?.trim() || '' : '';
     };
 
@@ -324,58 +629,140 @@ export class BatchService {
       return !isNaN(parsed) ? Math.max(1, Math.min(99, parsed)) : defaultValue;
     };
 
-    // Build stats object
-    const stats: PlayerStats = {
-      technical: getNumericValue('technical', 75),
-      leadership: getNumericValue('leadership', 75),
-      creativity: getNumericValue('creativity', 75),
-      reliability: getNumericValue('reliability', 75),
-      collaboration: getNumericValue('collaboration', 75),
-      adaptability: getNumericValue('adaptability', 75)
-    };
+    try {
+      // Rows keep the schema they were exported with; its stat columns are found by name
+      // when the mapping was made for another schema
+      const schemaId = getValue('statSchemaId');
+      const rowSchema = schemaId ? this.cardService.getStatSchemas().find(candidate => candidate.id === schemaId) : defaultSchema;
+      const schema = rowSchema || defaultSchema;
+      const statMapping = schema.id !== defaultSchema.id ? { ...this.suggestMapping(headers, schema), ...mapping } : mapping;
+      const getStat = (stat: StatDefinition): string => {
+        const index = statMapping[STAT_FIELD_PREFIX + stat.key] ? headers.indexOf(statMapping[STAT_FIELD_PREFIX + stat.key]) : -1;
+        return index >= 0 ? values[index]?.trim() || '' : '';
+      };
 
-    const playerData: PlayerData = {
-      id: `batch_${rowIndex}_${Date.now()}`,
-      name: this.cardService.sanitizeInput(getValue('name'), 30),
-      position: this.validatePosition(getValue('position')),
-      nationality: getValue('nationality').toUpperCase().substring(0, 3),
-      rating: getNumericValue('rating', this.cardService.calculateOverallRating(stats)),
-      manualRating: getValue('rating') !== '',
-      stats,
-      backgroundTheme: this.validateTheme(getValue('theme')),
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
+      const stats: PlayerStats = Object.fromEntries(schema.stats.map(stat =>
+        [stat.key, this.clampStat(getStat(stat) || undefined, stat)]
+      ));
+
+      // Optional fields with a column start out cleared so a blank cell clears them on update
+      const cleared: Partial<PlayerData> = Object.fromEntries(CLEARABLE_IMPORT_FIELDS
+        .filter(field => mapping[field])
+        .map(field => [field, undefined]));
+
+      // Exported files say whether the rating was set by hand; otherwise any rating counts as manual
+      const manualRating = mapping['manualRating']
+        ? /^(true|yes|1|x)$/i.test(getValue('manualRating'))
+        : getValue('rating') !== '';
+      const position = this.normalizePosition(getValue('position'));
+      const logo = this.resolveLogo(getValue('customLogo'), getValue('team'));
+      // Only URLs are used as they are; a file name is kept to match against the photo ZIP
+      const photo = getValue('profilePhoto');
+      const photoUrl = isImageSource(photo) ? photo : '';
+      const playerData: PlayerData = {
+        ...cleared,
+        id: getValue('id') || `batch_${rowIndex}_${Date.now()}`,
+        name: this.cardService.sanitizeInput(getValue('name'), 30),
+        position,
+        nationality: getValue('nationality').toUpperCase().substring(0, 3),
+        rating: manualRating
+          ? getNumericValue('rating', this.cardService.calculateOverallRating(stats, schema, position))
+          : this.cardService.calculateOverallRating(stats, schema, position),
+        manualRating,
+        stats,
+        statSchemaId: schema.id,
+        ...this.resolveTemplate(getValue('theme')),
+        ...(photoUrl ? { profilePhoto: photoUrl } : {}),
+        ...(logo.dataUrl ? { customLogo: logo.dataUrl } : {}),
+        ...this.cardService.parseProfile({
+          seniority: getValue('seniority'),
+          team: getValue('team'),
+          startDate: getValue('startDate'),
+          weakFoot: getValue('weakFoot'),
+          skillMoves: getValue('skillMoves'),
+          alternativePosition: getValue('alternativePosition')
+        }),
+        ...this.cardService.parseCardBack({
+          bio: getValue('bio'),
+          techStack: getValue('techStack'),
+          yearsOfExperience: getValue('yearsOfExperience'),
+          favoriteQuote: getValue('favoriteQuote'),
+          profileUrl: getValue('profileUrl')
+        }),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
 
-    return playerData;
+      const validation = this.validatePlayerData(playerData);
+      const warnings = [
+        ...validation.warnings,
+        ...(logo.warning ? [logo.warning] : []),
+        ...(rowSchema ? [] : [`Unknown stat schema ${schemaId}, ${schema.name} used`])
+      ];
+      return { row: rowIndex, data: playerData, errors: validation.errors, warnings, photoHint: photoUrl ? undefined : photo || undefined };
+    } catch (error) {
+      return { row: rowIndex, data: null, errors: [error instanceof Error ? error.message : 'Unknown error'], warnings: [] };
+    }
   }
 
-  private parsePlayerDataFromJSON(jsonItem: any, index: number): PlayerData {
-    const stats: PlayerStats = {
-      technical: this.clampStat(jsonItem.technical || jsonItem.stats?.technical || 75),
-      leadership: this.clampStat(jsonItem.leadership || jsonItem.stats?.leadership || 75),
-      creativity: this.clampStat(jsonItem.creativity || jsonItem.stats?.creativity || 75),
-      reliability: this.clampStat(jsonItem.reliability || jsonItem.stats?.reliability || 75),
-      collaboration: this.clampStat(jsonItem.collaboration || jsonItem.stats?.collaboration || 75),
-      adaptability: this.clampStat(jsonItem.adaptability || jsonItem.stats?.adaptability || 75)
-    };
+  private parsePlayerDataFromJSON(item: unknown, index: number, defaultSchema: StatSchema): { playerData: PlayerData; photoHint?: string } {
+    if (!isRecord(item)) {
+      throw new Error('Expected an object for each card');
+    }
+    const card: JsonCard = item;
+    // First of the fields holding non-empty text or a number, as text
+    const text = (...fields: (keyof JsonCard)[]): string => fields
+      .map(field => card[field])
+      .map(value => typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '')
+      .find(Boolean) || '';
+
+    // Stats may sit at the top level or under `stats`, keyed by key or abbreviation in any case
+    const fields = new Map<string, unknown>();
+    [item, isRecord(card.stats) ? card.stats : {}].forEach(source =>
+      Object.entries(source).forEach(([field, value]) => fields.set(field.toLowerCase(), value))
+    );
+    const schema = this.cardService.getStatSchemas().find(candidate => candidate.id === card.statSchemaId) || defaultSchema;
+    const stats = this.readStats(schema, field => fields.get(field));
+    const position = this.normalizePosition(text('position'));
+    const rating = text('rating');
+    // Only URLs are used as they are; a file name is kept to match against the photo ZIP
+    const photo = text('profilePhoto', 'photo');
+    const photoUrl = isImageSource(photo) ? photo : '';
+    const logo = this.resolveLogo(text('customLogo', 'logo'), text('team')).dataUrl;
+    const createdAt = typeof card.createdAt === 'string' || typeof card.createdAt === 'number' ? card.createdAt : Date.now();
 
     const playerData: PlayerData = {
-      id: jsonItem.id || `batch_json_${index}_${Date.now()}`,
-      name: this.cardService.sanitizeInput(jsonItem.name || '', 30),
-      position: this.validatePosition(jsonItem.position),
-      nationality: (jsonItem.nationality || '').toUpperCase().substring(0, 3),
-      rating: jsonItem.rating ? this.clampStat(jsonItem.rating) : this.cardService.calculateOverallRating(stats),
-      manualRating: !!jsonItem.rating,
+      id: text('id') || `batch_json_${index}_${Date.now()}`,
+      name: this.cardService.sanitizeInput(text('name'), 30),
+      position,
+      nationality: text('nationality').toUpperCase().substring(0, 3),
+      rating: rating ? this.clampStat(rating) : this.cardService.calculateOverallRating(stats, schema, position),
+      manualRating: !!rating,
       stats,
-      backgroundTheme: this.validateTheme(jsonItem.theme || jsonItem.backgroundTheme),
-      profilePhoto: jsonItem.profilePhoto || jsonItem.photo,
-      customLogo: jsonItem.customLogo || jsonItem.logo,
-      createdAt: new Date(jsonItem.createdAt || Date.now()),
+      statSchemaId: schema.id,
+      ...this.resolveTemplate(text('templateId', 'theme', 'backgroundTheme')),
+      ...(photoUrl ? { profilePhoto: photoUrl } : {}),
+      ...(logo ? { customLogo: logo } : {}),
+      ...this.cardService.parseProfile({
+        seniority: card.seniority,
+        team: card.team || card.squad,
+        startDate: card.startDate,
+        weakFoot: card.weakFoot,
+        skillMoves: card.skillMoves,
+        alternativePosition: card.alternativePosition || card.altPosition
+      }),
+      ...this.cardService.parseCardBack({
+        bio: card.bio,
+        techStack: card.techStack || card.skills,
+        yearsOfExperience: card.yearsOfExperience,
+        favoriteQuote: card.favoriteQuote || card.quote,
+        profileUrl: card.profileUrl
+      }),
+      createdAt: new Date(createdAt),
       updatedAt: new Date()
     };
 
-    return playerData;
+    return { playerData, photoHint: photoUrl ? undefined : photo || undefined };
   }
 
   private validatePlayerData(playerData: PlayerData): { isValid: boolean; errors: string[]; warnings: string[] } {
@@ -394,6 +781,12 @@ export class BatchService {
     }
 
     // Warnings for potentially incorrect data
+    if (playerData.position && !this.cardService.getPosition(playerData.position)) {
+      warnings.push(`Unknown position ${playerData.position}, add it to the project's positions to rate it by position`);
+    }
+    if (playerData.alternativePosition && !this.cardService.getPosition(playerData.alternativePosition)) {
+      warnings.push(`Unknown alternative position ${playerData.alternativePosition}`);
+    }
     if (playerData.name.length > 25) {
       warnings.push('Name is quite long and may not display well');
     }
@@ -411,32 +804,57 @@ export class BatchService {
     };
   }
 
-  private validatePosition(position: string): ITPosition {
-    const validPositions: ITPosition[] = ['DEV', 'OPS', 'DATA', 'PM', 'QA', 'UX', 'SEC', 'ARCH'];
-    const upperPosition = position?.toUpperCase() as ITPosition;
-    return validPositions.includes(upperPosition) ? upperPosition : 'DEV';
+  // Unknown codes are kept as written and reported by validatePlayerData
+  private normalizePosition(position: string): string {
+    return String(position || '').trim().toUpperCase() || 'DEV';
   }
 
-  private validateTheme(theme: string): any {
-    const validThemes = ['gold-classic', 'dark-mode-it', 'silver-modern', 'bronze-vintage'];
-    return validThemes.includes(theme) ? theme : 'gold-classic';
+  // Logo cell: an image URL is used as is, anything else names a library logo, as does
+  // the team column. Cards left without a logo get the project default in setImportedCards.
+  private resolveLogo(logo: string, team: string): { dataUrl?: string; warning?: string } {
+    if (logo && isImageSource(logo)) {
+      return { dataUrl: logo };
+    }
+
+    const entry = this.findLibraryLogo(logo) || this.findLibraryLogo(team);
+    if (entry) {
+      return { dataUrl: entry.dataUrl };
+    }
+    return logo ? { warning: `Logo "${logo}" is not in the project's logo library` } : {};
   }
 
-  private clampStat(value: any): number {
-    const parsed = parseInt(value, 10);
-    return !isNaN(parsed) ? Math.max(1, Math.min(99, parsed)) : 75;
+  private findLibraryLogo(name: string): LogoEntry | undefined {
+    const key = nameTokens(name).join(' ');
+    if (!key) return undefined;
+    return this.projectService.getActiveProject()?.settings.logos?.find(entry => nameTokens(entry.name).join(' ') === key);
   }
 
-  private blobToBase64(blob: Blob): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
-    });
+  // Match a template by id or display name, falling back to the project's default
+  private resolveTemplate(theme: string): Pick<PlayerData, 'backgroundTheme' | 'templateId'> {
+    const value = (theme || '').trim().toLowerCase();
+    const template = this.cardService.getAvailableTemplates().find(t =>
+      t.id.toLowerCase() === value || t.displayName.toLowerCase() === value
+    );
+    const projectDefault = this.projectService.getActiveProject()?.settings.defaultTemplate;
+    return this.cardService.getTemplateSelection(template?.id || projectDefault || 'gold-classic');
+  }
+
+  // Read each schema stat by key, then by abbreviation; `read` receives lowercase field names
+  private readStats(schema: StatSchema, read: (field: string) => unknown): PlayerStats {
+    return Object.fromEntries(schema.stats.map(stat => [
+      stat.key,
+      this.clampStat(read(stat.key.toLowerCase()) ?? read(stat.abbreviation.toLowerCase()), stat)
+    ]));
+  }
+
+  private clampStat(value: unknown, stat?: StatDefinition): number {
+    const min = stat?.min ?? 1;
+    const max = stat?.max ?? 99;
+    const parsed = typeof value === 'number' ? Math.round(value) : parseInt(String(value), 10);
+    return !isNaN(parsed) ? Math.max(min, Math.min(max, parsed)) : stat?.defaultValue ?? 75;
   }
 
   private updateProgress(current: number, total: number, status: BatchProgress['status'], message: string): void {
     this.batchProgressSubject.next({ current, total, status, message });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,900 @@
+import { Injectable } from '@angular/core';
+import { PlayerData, CardTemplate, CardLayout, CardBackLayout, LayoutSlot, DEFAULT_CARD_LAYOUT, DEFAULT_CARD_BACK_LAYOUT, SENIORITY_LEVELS, StatDefinition } from '../models/player.model';
+import { getFlagEmoji } from '../utils/flags';
+import { registerFont } from '../utils/fonts';
+import { encodeQr } from '../utils/qr';
+import { CardService } from './card.service';
+import {
+  CardScene,
+  ScenePrimitive,
+  SceneShape,
+  paintSceneToCanvas,
+  parseLinearGradient,
+  sceneToSVG,
+  estimateTextWidth,
+  wrapText
+} from '../utils/scene-painter';
+
+export interface RenderOptions {
+  width?: number; // output size; the card is scaled to fit and centered
+  height?: number;
+  scale?: number; // used when no explicit size is given (default 2x)
+  background?: string; // fill behind the card, transparent when omitted
+}
+
+// A card drawn on top of a larger scene, e.g. a lineup sheet
+export interface PlacedCard {
+  player: PlayerData;
+  template: CardTemplate;
+  x: number; // top-left corner in scene coordinates
+  y: number;
+  width: number; // height follows the card aspect ratio
+}
+
+export interface CompositeScene {
+  scene: CardScene;
+  cards: PlacedCard[];
+}
+
+interface CardPalette {
+  badgeBackground?: string;
+  rating: string;
+  position: string;
+  name: string;
+  nationality: string;
+  statBackground?: string;
+  statDivider?: string;
+  statValue: string;
+  statLabel: string;
+  glow?: string; // text shadow color for highlighted text
+  softGlow?: string; // subtler glow behind the name and stat values
+  shadow?: boolean; // dark drop shadows behind light text
+  font?: string; // display font, defaults to Roboto Condensed
+}
+
+// Card geometry in CSS pixels, mirrors `.fifa-card` in styles.scss
+export const CARD_WIDTH = 322;
+export const CARD_HEIGHT = 450;
+
+const DISPLAY_FONT = 'Roboto Condensed, sans-serif';
+const BODY_FONT = 'Inter, sans-serif';
+const EMOJI_FONT = 'Apple Color Emoji, Segoe UI Emoji, Noto Color Emoji, sans-serif';
+
+// Stats grid shape for a schema: a single row up to four stats, two rows beyond
+export function getStatGridColumns(statCount: number): number {
+  return statCount <= 4 ? Math.max(statCount, 1) : Math.ceil(statCount / 2);
+}
+
+const DEFAULT_PALETTE: CardPalette = {
+  badgeBackground: 'rgba(0, 0, 0, 0.8)',
+  rating: '#ffffff',
+  position: '#ffffff',
+  name: '#ffffff',
+  nationality: 'rgba(255, 255, 255, 0.9)',
+  statBackground: 'rgba(0, 0, 0, 0.6)',
+  statValue: '#ffffff',
+  statLabel: 'rgba(255, 255, 255, 0.8)',
+  shadow: true
+};
+
+// Per-theme text colors, kept in sync with the theme blocks in styles.scss
+const THEME_PALETTES: Record<string, CardPalette> = {
+  'gold-classic': {
+    rating: '#3d2c00',
+    position: '#3d2c00',
+    name: '#3d2c00',
+    nationality: '#5a4200',
+    statDivider: 'rgba(61, 44, 0, 0.2)',
+    statValue: '#3d2c00',
+    statLabel: '#5a4200'
+  },
+  'dark-mode-it': {
+    ...DEFAULT_PALETTE,
+    rating: '#60a5fa',
+    statValue: '#60a5fa'
+  },
+  'silver-modern': {
+    rating: '#2a2a3e',
+    position: '#2a2a3e',
+    name: '#2a2a3e',
+    nationality: '#3d3d55',
+    statDivider: 'rgba(42, 42, 62, 0.2)',
+    statValue: '#2a2a3e',
+    statLabel: '#3d3d55'
+  },
+  'bronze-vintage': {
+    rating: '#3d2010',
+    position: '#3d2010',
+    name: '#3d2010',
+    nationality: '#5a3520',
+    statDivider: 'rgba(61, 32, 16, 0.2)',
+    statValue: '#3d2010',
+    statLabel: '#5a3520'
+  },
+  'totw': {
+    rating: '#ffd700',
+    position: '#ffd700',
+    name: '#ffd700',
+    nationality: 'rgba(255, 255, 255, 0.9)',
+    statDivider: 'rgba(255, 215, 0, 0.15)',
+    statValue: '#ffd700',
+    statLabel: 'rgba(255, 255, 255, 0.8)',
+    glow: 'rgba(255, 215, 0, 0.5)',
+    softGlow: 'rgba(255, 215, 0, 0.3)'
+  }
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CardRendererService {
+  private imageCache = new Map<string, Promise<HTMLImageElement>>();
+
+  constructor(private cardService: CardService) {}
+
+  // Describe the card as drawing primitives in card coordinates (322x450)
+  buildScene(player: PlayerData, template: CardTemplate): CardScene {
+    const palette = this.getPalette(template);
+    // Layouts saved before a slot existed keep it in its default place
+    const layout: CardLayout = { ...DEFAULT_CARD_LAYOUT, ...template.layout };
+    const primitives: ScenePrimitive[] = [
+      ...this.buildBackground(template),
+      ...this.buildHeader(player, palette, layout),
+      ...this.buildPhoto(player, template, layout.photo),
+      ...this.buildPlayerInfo(player, palette, layout.name),
+      ...this.buildProfile(player, palette, layout),
+      ...this.buildVariantBadge(player, layout.variant),
+      ...this.buildStats(player, this.cardService.getStatSchemaForPlayer(player).stats, palette, layout.stats)
+    ];
+
+    if (player.customLogo) {
+      primitives.push({
+        type: 'image',
+        src: player.customLogo,
+        ...layout.logo,
+        fit: 'contain',
+        opacity: 0.7
+      });
+    }
+
+    return { width: CARD_WIDTH, height: CARD_HEIGHT, primitives };
+  }
+
+  async renderToCanvas(player: PlayerData, template: CardTemplate, options: RenderOptions = {}): Promise<HTMLCanvasElement> {
+    const scene = this.buildScene(player, template);
+    return this.paintToCanvas(scene, [template], options, ctx => paintSceneToCanvas(ctx, scene, src => this.loadImage(src)));
+  }
+
+  // Describe the card back: bio, tech stack, experience, quote, QR code and branding
+  // over the template background, placed by the template's back layout
+  buildBackScene(player: PlayerData, template: CardTemplate): CardScene {
+    const palette = this.getPalette(template);
+    const layout = template.backLayout || DEFAULT_CARD_BACK_LAYOUT;
+    const primitives: ScenePrimitive[] = [
+      ...this.buildBackground(template),
+      ...this.buildBackText(player, palette, layout),
+      ...this.buildTechStack(player.techStack || [], palette, layout.techStack),
+      ...this.buildBranding(player, palette, layout.branding)
+    ];
+
+    if (player.profileUrl) {
+      primitives.push(...this.buildQrCode(player.profileUrl, layout.qr));
+    }
+
+    return { width: CARD_WIDTH, height: CARD_HEIGHT, primitives };
+  }
+
+  async renderBackToCanvas(player: PlayerData, template: CardTemplate, options: RenderOptions = {}): Promise<HTMLCanvasElement> {
+    const scene = this.buildBackScene(player, template);
+    return this.paintToCanvas(scene, [template], options, ctx => paintSceneToCanvas(ctx, scene, src => this.loadImage(src)));
+  }
+
+  // Paint a background scene, then each card scaled into its slot
+  async renderCompositeToCanvas(composite: CompositeScene, options: RenderOptions = {}): Promise<HTMLCanvasElement> {
+    const templates = composite.cards.map(card => card.template);
+    return this.paintToCanvas(composite.scene, templates, options, async ctx => {
+      await paintSceneToCanvas(ctx, composite.scene, src => this.loadImage(src));
+
+      for (const card of composite.cards) {
+        const cardScale = card.width / CARD_WIDTH;
+        ctx.save();
+        ctx.translate(card.x, card.y);
+        ctx.scale(cardScale, cardScale);
+        await paintSceneToCanvas(ctx, this.buildScene(card.player, card.template), src => this.loadImage(src));
+        ctx.restore();
+      }
+    });
+  }
+
+  async renderToDataURL(
+    player: PlayerData,
+    template: CardTemplate,
+    options: RenderOptions & { type?: string; quality?: number } = {}
+  ): Promise<string> {
+    const canvas = await this.renderToCanvas(player, template, options);
+    return canvas.toDataURL(options.type || 'image/png', options.quality);
+  }
+
+  async renderToBlob(
+    player: PlayerData,
+    template: CardTemplate,
+    options: RenderOptions & { type?: string; quality?: number } = {}
+  ): Promise<Blob> {
+    const canvas = await this.renderToCanvas(player, template, options);
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(
+        blob => blob ? resolve(blob) : reject(new Error('Canvas encoding failed')),
+        options.type || 'image/png',
+        options.quality
+      );
+    });
+  }
+
+  // Self-contained SVG document with every image inlined as a data URL
+  async renderToSVG(player: PlayerData, template: CardTemplate): Promise<string> {
+    const scene = this.buildScene(player, template);
+    const inlineImages = new Map<string, string>();
+
+    for (const primitive of scene.primitives) {
+      if (primitive.type === 'image' && !inlineImages.has(primitive.src)) {
+        try {
+          inlineImages.set(primitive.src, await this.toDataURL(primitive.src));
+        } catch (error) {
+          console.warn('Failed to inline SVG image:', error);
+        }
+      }
+    }
+
+    return sceneToSVG(scene, inlineImages);
+  }
+
+  private async paintToCanvas(
+    scene: CardScene,
+    templates: CardTemplate[],
+    options: RenderOptions,
+    paint: (ctx: CanvasRenderingContext2D) => Promise<void>
+  ): Promise<HTMLCanvasElement> {
+    const scale = options.width && options.height
+      ? Math.min(options.width / scene.width, options.height / scene.height)
+      : options.scale ?? 2;
+    const width = Math.round(options.width ?? scene.width * scale);
+    const height = Math.round(options.height ?? scene.height * scale);
+
+    // A detached canvas: nothing is attached to the document tree
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context is not available');
+    }
+
+    if (options.background) {
+      ctx.fillStyle = options.background;
+      ctx.fillRect(0, 0, width, height);
+    }
+
+    await this.ensureFontsLoaded(templates);
+
+    ctx.translate((width - scene.width * scale) / 2, (height - scene.height * scale) / 2);
+    ctx.scale(scale, scale);
+    await paint(ctx);
+
+    return canvas;
+  }
+
+  // Built-in themes have tuned palettes; custom templates derive one from their color scheme
+  private getPalette(template: CardTemplate): CardPalette {
+    if (!template.custom) {
+      return THEME_PALETTES[template.id] || DEFAULT_PALETTE;
+    }
+
+    const { secondary, text, accent } = template.colorScheme;
+    return {
+      rating: text,
+      position: text,
+      name: text,
+      nationality: text,
+      statDivider: secondary,
+      statValue: text,
+      statLabel: accent,
+      glow: template.glowEffect ? accent : undefined,
+      softGlow: template.glowEffect ? accent : undefined,
+      font: `${template.fontFamily}, ${DISPLAY_FONT}`
+    };
+  }
+
+  // ===== Scene sections =====
+
+  private buildBackground(template: CardTemplate): ScenePrimitive[] {
+    const cardRect: SceneShape = { kind: 'rect', x: 0, y: 0, width: CARD_WIDTH, height: CARD_HEIGHT };
+
+    if (template.backgroundImage) {
+      return [{ type: 'image', src: template.backgroundImage, x: 0, y: 0, width: CARD_WIDTH, height: CARD_HEIGHT, fit: 'fill' }];
+    }
+
+    const primitives: ScenePrimitive[] = [{
+      type: 'fill',
+      shape: cardRect,
+      paint: parseLinearGradient(template.backgroundGradient) || template.colorScheme.primary
+    }];
+
+    if (template.metallic) {
+      // Diagonal sheen standing in for the metallic PNG finish
+      primitives.push({
+        type: 'fill',
+        shape: cardRect,
+        paint: {
+          angle: 120,
+          stops: [
+            { offset: 0.3, color: 'rgba(255, 255, 255, 0)' },
+            { offset: 0.45, color: 'rgba(255, 255, 255, 0.25)' },
+            { offset: 0.6, color: 'rgba(255, 255, 255, 0)' }
+          ]
+        }
+      });
+    }
+
+    if (template.patternOverlay) {
+      // Diagonal hairlines matching the 20px `patternOverlay` tile
+      const color = template.patternOverlay.match(/rgba?\([^)]*\)/)?.[0] || 'rgba(255, 255, 255, 0.1)';
+      for (let offset = -CARD_HEIGHT; offset < CARD_WIDTH; offset += 20) {
+        const start = Math.max(0, -offset);
+        const end = Math.min(CARD_HEIGHT, CARD_WIDTH - offset);
+        primitives.push({ type: 'line', x1: offset + start, y1: start, x2: offset + end, y2: end, color, width: 0.6 });
+      }
+    }
+
+    const border = template.borderStyle?.match(/([\d.]+)px\s+solid\s+(.+)/);
+    if (border) {
+      const width = parseFloat(border[1]);
+      primitives.push({
+        type: 'stroke',
+        shape: { kind: 'rect', x: width / 2, y: width / 2, width: CARD_WIDTH - width, height: CARD_HEIGHT - width },
+        color: border[2].trim(),
+        width
+      });
+    }
+
+    return primitives;
+  }
+
+  private buildHeader(player: PlayerData, palette: CardPalette, layout: CardLayout): ScenePrimitive[] {
+    const primitives: ScenePrimitive[] = [];
+    const rating = String(player.rating ?? '');
+    const position = player.position || '';
+    const positionColor = this.cardService.getPosition(position)?.color;
+    const { rating: ratingSlot, position: positionSlot, flag: flagSlot } = layout;
+
+    if (palette.badgeBackground) {
+      primitives.push(
+        { type: 'fill', shape: { kind: 'rect', x: ratingSlot.x, y: ratingSlot.y, width: rating.length * 16 + 8, height: ratingSlot.height, radius: 2 }, paint: palette.badgeBackground },
+        { type: 'fill', shape: { kind: 'rect', x: positionSlot.x, y: positionSlot.y, width: position.length * 8.5 + 8, height: positionSlot.height, radius: 2 }, paint: palette.badgeBackground }
+      );
+    }
+
+    primitives.push(
+      {
+        type: 'text',
+        text: rating,
+        x: ratingSlot.x + 4,
+        y: ratingSlot.y + ratingSlot.height / 2,
+        font: { family: palette.font || DISPLAY_FONT, size: 32, weight: 700 },
+        color: palette.rating,
+        align: 'left',
+        shadow: palette.glow ? { color: palette.glow, blur: 10, offsetX: 0, offsetY: 0 } : undefined
+      },
+      {
+        type: 'text',
+        text: position,
+        x: positionSlot.x + 4,
+        y: positionSlot.y + positionSlot.height / 2,
+        font: { family: palette.font || DISPLAY_FONT, size: 13, weight: 600 },
+        color: positionColor || palette.position,
+        align: 'left',
+        letterSpacing: 1,
+        shadow: palette.glow ? { color: palette.glow, blur: 10, offsetX: 0, offsetY: 0 } : undefined
+      }
+    );
+
+    if (player.nationality) {
+      primitives.push({
+        type: 'text',
+        text: getFlagEmoji(player.nationality),
+        x: flagSlot.x + flagSlot.width,
+        y: flagSlot.y + flagSlot.height / 2,
+        font: { family: EMOJI_FONT, size: 28, weight: 400 },
+        color: '#000000',
+        align: 'right',
+        shadow: { color: 'rgba(0, 0, 0, 0.3)', blur: 4, offsetX: 0, offsetY: 2 }
+      });
+    }
+
+    return primitives;
+  }
+
+  // Alternative and best-fit positions, seniority and tenure badges, star ratings and team
+  private buildProfile(player: PlayerData, palette: CardPalette, layout: CardLayout): ScenePrimitive[] {
+    const shadow = palette.shadow ? { color: 'rgba(0, 0, 0, 0.7)', blur: 3, offsetX: 1, offsetY: 1 } : undefined;
+    const primitives: ScenePrimitive[] = [];
+
+    if (player.alternativePosition) {
+      const slot = layout.altPosition;
+      primitives.push({
+        type: 'text',
+        text: player.alternativePosition,
+        x: slot.x + 4,
+        y: slot.y + slot.height / 2,
+        font: { family: palette.font || DISPLAY_FONT, size: 11, weight: 600 },
+        color: this.cardService.getPosition(player.alternativePosition)?.color || palette.nationality,
+        align: 'left',
+        letterSpacing: 1,
+        maxWidth: slot.width - 4,
+        shadow
+      });
+    }
+
+    const bestFit = this.cardService.getBestFitPosition(player);
+    if (bestFit) {
+      const slot = layout.bestFit;
+      const color = this.cardService.getPosition(bestFit)?.color || palette.nationality;
+      primitives.push(
+        { type: 'stroke', shape: { kind: 'rect', x: slot.x + 0.5, y: slot.y + 0.5, width: slot.width - 1, height: slot.height - 1, radius: slot.height / 2 }, color, width: 1 },
+        {
+          type: 'text',
+          text: bestFit,
+          x: slot.x + slot.width / 2,
+          y: slot.y + slot.height / 2,
+          font: { family: palette.font || DISPLAY_FONT, size: 10, weight: 700 },
+          color,
+          align: 'center',
+          letterSpacing: 1,
+          maxWidth: slot.width - 8,
+          shadow
+        }
+      );
+    }
+
+    const tenure = this.cardService.getTenureBadge(player.startDate);
+    const badges = [
+      ...(player.seniority ? [{ text: SENIORITY_LEVELS[player.seniority].toUpperCase(), paint: palette.statBackground || palette.statDivider || 'rgba(0, 0, 0, 0.2)', color: palette.statValue }] : []),
+      ...(tenure ? [{ text: tenure.label, paint: tenure.color, color: '#1a1a1a' }] : [])
+    ];
+    const badgeFont = { family: BODY_FONT, size: 9, weight: 700 };
+    const badgeHeight = 16;
+    badges.forEach((badge, index) => {
+      const { x, width } = layout.badges;
+      const y = layout.badges.y + index * (badgeHeight + 4);
+      if (y + badgeHeight > layout.badges.y + layout.badges.height) return;
+      const badgeWidth = Math.min(width, estimateTextWidth(badge.text, badgeFont, 0.5) + 12);
+      primitives.push(
+        { type: 'fill', shape: { kind: 'rect', x, y, width: badgeWidth, height: badgeHeight, radius: badgeHeight / 2 }, paint: badge.paint },
+        {
+          type: 'text',
+          text: badge.text,
+          x: x + badgeWidth / 2,
+          y: y + badgeHeight / 2,
+          font: badgeFont,
+          color: badge.color,
+          align: 'center',
+          letterSpacing: 0.5,
+          maxWidth: badgeWidth - 12
+        }
+      );
+    });
+
+    const stars = [
+      ...(player.skillMoves ? [`${player.skillMoves}\u2605 SM`] : []),
+      ...(player.weakFoot ? [`${player.weakFoot}\u2605 WF`] : [])
+    ];
+    stars.forEach((line, index) => {
+      const slot = layout.skillStars;
+      primitives.push({
+        type: 'text',
+        text: line,
+        x: slot.x + slot.width,
+        y: slot.y + slot.height / 4 * (index * 2 + 1),
+        font: { family: palette.font || DISPLAY_FONT, size: 12, weight: 700 },
+        color: palette.nationality,
+        align: 'right',
+        maxWidth: slot.width,
+        shadow
+      });
+    });
+
+    if (player.team) {
+      const slot = layout.team;
+      primitives.push({
+        type: 'text',
+        text: player.team.toUpperCase(),
+        x: slot.x + slot.width / 2,
+        y: slot.y + slot.height / 2,
+        font: { family: BODY_FONT, size: 10, weight: 600 },
+        color: palette.statLabel,
+        align: 'center',
+        letterSpacing: 1,
+        maxWidth: slot.width,
+        shadow
+      });
+    }
+
+    return primitives;
+  }
+
+  // Pill centered in its slot, in the variant's own colors whatever the template
+  private buildVariantBadge(player: PlayerData, slot: LayoutSlot): ScenePrimitive[] {
+    const variant = this.cardService.getVariant(player.variantId);
+    if (!variant) return [];
+
+    const font = { family: DISPLAY_FONT, size: 12, weight: 700 };
+    const width = Math.min(slot.width, estimateTextWidth(variant.badge, font, 1.5) + 16);
+    const x = slot.x + (slot.width - width) / 2;
+    return [
+      {
+        type: 'fill',
+        shape: { kind: 'rect', x, y: slot.y, width, height: slot.height, radius: slot.height / 2 },
+        paint: variant.color
+      },
+      {
+        type: 'text',
+        text: variant.badge,
+        x: x + width / 2,
+        y: slot.y + slot.height / 2,
+        font,
+        color: variant.textColor,
+        align: 'center',
+        letterSpacing: 1.5,
+        maxWidth: width - 16
+      }
+    ];
+  }
+
+  private buildBackText(player: PlayerData, palette: CardPalette, layout: CardBackLayout): ScenePrimitive[] {
+    const shadow = palette.shadow ? { color: 'rgba(0, 0, 0, 0.7)', blur: 3, offsetX: 1, offsetY: 1 } : undefined;
+    const primitives: ScenePrimitive[] = [{
+      type: 'text',
+      text: (player.name || 'Player Name').toUpperCase(),
+      x: layout.name.x + layout.name.width / 2,
+      y: layout.name.y + layout.name.height / 2,
+      font: { family: palette.font || DISPLAY_FONT, size: 20, weight: 700 },
+      color: palette.name,
+      align: 'center',
+      letterSpacing: 1,
+      maxWidth: layout.name.width,
+      shadow: palette.softGlow ? { color: palette.softGlow, blur: 10, offsetX: 0, offsetY: 0 } : shadow
+    }];
+
+    const paragraph = (text: string, slot: LayoutSlot, font: { size: number; weight: number }, color: string) => {
+      const lineHeight = Math.round(font.size * 1.35);
+      const sceneFont = { family: BODY_FONT, ...font };
+      const lines = wrapText(text, slot.width, sceneFont, Math.max(1, Math.floor(slot.height / lineHeight)));
+      lines.forEach((line, index) => primitives.push({
+        type: 'text',
+        text: line,
+        x: slot.x,
+        y: slot.y + lineHeight * (index + 0.5),
+        font: sceneFont,
+        color,
+        align: 'left',
+        shadow
+      }));
+    };
+
+    if (player.bio) {
+      paragraph(player.bio, layout.bio, { size: 11, weight: 400 }, palette.nationality);
+    }
+
+    if (player.yearsOfExperience !== undefined) {
+      const { experience } = layout;
+      const value = String(player.yearsOfExperience);
+      const valueFont = { family: palette.font || DISPLAY_FONT, size: 28, weight: 700 };
+      primitives.push(
+        {
+          type: 'text',
+          text: value,
+          x: experience.x,
+          y: experience.y + experience.height / 2,
+          font: valueFont,
+          color: palette.rating,
+          align: 'left',
+          shadow: palette.glow ? { color: palette.glow, blur: 10, offsetX: 0, offsetY: 0 } : shadow
+        },
+        {
+          type: 'text',
+          text: player.yearsOfExperience === 1 ? 'YEAR OF EXPERIENCE' : 'YEARS OF EXPERIENCE',
+          x: experience.x + estimateTextWidth(value, valueFont) + 8,
+          y: experience.y + experience.height / 2,
+          font: { family: BODY_FONT, size: 10, weight: 600 },
+          color: palette.statLabel,
+          align: 'left',
+          letterSpacing: 0.5
+        }
+      );
+    }
+
+    if (player.favoriteQuote) {
+      paragraph(`\u201C${player.favoriteQuote}\u201D`, layout.quote, { size: 11, weight: 500 }, palette.name);
+    }
+
+    return primitives;
+  }
+
+  // Tags flow left to right and wrap into as many rows as the slot holds
+  private buildTechStack(tags: string[], palette: CardPalette, slot: LayoutSlot): ScenePrimitive[] {
+    const font = { family: BODY_FONT, size: 10, weight: 600 };
+    const tagHeight = 18;
+    const gap = 4;
+    const padding = 6;
+    const maxRows = Math.max(1, Math.floor((slot.height + gap) / (tagHeight + gap)));
+    const primitives: ScenePrimitive[] = [];
+    let x = slot.x;
+    let row = 0;
+
+    for (const tag of tags) {
+      const width = Math.min(slot.width, estimateTextWidth(tag, font) + padding * 2);
+      if (x > slot.x && x + width > slot.x + slot.width) {
+        x = slot.x;
+        row++;
+      }
+      if (row >= maxRows) break;
+
+      const y = slot.y + row * (tagHeight + gap);
+      primitives.push(
+        {
+          type: 'fill',
+          shape: { kind: 'rect', x, y, width, height: tagHeight, radius: tagHeight / 2 },
+          paint: palette.statBackground || palette.statDivider || 'rgba(0, 0, 0, 0.2)'
+        },
+        {
+          type: 'text',
+          text: tag,
+          x: x + width / 2,
+          y: y + tagHeight / 2,
+          font,
+          color: palette.statValue,
+          align: 'center',
+          maxWidth: width - padding * 2
+        }
+      );
+      x += width + gap;
+    }
+
+    return primitives;
+  }
+
+  // Always black on white with a quiet zone, whatever the template colors, so phones can scan it
+  private buildQrCode(text: string, slot: LayoutSlot): ScenePrimitive[] {
+    const qr = encodeQr(text);
+    const size = Math.min(slot.width, slot.height);
+    const moduleSize = size / qr.size;
+    const left = slot.x + (slot.width - size) / 2;
+    const top = slot.y + (slot.height - size) / 2;
+
+    return [
+      { type: 'fill', shape: { kind: 'rect', x: left, y: top, width: size, height: size, radius: 2 }, paint: '#ffffff' },
+      ...qr.runs.map((run): ScenePrimitive => ({
+        type: 'fill',
+        // A hair of overlap keeps anti-aliasing seams out of the dark areas
+        shape: { kind: 'rect', x: left + run.x * moduleSize, y: top + run.y * moduleSize, width: run.length * moduleSize + 0.1, height: moduleSize + 0.1 },
+        paint: '#000000'
+      }))
+    ];
+  }
+
+  // Team logo with the project's branding text beside it, centered as a group
+  private buildBranding(player: PlayerData, palette: CardPalette, slot: LayoutSlot): ScenePrimitive[] {
+    const branding = this.cardService.getCardBranding();
+    const font = { family: BODY_FONT, size: 11, weight: 600 };
+    const logoWidth = player.customLogo ? slot.height * 1.5 : 0;
+    const gap = player.customLogo && branding ? 8 : 0;
+    const textWidth = branding ? Math.min(estimateTextWidth(branding, font, 0.5), slot.width - logoWidth - gap) : 0;
+    let x = slot.x + (slot.width - logoWidth - gap - textWidth) / 2;
+    const primitives: ScenePrimitive[] = [];
+
+    if (player.customLogo) {
+      primitives.push({ type: 'image', src: player.customLogo, x, y: slot.y, width: logoWidth, height: slot.height, fit: 'contain' });
+      x += logoWidth + gap;
+    }
+    if (branding) {
+      primitives.push({
+        type: 'text',
+        text: branding,
+        x,
+        y: slot.y + slot.height / 2,
+        font,
+        color: palette.statLabel,
+        align: 'left',
+        letterSpacing: 0.5,
+        maxWidth: textWidth
+      });
+    }
+
+    return primitives;
+  }
+
+  private buildPhoto(player: PlayerData, template: CardTemplate, box: LayoutSlot): ScenePrimitive[] {
+    const mask = this.getMaskShape(template.maskShape, box);
+
+    if (player.profilePhoto) {
+      return [{ type: 'image', src: player.profilePhoto, ...box, fit: 'cover-top', clip: mask }];
+    }
+
+    // Placeholder silhouette always uses the shield, as in the live preview
+    return [
+      { type: 'fill', shape: this.getMaskShape('shield', box), paint: 'rgba(75, 85, 99, 0.3)' },
+      {
+        type: 'text',
+        text: '\u{1F464}',
+        x: box.x + box.width / 2,
+        y: box.y + box.height / 2,
+        font: { family: EMOJI_FONT, size: 36, weight: 400 },
+        color: '#ffffff',
+        align: 'center'
+      }
+    ];
+  }
+
+  private buildPlayerInfo(player: PlayerData, palette: CardPalette, slot: LayoutSlot): ScenePrimitive[] {
+    const darkShadow = palette.shadow;
+
+    return [
+      {
+        type: 'text',
+        text: (player.name || 'Player Name').toUpperCase(),
+        x: slot.x + slot.width / 2,
+        y: slot.y + slot.height / 2,
+        font: { family: palette.font || DISPLAY_FONT, size: 20, weight: 700 },
+        color: palette.name,
+        align: 'center',
+        letterSpacing: 1,
+        maxWidth: slot.width,
+        shadow: palette.softGlow
+          ? { color: palette.softGlow, blur: 10, offsetX: 0, offsetY: 0 }
+          : darkShadow ? { color: 'rgba(0, 0, 0, 0.8)', blur: 6, offsetX: 2, offsetY: 2 } : undefined
+      },
+      {
+        type: 'text',
+        text: player.nationality || 'NAT',
+        x: slot.x + slot.width / 2,
+        y: slot.y + slot.height + 9,
+        font: { family: BODY_FONT, size: 11, weight: 500 },
+        color: palette.nationality,
+        align: 'center',
+        shadow: darkShadow ? { color: 'rgba(0, 0, 0, 0.7)', blur: 3, offsetX: 1, offsetY: 1 } : undefined
+      }
+    ];
+  }
+
+  private buildStats(player: PlayerData, stats: StatDefinition[], palette: CardPalette, slot: LayoutSlot): ScenePrimitive[] {
+    const primitives: ScenePrimitive[] = [];
+    const columns = getStatGridColumns(stats.length);
+    const gap = 4;
+    const rows = Math.ceil(stats.length / columns);
+    const itemWidth = (slot.width - gap * (columns - 1)) / columns;
+    const itemHeight = (slot.height - gap * (rows - 1)) / rows;
+
+    stats.forEach((stat, index) => {
+      const x = slot.x + (index % columns) * (itemWidth + gap);
+      const y = slot.y + Math.floor(index / columns) * (itemHeight + gap);
+
+      if (palette.statBackground) {
+        primitives.push({ type: 'fill', shape: { kind: 'rect', x, y, width: itemWidth, height: itemHeight, radius: 4 }, paint: palette.statBackground });
+      }
+      if (palette.statDivider) {
+        primitives.push({ type: 'line', x1: x, y1: y + 0.5, x2: x + itemWidth, y2: y + 0.5, color: palette.statDivider, width: 1 });
+      }
+
+      primitives.push(
+        {
+          type: 'text',
+          text: String(player.stats?.[stat.key] || 0),
+          x: x + itemWidth / 2,
+          y: y + itemHeight * 0.38,
+          font: { family: palette.font || DISPLAY_FONT, size: 18, weight: 700 },
+          color: palette.statValue,
+          align: 'center',
+          shadow: palette.softGlow
+            ? { color: palette.softGlow, blur: 6, offsetX: 0, offsetY: 0 }
+            : palette.shadow ? { color: 'rgba(0, 0, 0, 0.8)', blur: 2, offsetX: 1, offsetY: 1 } : undefined
+        },
+        {
+          type: 'text',
+          text: stat.abbreviation,
+          x: x + itemWidth / 2,
+          y: y + itemHeight * 0.74,
+          font: { family: BODY_FONT, size: 9, weight: 600 },
+          color: palette.statLabel,
+          align: 'center',
+          letterSpacing: 0.5
+        }
+      );
+    });
+
+    return primitives;
+  }
+
+  private getMaskShape(
+    maskShape: CardTemplate['maskShape'],
+    box: { x: number; y: number; width: number; height: number }
+  ): SceneShape {
+    const point = (px: number, py: number): [number, number] => [box.x + box.width * px / 100, box.y + box.height * py / 100];
+
+    switch (maskShape) {
+      case 'circle':
+        // CSS circle(50%) uses the box diagonal normalized by sqrt(2)
+        return {
+          kind: 'circle',
+          cx: box.x + box.width / 2,
+          cy: box.y + box.height / 2,
+          r: Math.sqrt((box.width ** 2 + box.height ** 2) / 2) / 2
+        };
+      case 'hexagon':
+        return { kind: 'polygon', points: [point(50, 0), point(100, 25), point(100, 75), point(50, 100), point(0, 75), point(0, 25)] };
+      case 'shield':
+      default:
+        return {
+          kind: 'polygon',
+          points: [point(50, 0), point(90, 20), point(100, 60), point(90, 90), point(50, 100), point(10, 90), point(0, 60), point(10, 20)]
+        };
+    }
+  }
+
+  // ===== Resource loading =====
+
+  private loadImage(src: string): Promise<HTMLImageElement> {
+    const cached = this.imageCache.get(src);
+    if (cached) return cached;
+
+    const promise = new Promise<HTMLImageElement>((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new Error(`Failed to load image ${src.substring(0, 64)}`));
+      image.src = src;
+    });
+
+    // Only cache static assets; photos are large and change with every edit
+    if (!src.startsWith('data:')) {
+      this.imageCache.set(src, promise);
+      promise.catch(() => this.imageCache.delete(src));
+    }
+
+    return promise;
+  }
+
+  private async toDataURL(src: string): Promise<string> {
+    if (src.startsWith('data:')) return src;
+
+    const response = await fetch(src);
+    const blob = await response.blob();
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
+  }
+
+  // The built-in fonts plus the font family of each custom template being painted; fonts
+  // bundled with a template pack are registered first in case nothing has used them yet
+  private async ensureFontsLoaded(templates: CardTemplate[]): Promise<void> {
+    if (typeof document === 'undefined' || !document.fonts) return;
+
+    const custom = templates.filter(template => template.custom);
+    await Promise.all(custom
+      .filter(template => template.fontSource)
+      .map(template => registerFont(template.fontFamily, template.fontSource!)));
+
+    const families = [...new Set(custom.map(template => template.fontFamily).filter(Boolean))];
+    const fonts = [
+      `700 32px ${DISPLAY_FONT}`,
+      `600 13px ${DISPLAY_FONT}`,
+      `500 11px ${BODY_FONT}`,
+      `600 9px ${BODY_FONT}`,
+      ...families.flatMap(family => [`700 32px ${family}`, `600 13px ${family}`])
+    ];
+    await Promise.all(fonts.map(font => document.fonts.load(font).catch(error => {
+      console.warn(`Card font ${font} could not be loaded, falling back to system fonts:`, error);
+    })));
+  }
+}
@@ -0,0 +1,176 @@
+import { Injectable } from '@angular/core';
+import { PlayerData, StoredCard } from '../models/player.model';
+import { DatabaseService } from './database.service';
+import { hashString } from '../utils/hash';
+
+// Card as persisted: images are replaced by references into the `photos` store
+export interface CardRecord {
+  id: string;
+  playerData: PlayerData;
+  photoHash?: string;
+  originalPhotoHash?: string;
+  logoHash?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface PhotoRecord {
+  hash: string;
+  dataUrl: string;
+  createdAt: number;
+}
+
+export interface HistoryRetentionPolicy {
+  maxCards: number | null; // null keeps every card
+  maxAgeDays: number | null; // null never expires cards
+}
+
+export const DEFAULT_RETENTION_POLICY: HistoryRetentionPolicy = {
+  maxCards: 20,
+  maxAgeDays: null
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CardRepositoryService {
+  // Tail of the queue that photo writes and photo collection run through
+  private photoQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private database: DatabaseService) {}
+
+  // Cards sorted newest first, with their images resolved
+  async getAll(): Promise<StoredCard[]> {
+    const records = await this.database.getAll<CardRecord>('cards');
+    records.sort((a, b) => b.updatedAt - a.updatedAt);
+    return Promise.all(records.map(record => this.toStoredCard(record)));
+  }
+
+  async get(id: string): Promise<StoredCard | undefined> {
+    const record = await this.database.get<CardRecord>('cards', id);
+    return record ? this.toStoredCard(record) : undefined;
+  }
+
+  async save(card: StoredCard): Promise<void> {
+    await this.withPhotoLock(async () => this.database.put('cards', await this.toRecord(card)));
+  }
+
+  async saveMany(cards: StoredCard[]): Promise<void> {
+    await this.withPhotoLock(async () => {
+      const records = await Promise.all(cards.map(card => this.toRecord(card)));
+      await this.database.putMany('cards', records);
+    });
+  }
+
+  // A record's photos are stored before the record itself, so anything that writes
+  // photos and then the record referencing them runs here, one at a time with photo
+  // collection; otherwise a collection in between would delete the new photos
+  withPhotoLock<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.photoQueue.then(task);
+    this.photoQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.database.delete('cards', id);
+    await this.collectUnusedPhotos();
+  }
+
+  async clear(): Promise<void> {
+    await this.database.clear('cards');
+    await this.collectUnusedPhotos();
+  }
+
+  // Remove cards that fall outside the policy; returns the ids that were removed
+  async applyRetention(policy: HistoryRetentionPolicy): Promise<string[]> {
+    const records = await this.database.getAll<CardRecord>('cards');
+    records.sort((a, b) => b.updatedAt - a.updatedAt);
+
+    const cutoff = policy.maxAgeDays !== null ? Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000 : null;
+    const expired = records.filter((record, index) =>
+      (policy.maxCards !== null && index >= policy.maxCards) ||
+      (cutoff !== null && record.updatedAt < cutoff)
+    );
+
+    for (const record of expired) {
+      await this.database.delete('cards', record.id);
+    }
+    if (expired.length > 0) {
+      await this.collectUnusedPhotos();
+    }
+
+    return expired.map(record => record.id);
+  }
+
+  // Store an image once per distinct content and return its hash
+  async storePhoto(dataUrl: string): Promise<string> {
+    const hash = await hashString(dataUrl);
+    const existing = await this.database.get<PhotoRecord>('photos', hash);
+    if (!existing) {
+      await this.database.put<PhotoRecord>('photos', { hash, dataUrl, createdAt: Date.now() });
+    }
+    return hash;
+  }
+
+  async loadPhoto(hash: string): Promise<string | undefined> {
+    const record = await this.database.get<PhotoRecord>('photos', hash);
+    return record?.dataUrl;
+  }
+
+  // Delete photos no longer referenced by history cards or project cards
+  collectUnusedPhotos(): Promise<void> {
+    return this.withPhotoLock(() => this.deleteUnreferencedPhotos());
+  }
+
+  async toRecord(card: StoredCard): Promise<CardRecord> {
+    const { profilePhoto, originalPhoto, customLogo, ...playerData } = card.playerData;
+
+    return {
+      id: card.id,
+      playerData: playerData as PlayerData,
+      photoHash: profilePhoto ? await this.storePhoto(profilePhoto) : undefined,
+      originalPhotoHash: originalPhoto ? await this.storePhoto(originalPhoto) : undefined,
+      logoHash: customLogo ? await this.storePhoto(customLogo) : undefined,
+      createdAt: new Date(card.createdAt).getTime(),
+      updatedAt: new Date(card.updatedAt).getTime()
+    };
+  }
+
+  async toStoredCard(record: CardRecord): Promise<StoredCard> {
+    const playerData: PlayerData = { ...record.playerData };
+    if (record.photoHash) {
+      playerData.profilePhoto = await this.loadPhoto(record.photoHash);
+    }
+    if (record.originalPhotoHash) {
+      playerData.originalPhoto = await this.loadPhoto(record.originalPhotoHash);
+    }
+    if (record.logoHash) {
+      playerData.customLogo = await this.loadPhoto(record.logoHash);
+    }
+
+    return {
+      id: record.id,
+      playerData,
+      thumbnail: '',
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt)
+    };
+  }
+
+  private async deleteUnreferencedPhotos(): Promise<void> {
+    const records = await this.database.getAll<CardRecord>('cards');
+    const projects = await this.database.getAll<{ cards: CardRecord[] }>('projects');
+    const referenced = new Set(
+      [...records, ...projects.flatMap(project => project.cards)]
+        .flatMap(record => [record.photoHash, record.originalPhotoHash, record.logoHash])
+        .filter(Boolean)
+    );
+    const photoKeys = await this.database.getAllKeys('photos');
+
+    for (const key of photoKeys) {
+      if (!referenced.has(key as string)) {
+        await this.database.delete('photos', key);
+      }
+    }
+  }
+}
@@ -1,6 +1,14 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
-import { PlayerData, PlayerStats, CardTemplate, ITPosition, CardTheme, ExportOptions } from '../models/player.model';
+import { PlayerData, PlayerStats, CardTemplate, CardTheme, ExportOptions, StatSchema, STAT_SCHEMAS, DEFAULT_STAT_SCHEMA_ID, MIN_SCHEMA_STATS, MAX_SCHEMA_STATS, PositionDefinition, PositionWeights, RatingProfiles, DEFAULT_RATING_PROFILES, BUILT_IN_POSITIONS, MAX_BIO_LENGTH, MAX_QUOTE_LENGTH, MAX_TECH_STACK_TAGS, MAX_TECH_STACK_TAG_LENGTH, MAX_YEARS_OF_EXPERIENCE, SeniorityLevel, MAX_STAR_RATING, MAX_TEAM_LENGTH, TENURE_BADGES, TenureBadge, CardVariant, CARD_VARIANTS, VariantBoosts, MAX_VARIANT_BOOST } from '../models/player.model';
+
+// Spellings accepted for each seniority level, compared lowercase without separators
+const SENIORITY_ALIASES = new Map<string, SeniorityLevel>([
+  ['junior', 'junior'], ['jr', 'junior'], ['entry', 'junior'], ['entrylevel', 'junior'], ['graduate', 'junior'],
+  ['mid', 'mid'], ['midlevel', 'mid'], ['intermediate', 'mid'], ['medior', 'mid'],
+  ['senior', 'senior'], ['sr', 'senior'],
+  ['staff', 'staff'], ['principal', 'staff']
+]);
 
 @Injectable({
   providedIn: 'root'
@@ -8,9 +16,17 @@ import { PlayerData, PlayerStats, CardTemplate, ITPosition, CardTheme, ExportOpt
 export class CardService {
   private currentPlayerSubject = new BehaviorSubject<PlayerData>(this.createDefaultPlayer());
   private availableTemplatesSubject = new BehaviorSubject<CardTemplate[]>(this.getDefaultTemplates());
+  private customTemplates: CardTemplate[] = [];
+  private statSchemasSubject = new BehaviorSubject<StatSchema[]>(STAT_SCHEMAS);
+  private activeStatSchemaIdSubject = new BehaviorSubject<string>(DEFAULT_STAT_SCHEMA_ID);
+  private ratingProfiles: RatingProfiles = {};
+  private customPositions: PositionDefinition[] = [];
+  private cardBranding = '';
+  private variantBoosts: VariantBoosts = {};
 
   public currentPlayer$ = this.currentPlayerSubject.asObservable();
   public availableTemplates$ = this.availableTemplatesSubject.asObservable();
+  public statSchemas$ = this.statSchemasSubject.asObservable();
 
   constructor() {}
 
@@ -28,22 +44,200 @@ export class CardService {
     };
 
     // Auto-calculate rating if not manually overridden
-    if (!player.manualRating && player.stats) {
-      updatedPlayer.rating = this.calculateOverallRating(updatedPlayer.stats);
+    if (!player.manualRating && (player.stats || player.position)) {
+      updatedPlayer.rating = this.calculatePlayerRating(updatedPlayer);
     }
 
     this.currentPlayerSubject.next(updatedPlayer);
   }
 
-  // Stats calculation
-  calculateOverallRating(stats: PlayerStats): number {
-    const values = Object.values(stats);
-    const average = values.reduce((sum, value) => sum + value, 0) / values.length;
-    return Math.round(average);
+  // Replace the current card entirely (no merge with the previous card's fields)
+  loadPlayer(player: PlayerData): void {
+    this.currentPlayerSubject.next({ ...player });
+  }
+
+  // Start a blank card with the given template and the active stat schema
+  newPlayer(templateId: string = 'gold-classic'): void {
+    const schema = this.getActiveStatSchema();
+    const stats = this.createDefaultStats(schema);
+
+    this.currentPlayerSubject.next({
+      id: this.generateId(),
+      name: 'New Player',
+      position: 'DEV',
+      nationality: 'FR',
+      rating: this.calculateOverallRating(stats, schema, 'DEV'),
+      manualRating: false,
+      stats,
+      statSchemaId: schema.id,
+      ...this.getTemplateSelection(templateId),
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+  }
+
+  // Stats calculation. With a schema, each stat is first scaled from its range onto 1-99;
+  // with a position, stats are weighted by that position's rating profile
+  calculateOverallRating(stats: PlayerStats, schema?: StatSchema, position?: string): number {
+    if (!schema) {
+      const values = Object.values(stats);
+      return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+    }
+
+    const weights = position ? this.getPositionWeights(position, schema) : {};
+    let total = 0;
+    let weightSum = 0;
+    schema.stats.forEach(stat => {
+      const weight = weights[stat.key] ?? 1;
+      total += this.toRatingScale(stats[stat.key] ?? stat.defaultValue, stat.min, stat.max) * weight;
+      weightSum += weight;
+    });
+
+    return weightSum > 0 ? Math.round(total / weightSum) : 0;
+  }
+
+  calculatePlayerRating(player: PlayerData): number {
+    return this.calculateOverallRating(player.stats, this.getStatSchemaForPlayer(player), player.position);
+  }
+
+  // Position whose weight profile gives these stats the highest overall
+  suggestPosition(stats: PlayerStats, schema: StatSchema): { position: string; rating: number } {
+    return this.getPositions()
+      .map(({ code }) => ({ position: code, rating: this.calculateOverallRating(stats, schema, code) }))
+      .reduce((best, candidate) => candidate.rating > best.rating ? candidate : best);
+  }
+
+  // Suggested position shown on the card, only when it is neither the card's position
+  // nor its alternative one
+  getBestFitPosition(player: PlayerData): string | undefined {
+    if (!player.stats) return undefined;
+    const { position } = this.suggestPosition(player.stats, this.getStatSchemaForPlayer(player));
+    return position !== player.position && position !== player.alternativePosition ? position : undefined;
+  }
+
+  // Rating profiles: schema defaults, then the custom position's own weights, then the project's overrides
+  getPositionWeights(position: string, schema: StatSchema, overrides: RatingProfiles = this.ratingProfiles): PositionWeights {
+    const weights = {
+      ...DEFAULT_RATING_PROFILES[schema.id]?.[position],
+      ...this.getPosition(position)?.weights,
+      ...overrides[position]
+    };
+    return Object.fromEntries(schema.stats.map(stat => [stat.key, weights[stat.key] ?? 1]));
+  }
+
+  setRatingProfiles(profiles: RatingProfiles = {}): void {
+    this.ratingProfiles = profiles;
+  }
+
+  // Positions: built-in ITPositions plus the active project's custom ones
+  getPositions(): PositionDefinition[] {
+    return [...BUILT_IN_POSITIONS, ...this.customPositions];
+  }
+
+  getPosition(code: string): PositionDefinition | undefined {
+    return this.getPositions().find(position => position.code === code);
+  }
+
+  getPositionName(code: string): string {
+    return this.getPosition(code)?.name || code;
+  }
+
+  setCustomPositions(positions: PositionDefinition[] = []): void {
+    this.customPositions = positions;
+  }
+
+  // Branding text on card backs, from the active project
+  getCardBranding(): string {
+    return this.cardBranding;
+  }
+
+  setCardBranding(branding: string = ''): void {
+    this.cardBranding = branding;
+  }
+
+  // Promo variants with the active project's boost overrides applied
+  getVariants(): CardVariant[] {
+    return CARD_VARIANTS.map(variant => ({ ...variant, statBoost: this.variantBoosts[variant.id] ?? variant.statBoost }));
+  }
+
+  getVariant(id: string | undefined): CardVariant | undefined {
+    return id ? this.getVariants().find(variant => variant.id === id) : undefined;
+  }
+
+  setVariantBoosts(boosts: VariantBoosts = {}): void {
+    this.variantBoosts = boosts;
+  }
+
+  // Card a new variant is made from: the card itself, or for a variant its original so
+  // boosts never stack. Unsaved cards get their id here so the variant can link to them.
+  // Undefined when the original is no longer among the cards.
+  getVariantBase(card: PlayerData, cards: PlayerData[]): PlayerData | undefined {
+    if (card.originalId) {
+      return cards.find(other => other.id === card.originalId);
+    }
+    return card.id ? card : { ...card, id: this.generateId() };
+  }
+
+  // Boosted copy of a base card: every stat goes up by the variant's boost within its
+  // range and the rating follows (manual ratings get the same boost)
+  createVariant(base: PlayerData, variantId: string): PlayerData {
+    const variant = this.getVariant(variantId);
+    if (!variant) {
+      throw new Error(`Unknown card variant ${variantId}`);
+    }
+    if (!base.id || base.originalId) {
+      throw new Error('Variants are made from a saved base card');
+    }
+
+    const schema = this.getStatSchemaForPlayer(base);
+    const boost = Math.max(0, Math.min(MAX_VARIANT_BOOST, variant.statBoost));
+    const stats = Object.fromEntries(schema.stats.map(stat =>
+      [stat.key, Math.min(stat.max, (base.stats[stat.key] ?? stat.defaultValue) + boost)]
+    ));
+    const card: PlayerData = {
+      ...base,
+      ...(variant.templateId ? this.getTemplateSelection(variant.templateId) : {}),
+      id: this.generateId(),
+      stats,
+      variantId: variant.id,
+      originalId: base.id,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    card.rating = base.manualRating ? Math.min(99, base.rating + boost) : this.calculatePlayerRating(card);
+    return card;
+  }
+
+  // Base card first, then its variants in creation order
+  getVersions(card: PlayerData, cards: PlayerData[]): PlayerData[] {
+    const baseId = card.originalId || card.id;
+    const withCard = cards.some(other => other.id === card.id) ? cards.map(other => other.id === card.id ? card : other) : [...cards, card];
+    const base = withCard.find(other => other.id === baseId);
+    const variants = withCard
+      .filter(other => other.originalId && other.originalId === baseId)
+      .sort((a, b) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime());
+    return base ? [base, ...variants] : variants;
+  }
+
+  // Problems with a position before it is added to a project
+  validatePosition(position: PositionDefinition, existing: PositionDefinition[] = this.getPositions()): string[] {
+    const errors: string[] = [];
+    if (!/^[A-Z0-9]{2,5}$/.test(position.code)) {
+      errors.push('Code must be 2 to 5 uppercase letters or digits');
+    } else if (existing.some(other => other.code === position.code)) {
+      errors.push(`Position ${position.code} already exists`);
+    }
+    if (!position.name.trim()) {
+      errors.push('Name is required');
+    }
+    if (position.color && !/^#[0-9a-f]{6}$/i.test(position.color)) {
+      errors.push('Color must be a hex value like #22c55e');
+    }
+    return errors;
   }
 
   // Randomize stats with realistic distributions
-  randomizeStats(seed?: string): PlayerStats {
+  randomizeStats(seed?: string, schema: StatSchema = this.getActiveStatSchema()): PlayerStats {
     const rng = seed ? this.seededRandom(seed) : Math.random;
 
     // Generate realistic stats (60-98 range with normal distribution)
@@ -61,14 +255,75 @@ export class CardService {
       return Math.max(60, Math.min(98, value));
     };
 
-    return {
-      technical: generateStat(),
-      leadership: generateStat(),
-      creativity: generateStat(),
-      reliability: generateStat(),
-      collaboration: generateStat(),
-      adaptability: generateStat()
-    };
+    // Generated on the 1-99 scale, then mapped onto each stat's own range
+    return Object.fromEntries(schema.stats.map(stat => [
+      stat.key,
+      Math.round(stat.min + (generateStat() - 1) / 98 * (stat.max - stat.min))
+    ]));
+  }
+
+  createDefaultStats(schema: StatSchema): PlayerStats {
+    return Object.fromEntries(schema.stats.map(stat => [stat.key, stat.defaultValue]));
+  }
+
+  // Problems that would stop a user-defined schema from rendering or importing cleanly
+  validateStatSchema(schema: StatSchema): string[] {
+    const errors: string[] = [];
+    if (!schema.name.trim()) {
+      errors.push('Schema name is required');
+    }
+    if (schema.stats.length < MIN_SCHEMA_STATS || schema.stats.length > MAX_SCHEMA_STATS) {
+      errors.push(`A schema needs ${MIN_SCHEMA_STATS} to ${MAX_SCHEMA_STATS} stats`);
+    }
+
+    const keys = new Set<string>();
+    schema.stats.forEach(stat => {
+      const name = stat.label || stat.key || 'Unnamed stat';
+      if (!/^[a-z][a-z0-9_]*$/.test(stat.key)) {
+        errors.push(`${name}: key must be lowercase letters, digits or underscores`);
+      } else if (keys.has(stat.key)) {
+        errors.push(`${name}: duplicate key ${stat.key}`);
+      }
+      keys.add(stat.key);
+
+      if (!stat.abbreviation.trim() || stat.abbreviation.length > 4) {
+        errors.push(`${name}: abbreviation must be 1 to 4 characters`);
+      }
+      if (!(stat.min < stat.max)) {
+        errors.push(`${name}: minimum must be below maximum`);
+      } else if (stat.defaultValue < stat.min || stat.defaultValue > stat.max) {
+        errors.push(`${name}: default must be within ${stat.min}-${stat.max}`);
+      }
+    });
+
+    return errors;
+  }
+
+  // Stat schemas: built-in presets plus user-defined ones
+  getStatSchemas(): StatSchema[] {
+    return this.statSchemasSubject.value;
+  }
+
+  getStatSchema(id?: string): StatSchema {
+    const schemas = this.getStatSchemas();
+    return schemas.find(schema => schema.id === (id || DEFAULT_STAT_SCHEMA_ID)) || schemas[0];
+  }
+
+  getStatSchemaForPlayer(player: PlayerData): StatSchema {
+    return this.getStatSchema(player.statSchemaId);
+  }
+
+  setCustomStatSchemas(schemas: StatSchema[]): void {
+    this.statSchemasSubject.next([...STAT_SCHEMAS, ...schemas]);
+  }
+
+  // Schema used for new and imported cards, follows the active project
+  getActiveStatSchema(): StatSchema {
+    return this.getStatSchema(this.activeStatSchemaIdSubject.value);
+  }
+
+  setActiveStatSchema(id?: string): void {
+    this.activeStatSchemaIdSubject.next(id || DEFAULT_STAT_SCHEMA_ID);
   }
 
   // Seeded random number generator for reproducible results
@@ -95,6 +350,31 @@ export class CardService {
     return this.getAvailableTemplates().find(template => template.id === id);
   }
 
+  // Template a card renders with, falling back to the first available template
+  getTemplateForPlayer(player: PlayerData): CardTemplate {
+    const id = player.backgroundTheme === 'custom-gradient' ? player.templateId : player.backgroundTheme;
+    return (id && this.getTemplateById(id)) || this.getAvailableTemplates()[0];
+  }
+
+  // PlayerData fields that select a template; custom templates share the 'custom-gradient' theme
+  getTemplateSelection(templateId: string): Pick<PlayerData, 'backgroundTheme' | 'templateId'> {
+    const template = this.getTemplateById(templateId);
+    if (template?.custom) {
+      return { backgroundTheme: 'custom-gradient', templateId: template.id };
+    }
+    return { backgroundTheme: (template?.name || 'gold-classic') as CardTheme, templateId: undefined };
+  }
+
+  // Replace the user-made templates listed after the built-in ones
+  setCustomTemplates(templates: CardTemplate[]): void {
+    this.customTemplates = templates;
+    this.availableTemplatesSubject.next([...this.getDefaultTemplates(), ...templates]);
+  }
+
+  getCustomTemplates(): CardTemplate[] {
+    return this.customTemplates;
+  }
+
   // Input validation and sanitization
   sanitizeInput(input: string, maxLength: number = 50): string {
     // Remove blocked words and inappropriate content
@@ -115,11 +395,96 @@ export class CardService {
     return sanitized;
   }
 
-  validateStats(stats: Partial<PlayerStats>): boolean {
-    const values = Object.values(stats);
-    return values.every(value =>
-      typeof value === 'number' && value >= 1 && value <= 99
-    );
+  // Card back fields from the form or an import; fields left empty are omitted so
+  // merging into an existing card keeps its values
+  parseCardBack(values: {
+    bio?: unknown;
+    techStack?: unknown; // comma, semicolon or pipe separated list, or an array
+    yearsOfExperience?: unknown;
+    favoriteQuote?: unknown;
+    profileUrl?: unknown;
+  }): Partial<PlayerData> {
+    const back: Partial<PlayerData> = {};
+    const text = (value: unknown) => typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+
+    const bio = text(values.bio);
+    if (bio) back.bio = this.sanitizeInput(bio, MAX_BIO_LENGTH);
+
+    const tags = Array.isArray(values.techStack) ? values.techStack.map(text) : text(values.techStack).split(/[,;|]/);
+    const techStack = [...new Map(tags
+      .map(tag => tag.trim())
+      .filter(Boolean)
+      .map(tag => [tag.toLowerCase(), this.sanitizeInput(tag, MAX_TECH_STACK_TAG_LENGTH)] as const)).values()]
+      .slice(0, MAX_TECH_STACK_TAGS);
+    if (techStack.length > 0) back.techStack = techStack;
+
+    const years = parseInt(text(values.yearsOfExperience), 10);
+    if (!isNaN(years)) back.yearsOfExperience = Math.max(0, Math.min(MAX_YEARS_OF_EXPERIENCE, years));
+
+    const quote = text(values.favoriteQuote).replace(/^["\u201C]+|["\u201D]+$/g, '');
+    if (quote) back.favoriteQuote = this.sanitizeInput(quote, MAX_QUOTE_LENGTH);
+
+    const profileUrl = text(values.profileUrl);
+    if (profileUrl) back.profileUrl = profileUrl.substring(0, 300);
+
+    return back;
+  }
+
+  // Profile fields from the form or an import, omitted when empty like parseCardBack
+  parseProfile(values: {
+    seniority?: unknown;
+    team?: unknown;
+    startDate?: unknown; // ISO date, spreadsheet date serial or anything Date can parse
+    weakFoot?: unknown; // number or a row of stars
+    skillMoves?: unknown;
+    alternativePosition?: unknown;
+  }): Partial<PlayerData> {
+    const profile: Partial<PlayerData> = {};
+    const text = (value: unknown) => typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+
+    const seniority = SENIORITY_ALIASES.get(text(values.seniority).toLowerCase().replace(/[^a-z]/g, ''));
+    if (seniority) profile.seniority = seniority;
+
+    const team = text(values.team);
+    if (team) profile.team = this.sanitizeInput(team, MAX_TEAM_LENGTH);
+
+    const startDate = this.parseDate(text(values.startDate));
+    if (startDate) profile.startDate = startDate;
+
+    const stars = (value: unknown): number | undefined => {
+      const raw = text(value);
+      const count = /^\u2605+$/.test(raw) ? raw.length : parseInt(raw, 10);
+      return isNaN(count) ? undefined : Math.max(1, Math.min(MAX_STAR_RATING, count));
+    };
+    const weakFoot = stars(values.weakFoot);
+    if (weakFoot) profile.weakFoot = weakFoot;
+    const skillMoves = stars(values.skillMoves);
+    if (skillMoves) profile.skillMoves = skillMoves;
+
+    const alternativePosition = text(values.alternativePosition).toUpperCase();
+    if (/^[A-Z0-9]{2,5}$/.test(alternativePosition)) profile.alternativePosition = alternativePosition;
+
+    return profile;
+  }
+
+  // Whole years since the start date, undefined without one
+  getTenureYears(startDate: string | undefined, today: Date = new Date()): number | undefined {
+    if (!startDate) return undefined;
+    const [year, month, day] = startDate.split('-').map(Number);
+    const beforeAnniversary = today.getMonth() + 1 < month || (today.getMonth() + 1 === month && today.getDate() < day);
+    return Math.max(0, today.getFullYear() - year - (beforeAnniversary ? 1 : 0));
+  }
+
+  getTenureBadge(startDate: string | undefined, today: Date = new Date()): TenureBadge | undefined {
+    const years = this.getTenureYears(startDate, today);
+    return years === undefined ? undefined : TENURE_BADGES.find(badge => years >= badge.minYears);
+  }
+
+  validateStats(stats: Partial<PlayerStats>, schema: StatSchema = this.getActiveStatSchema()): boolean {
+    return schema.stats.every(stat => {
+      const value = stats[stat.key];
+      return typeof value === 'number' && value >= stat.min && value <= stat.max;
+    });
   }
 
   // Default data
@@ -139,6 +504,7 @@ export class CardService {
         collaboration: 83,
         adaptability: 87
       },
+      statSchemaId: DEFAULT_STAT_SCHEMA_ID,
       backgroundTheme: 'gold-classic',
       createdAt: new Date(),
       updatedAt: new Date()
@@ -253,6 +619,29 @@ export class CardService {
     ];
   }
 
+  private toRatingScale(value: number, min: number, max: number): number {
+    return max > min ? 1 + (value - min) / (max - min) * 98 : value;
+  }
+
+  // YYYY-MM-DD for a past date, undefined for anything else
+  private parseDate(value: string): string | undefined {
+    if (!value) return undefined;
+
+    let date: Date;
+    if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+      date = new Date(`${value.substring(0, 10)}T00:00:00`);
+    } else if (/^\d{5}(\.\d+)?$/.test(value)) {
+      // Spreadsheet date serial: days since 1899-12-30
+      date = new Date(1899, 11, 30 + Math.floor(Number(value)));
+    } else {
+      date = new Date(value);
+    }
+
+    if (isNaN(date.getTime()) || date > new Date()) return undefined;
+    const pad = (part: number) => String(part).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
   private generateId(): string {
     return Date.now().toString(36) + Math.random().toString(36).substr(2);
   }
@@ -0,0 +1,153 @@
+import { Injectable } from '@angular/core';
+
+export type StoreName = 'cards' | 'thumbnails' | 'photos' | 'settings' | 'projects' | 'templates';
+
+interface SchemaMigration {
+  version: number;
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// Ordered schema history. Never edit a released step: append a new version instead.
+const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    upgrade: db => {
+      db.createObjectStore('cards', { keyPath: 'id' });
+    }
+  },
+  {
+    version: 2,
+    upgrade: db => {
+      db.createObjectStore('thumbnails', { keyPath: 'id' });
+    }
+  },
+  {
+    version: 3,
+    upgrade: (db, transaction) => {
+      // v1 `cards` held untyped key/value blobs that nothing read back; start clean
+      transaction.objectStore('cards').clear();
+      transaction.objectStore('cards').createIndex('updatedAt', 'updatedAt');
+      db.createObjectStore('photos', { keyPath: 'hash' });
+      db.createObjectStore('settings', { keyPath: 'key' });
+    }
+  },
+  {
+    version: 4,
+    upgrade: db => {
+      db.createObjectStore('projects', { keyPath: 'id' });
+    }
+  },
+  {
+    version: 5,
+    upgrade: db => {
+      db.createObjectStore('templates', { keyPath: 'id' });
+    }
+  }
+];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class DatabaseService {
+  private readonly DB_NAME = 'FIFA_Card_Generator';
+  private readonly DB_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor() {}
+
+  async get<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+    return this.request(store, 'readonly', objectStore => objectStore.get(key));
+  }
+
+  async getAll<T>(store: StoreName): Promise<T[]> {
+    return this.request(store, 'readonly', objectStore => objectStore.getAll());
+  }
+
+  async getAllKeys(store: StoreName): Promise<IDBValidKey[]> {
+    return this.request(store, 'readonly', objectStore => objectStore.getAllKeys());
+  }
+
+  async put<T>(store: StoreName, value: T): Promise<void> {
+    await this.request(store, 'readwrite', objectStore => objectStore.put(value));
+  }
+
+  async putMany<T>(store: StoreName, values: T[]): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([store], 'readwrite');
+      const objectStore = transaction.objectStore(store);
+      values.forEach(value => objectStore.put(value));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async delete(store: StoreName, key: IDBValidKey): Promise<void> {
+    await this.request(store, 'readwrite', objectStore => objectStore.delete(key));
+  }
+
+  async clear(store: StoreName): Promise<void> {
+    await this.request(store, 'readwrite', objectStore => objectStore.clear());
+  }
+
+  // Estimated usage for the whole origin (IndexedDB, caches, localStorage)
+  async estimateUsage(): Promise<{ used: number; available: number; percentage: number }> {
+    if (!navigator.storage?.estimate) {
+      return { used: 0, available: 0, percentage: 0 };
+    }
+
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return {
+      used: usage,
+      available: quota,
+      percentage: quota > 0 ? (usage / quota) * 100 : 0
+    };
+  }
+
+  private async request<T>(
+    store: StoreName,
+    mode: IDBTransactionMode,
+    operation: (objectStore: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([store], mode);
+      const request = operation(transaction.objectStore(store));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const db = request.result;
+          // Another tab upgraded the schema: release the connection so it can proceed
+          db.onversionchange = () => {
+            db.close();
+            this.dbPromise = null;
+          };
+          resolve(db);
+        };
+
+        request.onupgradeneeded = event => {
+          const db = request.result;
+          const transaction = request.transaction!;
+          SCHEMA_MIGRATIONS
+            .filter(migration => migration.version > event.oldVersion)
+            .forEach(migration => migration.upgrade(db, transaction));
+        };
+      });
+
+      this.dbPromise.catch(() => this.dbPromise = null);
+    }
+
+    return this.dbPromise;
+  }
+}
@@ -1,48 +1,117 @@
 import { Injectable } from '@angular/core';
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
+import { PDFDocument, PDFPage, cmyk, rgb, StandardFonts } from 'pdf-lib';
 import * as JSZip from 'jszip';
-import * as htmlToImage from 'html-to-image';
-import { PlayerData, ExportOptions } from '../models/player.model';
+import { PlayerData, CardTemplate, ExportOptions, ProjectSettings } from '../models/player.model';
+import { PrintProfile } from '../models/print.model';
+import { AnimationProfile } from '../models/animation.model';
+import { CardRendererService, CompositeScene, CARD_HEIGHT, CARD_WIDTH } from './card-renderer.service';
+import { SheetLayout, SheetSlot, extendBleed, layoutSheet, limitToPrintGamut, mmToPixels, mmToPoints } from '../utils/print-sheet';
+import { createCardAnimation } from '../utils/card-animation';
+import { createGifEncoder } from '../utils/gif-encoder';
+import { createApngEncoder } from '../utils/apng-encoder';
+
+// Hairline in registration color, so crop marks show on every printing plate
+const CROP_MARK_THICKNESS = 0.25;
+// Codecs tried for WebM, best first
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+const WEBM_BITRATE = 4_000_000;
 
 @Injectable({
   providedIn: 'root'
 })
 export class ExportService {
 
-  constructor() {}
+  constructor(private cardRenderer: CardRendererService) {}
 
   // PNG Export with multiple sizes
   async exportCardAsPNG(
-    cardElement: HTMLElement, 
-    playerData: PlayerData, 
-    size: 'transparent' | 'web' | 'social' = 'transparent'
+    playerData: PlayerData,
+    template: CardTemplate,
+    size: 'transparent' | 'web' | 'social' | 'print' = 'transparent'
   ): Promise<string> {
     const dimensions = this.getExportDimensions(size);
-    
-    return await htmlToImage.toPng(cardElement, {
-      quality: 1,
-      backgroundColor: size === 'transparent' ? undefined : '#ffffff',
+
+    return await this.cardRenderer.renderToDataURL(playerData, template, {
       width: dimensions.width,
       height: dimensions.height,
-      pixelRatio: window.devicePixelRatio || 2, // High DPI support
-      style: {
-        transform: 'scale(1)',
-        transformOrigin: 'top left'
-      }
+      background: size === 'transparent' ? undefined : '#ffffff'
     });
   }
 
-  // Generate A4 PDF contact sheet with multiple cards
+  // Card back at the same sizes as the front
+  async exportCardBackAsPNG(
+    playerData: PlayerData,
+    template: CardTemplate,
+    size: 'transparent' | 'web' | 'social' | 'print' = 'transparent'
+  ): Promise<string> {
+    const dimensions = this.getExportDimensions(size);
+    const canvas = await this.cardRenderer.renderBackToCanvas(playerData, template, {
+      width: dimensions.width,
+      height: dimensions.height,
+      background: size === 'transparent' ? undefined : '#ffffff'
+    });
+    return canvas.toDataURL('image/png');
+  }
+
+  // Standalone SVG document of the card
+  async exportCardAsSVG(playerData: PlayerData, template: CardTemplate): Promise<Blob> {
+    const svg = await this.cardRenderer.renderToSVG(playerData, template);
+    return new Blob([svg], { type: 'image/svg+xml' });
+  }
+
+  // Lineup sheet (pitch with placed cards) as a single PNG
+  async exportLineupAsPNG(sheet: CompositeScene, scale: number = 2): Promise<string> {
+    const canvas = await this.cardRenderer.renderCompositeToCanvas(sheet, { scale });
+    return canvas.toDataURL('image/png');
+  }
+
+  // Lineup sheet on a single A4 page
+  async exportLineupAsPDF(
+    sheet: CompositeScene,
+    options: { includeWatermark?: boolean; customBranding?: string } = {}
+  ): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.create();
+    const helveticaFont = await pdfDoc.embedFont(StandardFonts.Helvetica);
+
+    // A4 dimensions in points (595 × 842)
+    const pageWidth = 595;
+    const pageHeight = 842;
+    const margin = 30;
+    const page = pdfDoc.addPage([pageWidth, pageHeight]);
+
+    const sheetImage = await pdfDoc.embedPng(await this.exportLineupAsPNG(sheet));
+    const imageDims = sheetImage.scale(Math.min(
+      (pageWidth - 2 * margin) / sheetImage.width,
+      (pageHeight - 2 * margin) / sheetImage.height
+    ));
+
+    page.drawImage(sheetImage, {
+      x: (pageWidth - imageDims.width) / 2,
+      y: (pageHeight - imageDims.height) / 2,
+      width: imageDims.width,
+      height: imageDims.height
+    });
+
+    if (options.includeWatermark) {
+      this.addWatermark(page, pageWidth, pageHeight, helveticaFont, options.customBranding);
+    }
+
+    return await pdfDoc.save();
+  }
+
+  // Generate A4 PDF contact sheet with multiple cards. With duplex, every sheet is
+  // followed by a page of card backs, columns mirrored for a long-edge flip.
   async generatePDFContactSheet(
-    cards: { playerData: PlayerData; imageDataUrl: string }[],
+    cards: { playerData: PlayerData; imageDataUrl: string; backImageDataUrl?: string }[],
     options: { 
       cardsPerRow?: number; 
       cardsPerColumn?: number; 
       includeWatermark?: boolean;
       customBranding?: string;
+      duplex?: boolean;
     } = {}
   ): Promise<Uint8Array> {
-    const { cardsPerRow = 3, cardsPerColumn = 4, includeWatermark = false } = options;
+    const { cardsPerRow = 3, cardsPerColumn = 4, includeWatermark = false, duplex = false } = options;
     
     // Create PDF document
     const pdfDoc = await PDFDocument.create();
@@ -144,25 +213,157 @@ export class ExportService {
       if (includeWatermark) {
         this.addWatermark(page, pageWidth, pageHeight, helveticaFont, options.customBranding);
       }
+
+      if (duplex) {
+        const backPage = pdfDoc.addPage([pageWidth, pageHeight]);
+        this.addCropMarks(backPage, pageWidth, pageHeight, margin);
+
+        for (let i = startIndex; i < endIndex; i++) {
+          const backImageDataUrl = cards[i].backImageDataUrl;
+          if (!backImageDataUrl) continue;
+
+          const cardIndex = i - startIndex;
+          const row = Math.floor(cardIndex / cardsPerRow);
+          const col = cardsPerRow - 1 - (cardIndex % cardsPerRow);
+          const x = margin + (col * (cardWidth + bleedMargin));
+          const y = pageHeight - margin - (row + 1) * (cardHeight + bleedMargin);
+
+          try {
+            const backImage = await pdfDoc.embedPng(backImageDataUrl);
+            const imageDims = backImage.scale(Math.min(cardWidth / backImage.width, cardHeight / backImage.height));
+            backPage.drawImage(backImage, {
+              x: x + (cardWidth - imageDims.width) / 2,
+              y: y + (cardHeight - imageDims.height) / 2,
+              width: imageDims.width,
+              height: imageDims.height
+            });
+          } catch (error) {
+            console.error(`Error embedding card back ${i}:`, error);
+          }
+        }
+      }
     }
     
     return await pdfDoc.save();
   }
 
+  // Print-ready PDF: every card at its real trim size and the profile's DPI, with bleed and
+  // crop marks, imposed on the profile's paper. Duplex puts a back page after each front page.
+  async generatePrintSheet(
+    cards: { playerData: PlayerData; template: CardTemplate }[],
+    profile: PrintProfile,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<Uint8Array> {
+    const layout = layoutSheet(profile);
+    const pdfDoc = await PDFDocument.create();
+    const pageSize: [number, number] = [mmToPoints(layout.pageWidth), mmToPoints(layout.pageHeight)];
+    const perPage = layout.slots.length;
+    const total = cards.length * (profile.duplex ? 2 : 1);
+    let done = 0;
+
+    for (let start = 0; start < cards.length; start += perPage) {
+      const pageCards = cards.slice(start, start + perPage);
+
+      const front = pdfDoc.addPage(pageSize);
+      for (let i = 0; i < pageCards.length; i++) {
+        const { playerData, template } = pageCards[i];
+        const image = await this.renderPrintCard(scale => this.cardRenderer.renderToCanvas(playerData, template, { scale }), layout, profile);
+        await this.drawPrintCard(pdfDoc, front, image, layout.slots[i], layout, profile);
+        onProgress?.(++done, total);
+      }
+      this.drawSheetCropMarks(front, layout);
+
+      if (profile.duplex) {
+        const back = pdfDoc.addPage(pageSize);
+        for (let i = 0; i < pageCards.length; i++) {
+          const { playerData, template } = pageCards[i];
+          const image = await this.renderPrintCard(scale => this.cardRenderer.renderBackToCanvas(playerData, template, { scale }), layout, profile);
+          await this.drawPrintCard(pdfDoc, back, image, layout.backSlots[i], layout, profile);
+          onProgress?.(++done, total);
+        }
+        this.drawSheetCropMarks(back, layout);
+      }
+    }
+
+    return await pdfDoc.save();
+  }
+
+  // Animated card: rendered once, then every frame tilts, lights or reveals it and is
+  // encoded in the browser. WebM records in real time, so it takes the clip's length.
+  async exportCardAnimation(
+    playerData: PlayerData,
+    template: CardTemplate,
+    profile: AnimationProfile,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<Blob> {
+    const card = await this.cardRenderer.renderToCanvas(playerData, template, { scale: profile.scale });
+    const animation = createCardAnimation(card, {
+      ...profile,
+      shine: profile.shine && !!template.metallic,
+      accent: template.colorScheme.accent
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = animation.width;
+    canvas.height = animation.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: profile.format === 'gif' })!;
+    const total = Math.max(1, Math.round(profile.durationSeconds * profile.fps));
+    const drawFrame = (index: number) => animation.drawFrame(ctx, index / profile.fps);
+
+    if (profile.format === 'webm') {
+      return await this.recordWebM(canvas, total, profile.fps, drawFrame, onProgress);
+    }
+
+    if (profile.format === 'apng') {
+      const apng = createApngEncoder(canvas.width, canvas.height, { ...profile, frameCount: total });
+      await this.encodeFrames(total, async index => {
+        drawFrame(index);
+        const png = await new Promise<Blob>((resolve, reject) => {
+          canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Canvas encoding failed')), 'image/png');
+        });
+        apng.addFrame(new Uint8Array(await png.arrayBuffer()));
+      }, onProgress);
+      return apng.finish();
+    }
+
+    const gif = createGifEncoder(canvas.width, canvas.height, profile);
+    await this.encodeFrames(total, index => {
+      drawFrame(index);
+      gif.addFrame(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    }, onProgress);
+    return gif.finish();
+  }
+
+  supportsWebM(): boolean {
+    return !!this.getWebMType();
+  }
+
   // Create ZIP file with multiple PNGs and PDF
   async createBatchExportZip(
-    cards: { playerData: PlayerData; pngData: string }[],
+    cards: { playerData: PlayerData; pngData: string; backPngData?: string }[],
     pdfData?: Uint8Array,
     options: { includeJSON?: boolean } = {}
   ): Promise<Blob> {
     const zip = new JSZip();
     
     // Add individual PNG files
+    // Names that sanitize to the same text (namesakes, non-Latin names) get a number
+    // so no card overwrites another
     const pngFolder = zip.folder('cards');
-    cards.forEach((card, index) => {
-      const filename = `${this.sanitizeFilename(card.playerData.name)}_FIFA_Card.png`;
+    const usedNames = new Set<string>();
+    cards.forEach(card => {
+      const baseName = this.sanitizeFilename(card.playerData.name) || 'Card';
+      let name = baseName;
+      for (let count = 2; usedNames.has(name.toLowerCase()); count++) {
+        name = `${baseName}_${count}`;
+      }
+      usedNames.add(name.toLowerCase());
+      const filename = `${name}_FIFA_Card.png`;
       const base64Data = card.pngData.split(',')[1]; // Remove data URL prefix
       pngFolder?.file(filename, base64Data, { base64: true });
+      if (card.backPngData) {
+        pngFolder?.file(filename.replace(/\.png$/, '_Back.png'), card.backPngData.split(',')[1], { base64: true });
+      }
     });
     
     // Add PDF contact sheet
@@ -190,21 +391,13 @@ export class ExportService {
   }
 
   // Copy card image to clipboard
-  async copyToClipboard(cardElement: HTMLElement): Promise<boolean> {
+  async copyToClipboard(playerData: PlayerData, template: CardTemplate): Promise<boolean> {
     try {
-      const blob = await htmlToImage.toBlob(cardElement, {
-        quality: 1,
-        backgroundColor: undefined,
-        pixelRatio: 2
-      });
-      
-      if (blob) {
-        await navigator.clipboard.write([
-          new ClipboardItem({ 'image/png': blob })
-        ]);
-        return true;
-      }
-      return false;
+      const blob = await this.cardRenderer.renderToBlob(playerData, template, { scale: 2 });
+      await navigator.clipboard.write([
+        new ClipboardItem({ 'image/png': blob })
+      ]);
+      return true;
     } catch (error) {
       console.error('Clipboard copy failed:', error);
       return false;
@@ -212,15 +405,15 @@ export class ExportService {
   }
 
   // Import project file
-  async importProjectFile(file: File): Promise<{ cards: PlayerData[]; settings: any } | null> {
+  async importProjectFile(file: File): Promise<{ cards: PlayerData[]; settings: Partial<ProjectSettings> } | null> {
     try {
       const text = await file.text();
-      const projectData = JSON.parse(text);
+      const projectData: { version?: unknown; cards?: unknown; settings?: unknown } = JSON.parse(text);
       
-      if (projectData.version && projectData.cards) {
+      if (projectData.version && Array.isArray(projectData.cards)) {
         return {
           cards: projectData.cards,
-          settings: projectData.settings || {}
+          settings: projectData.settings && typeof projectData.settings === 'object' ? projectData.settings : {}
         };
       }
       
@@ -237,10 +430,142 @@ export class ExportService {
       case 'transparent': return { width: 1024, height: 1536 }; // Print quality
       case 'web': return { width: 512, height: 768 }; // Web optimized
       case 'social': return { width: 1080, height: 1080 }; // Square social media
+      case 'print': return { width: 744, height: 1039 }; // 63 x 88 mm trading card at 300 DPI
       default: return { width: 1024, height: 1536 };
     }
   }
 
+  // Card at the trim size in device pixels with bleed mirrored out on every side. The card
+  // is scaled to cover the trim; standard sizes are within a fraction of a percent of its ratio.
+  private async renderPrintCard(
+    render: (scale: number) => Promise<HTMLCanvasElement>,
+    layout: SheetLayout,
+    profile: PrintProfile
+  ): Promise<HTMLCanvasElement> {
+    const width = mmToPixels(layout.cardSize.widthMm, profile.dpi);
+    const height = mmToPixels(layout.cardSize.heightMm, profile.dpi);
+    const rendered = await render(Math.max(width / CARD_WIDTH, height / CARD_HEIGHT));
+
+    const trim = document.createElement('canvas');
+    trim.width = width;
+    trim.height = height;
+    const ctx = trim.getContext('2d', { willReadFrequently: profile.cmykSafe })!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(rendered, (width - rendered.width) / 2, (height - rendered.height) / 2);
+
+    if (profile.cmykSafe) {
+      const pixels = ctx.getImageData(0, 0, width, height);
+      limitToPrintGamut(pixels);
+      ctx.putImageData(pixels, 0, 0);
+    }
+
+    return extendBleed(trim, mmToPixels(profile.bleedMm, profile.dpi));
+  }
+
+  // Place a bleed-extended card, cut down to the bleed its slot has room for
+  private async drawPrintCard(pdfDoc: PDFDocument, page: PDFPage, image: HTMLCanvasElement, slot: SheetSlot, layout: SheetLayout, profile: PrintProfile) {
+    const { dpi, bleedMm } = profile;
+    const { widthMm, heightMm } = layout.cardSize;
+    const { bleed } = slot;
+    const fullBleed = mmToPixels(bleedMm, dpi);
+
+    const sheetCard = document.createElement('canvas');
+    sheetCard.width = mmToPixels(widthMm, dpi) + mmToPixels(bleed.left, dpi) + mmToPixels(bleed.right, dpi);
+    sheetCard.height = mmToPixels(heightMm, dpi) + mmToPixels(bleed.top, dpi) + mmToPixels(bleed.bottom, dpi);
+    sheetCard.getContext('2d')!.drawImage(
+      image,
+      fullBleed - mmToPixels(bleed.left, dpi),
+      fullBleed - mmToPixels(bleed.top, dpi),
+      sheetCard.width,
+      sheetCard.height,
+      0,
+      0,
+      sheetCard.width,
+      sheetCard.height
+    );
+
+    const embedded = await pdfDoc.embedJpg(sheetCard.toDataURL('image/jpeg', 0.95));
+    page.drawImage(embedded, {
+      x: mmToPoints(slot.x - bleed.left),
+      y: mmToPoints(layout.pageHeight - slot.y - heightMm - bleed.bottom),
+      width: mmToPoints(widthMm + bleed.left + bleed.right),
+      height: mmToPoints(heightMm + bleed.top + bleed.bottom)
+    });
+  }
+
+  // One frame at a time, yielding in between so the progress shows and the page stays responsive
+  private async encodeFrames(
+    total: number,
+    encodeFrame: (index: number) => void | Promise<void>,
+    onProgress?: (done: number, total: number) => void
+  ) {
+    for (let index = 0; index < total; index++) {
+      await encodeFrame(index);
+      onProgress?.(index + 1, total);
+      await new Promise(resolve => setTimeout(resolve));
+    }
+  }
+
+  // MediaRecorder timestamps frames by the wall clock, so each one is painted in its slot
+  private async recordWebM(
+    canvas: HTMLCanvasElement,
+    total: number,
+    fps: number,
+    drawFrame: (index: number) => void,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<Blob> {
+    const mimeType = this.getWebMType();
+    if (!mimeType) {
+      throw new Error('This browser cannot record WebM video, use GIF or APNG instead');
+    }
+
+    const stream = canvas.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: WEBM_BITRATE });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>((resolve, reject) => {
+      recorder.onstop = () => resolve();
+      recorder.onerror = () => reject(new Error('WebM recording failed'));
+    });
+    // Awaited after the frames; a recorder error stops the recorder and ends the loop early
+    stopped.catch(() => {});
+
+    try {
+      recorder.start();
+      const start = performance.now();
+      for (let index = 0; index < total && recorder.state !== 'inactive'; index++) {
+        drawFrame(index);
+        track.requestFrame();
+        onProgress?.(index + 1, total);
+        await new Promise(resolve => setTimeout(resolve, Math.max(0, start + (index + 1) * 1000 / fps - performance.now())));
+      }
+      if (recorder.state !== 'inactive') recorder.stop();
+      await stopped;
+    } finally {
+      if (recorder.state !== 'inactive') recorder.stop();
+      stream.getTracks().forEach(streamTrack => streamTrack.stop());
+    }
+
+    return new Blob(chunks, { type: 'video/webm' });
+  }
+
+  private getWebMType(): string | undefined {
+    return typeof MediaRecorder === 'undefined' ? undefined : WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  }
+
+  private drawSheetCropMarks(page: PDFPage, layout: SheetLayout) {
+    layout.cropMarks.forEach(mark => page.drawLine({
+      start: { x: mmToPoints(mark.x1), y: mmToPoints(layout.pageHeight - mark.y1) },
+      end: { x: mmToPoints(mark.x2), y: mmToPoints(layout.pageHeight - mark.y2) },
+      thickness: CROP_MARK_THICKNESS,
+      color: cmyk(1, 1, 1, 1)
+    }));
+  }
+
   private addCropMarks(page: any, pageWidth: number, pageHeight: number, margin: number) {
     const markLength = 10;
     const markColor = rgb(0, 0, 0);
@@ -0,0 +1,134 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import {
+  DEFAULT_IMAGE_OPTIONS,
+  ImageProcessOptions,
+  ImageWorkerRequest,
+  ImageWorkerResponse,
+  ProcessedImage,
+  processImage
+} from '../utils/image-pipeline';
+import { sanitizeSvg, svgToDataUrl } from '../utils/svg';
+
+// Logos are drawn at most ~60px wide; 256px keeps them sharp in 2x exports
+const LOGO_MAX_SIZE = 256;
+
+export interface ImageBatchProgress {
+  current: number; // files done
+  total: number;
+  fileName: string;
+}
+
+export interface ImageBatchResult {
+  images: Map<string, ProcessedImage>; // file name -> image; duplicates share one image
+  duplicates: number;
+  failed: { fileName: string; message: string }[];
+}
+
+// Photo processing (orientation, metadata stripping, resizing, re-encoding) for both
+// single uploads and photo libraries. Runs in a Web Worker when the browser allows,
+// otherwise on the main thread with the same pipeline.
+@Injectable({
+  providedIn: 'root'
+})
+export class ImageService implements OnDestroy {
+  private worker: Worker | null | undefined;
+  private nextRequestId = 0;
+  private pending = new Map<number, ImageWorkerRequest & { resolve: (image: ProcessedImage) => void; reject: (error: Error) => void }>();
+
+  async process(blob: Blob, options: Partial<ImageProcessOptions> = {}): Promise<ProcessedImage> {
+    const fullOptions = { ...DEFAULT_IMAGE_OPTIONS, ...options };
+    const worker = this.getWorker();
+    if (!worker) {
+      return processImage(blob, fullOptions);
+    }
+
+    return new Promise((resolve, reject) => {
+      const request: ImageWorkerRequest = { id: this.nextRequestId++, blob, options: fullOptions };
+      this.pending.set(request.id, { ...request, resolve, reject });
+      worker.postMessage(request);
+    });
+  }
+
+  // One file at a time, read only when its turn comes, so a large library never sits
+  // in memory unprocessed; identical photos are kept once
+  async processMany(
+    files: { fileName: string; read: () => Promise<Blob> }[],
+    onProgress: (progress: ImageBatchProgress) => void,
+    options: Partial<ImageProcessOptions> = {}
+  ): Promise<ImageBatchResult> {
+    const images = new Map<string, ProcessedImage>();
+    const byHash = new Map<string, ProcessedImage>();
+    const failed: ImageBatchResult['failed'] = [];
+    let duplicates = 0;
+
+    for (let i = 0; i < files.length; i++) {
+      const { fileName, read } = files[i];
+      onProgress({ current: i, total: files.length, fileName });
+
+      try {
+        const image = await this.process(await read(), options);
+        const existing = byHash.get(image.hash);
+        if (existing) duplicates++;
+        else byHash.set(image.hash, image);
+        images.set(fileName, existing || image);
+      } catch (error) {
+        failed.push({ fileName, message: error instanceof Error ? error.message : 'Could not process image' });
+      }
+    }
+
+    onProgress({ current: files.length, total: files.length, fileName: '' });
+    return { images, duplicates, failed };
+  }
+
+  // Logos keep SVG as (sanitized) vectors; raster logos go through the photo pipeline,
+  // which keeps transparency as PNG
+  async processLogo(file: File): Promise<string> {
+    if (file.type === 'image/svg+xml' || /\.svg$/i.test(file.name)) {
+      return svgToDataUrl(sanitizeSvg(await file.text()));
+    }
+    return (await this.process(file, { maxSize: LOGO_MAX_SIZE })).dataUrl;
+  }
+
+  ngOnDestroy() {
+    this.worker?.terminate();
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker !== undefined) return this.worker;
+
+    if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+      this.worker = null;
+      return null;
+    }
+
+    try {
+      this.worker = new Worker(new URL('../workers/image.worker', import.meta.url), { type: 'module' });
+      this.worker.onmessage = ({ data }: MessageEvent<ImageWorkerResponse>) => this.settle(data);
+      // The worker script failed to load: finish what it had on the main thread and stop using it
+      this.worker.onerror = event => {
+        event.preventDefault();
+        console.warn('Image worker unavailable, processing on the main thread:', event.message);
+        this.worker?.terminate();
+        this.worker = null;
+        this.pending.forEach(({ blob, options, resolve, reject }) => processImage(blob, options).then(resolve, reject));
+        this.pending.clear();
+      };
+    } catch (error) {
+      console.warn('Could not start image worker:', error);
+      this.worker = null;
+    }
+    return this.worker;
+  }
+
+  private settle(response: ImageWorkerResponse) {
+    const request = this.pending.get(response.id);
+    if (!request) return;
+
+    this.pending.delete(response.id);
+    if ('error' in response) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.image);
+    }
+  }
+}
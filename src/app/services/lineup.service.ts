@@ -0,0 +1,245 @@
+import { Injectable } from '@angular/core';
+import { PlayerData } from '../models/player.model';
+import { FORMATIONS, Formation, LINE_POSITIONS, PitchLine, TeamRatings } from '../models/lineup.model';
+import { CardService } from './card.service';
+import { CARD_HEIGHT, CARD_WIDTH, CompositeScene, PlacedCard } from './card-renderer.service';
+import { ScenePrimitive } from '../utils/scene-painter';
+
+// Lineup sheet geometry in scene units
+const SHEET_WIDTH = 1000;
+const HEADER_HEIGHT = 140;
+const PITCH_HEIGHT = 1260;
+const PITCH_MARGIN = 30;
+const SLOT_CARD_WIDTH = 140;
+const SLOT_CARD_HEIGHT = SLOT_CARD_WIDTH * CARD_HEIGHT / CARD_WIDTH;
+
+const PITCH_LINE_COLOR = 'rgba(255, 255, 255, 0.7)';
+const TITLE_FONT = 'Roboto Condensed, Arial Narrow, sans-serif';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class LineupService {
+
+  constructor(private cardService: CardService) {}
+
+  getFormations(): Formation[] {
+    return FORMATIONS;
+  }
+
+  getFormation(id: string): Formation {
+    return FORMATIONS.find(formation => formation.id === id) || FORMATIONS[0];
+  }
+
+  // Fill every slot, preferring players whose IT role suits the slot's line,
+  // then the strongest remaining players out of position
+  autoAssign(formation: Formation, players: PlayerData[]): Record<string, string> {
+    const assignments: Record<string, string> = {};
+    const available = [...players]
+      .filter(player => player.id)
+      .sort((a, b) => this.getPlayerRating(b) - this.getPlayerRating(a));
+
+    const take = (predicate: (player: PlayerData) => boolean): PlayerData | undefined => {
+      const index = available.findIndex(predicate);
+      return index >= 0 ? available.splice(index, 1)[0] : undefined;
+    };
+
+    const lines: PitchLine[] = ['goalkeeper', 'defence', 'midfield', 'attack'];
+    lines.forEach(line => {
+      const slots = formation.slots.filter(slot => slot.line === line);
+      LINE_POSITIONS[line].forEach(position => {
+        slots
+          .filter(slot => !assignments[slot.id])
+          .forEach(slot => {
+            const player = take(candidate => candidate.position === position);
+            if (player) assignments[slot.id] = player.id!;
+          });
+      });
+    });
+
+    formation.slots
+      .filter(slot => !assignments[slot.id])
+      .forEach(slot => {
+        const player = take(() => true);
+        if (player) assignments[slot.id] = player.id!;
+      });
+
+    return assignments;
+  }
+
+  // Resolve slot assignments to cards, dropping ids that are no longer in the squad
+  resolveLineup(formation: Formation, assignments: Record<string, string>, players: PlayerData[]): (PlayerData | null)[] {
+    return formation.slots.map(slot => players.find(player => player.id === assignments[slot.id]) || null);
+  }
+
+  // Line and team averages of each card's computed overall rating
+  getTeamRatings(formation: Formation, lineup: (PlayerData | null)[]): TeamRatings {
+    const ratingsFor = (line?: PitchLine) => formation.slots
+      .map((slot, index) => ({ slot, player: lineup[index] }))
+      .filter(({ slot, player }) => player && (!line || slot.line === line))
+      .map(({ player }) => this.getPlayerRating(player!));
+
+    const average = (values: number[]) =>
+      values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
+    const all = ratingsFor();
+    return {
+      overall: average(all),
+      attack: average(ratingsFor('attack')),
+      midfield: average(ratingsFor('midfield')),
+      defence: average(ratingsFor('defence')),
+      goalkeeper: average(ratingsFor('goalkeeper')),
+      filled: all.length,
+      total: formation.slots.length
+    };
+  }
+
+  // Pitch, header and card placements for PNG/PDF export
+  buildLineupSheet(title: string, formation: Formation, lineup: (PlayerData | null)[]): CompositeScene {
+    const ratings = this.getTeamRatings(formation, lineup);
+    const primitives: ScenePrimitive[] = [
+      ...this.buildSheetHeader(title, formation, ratings),
+      ...this.buildPitch()
+    ];
+    const cards: PlacedCard[] = [];
+
+    formation.slots.forEach((slot, index) => {
+      const centerX = slot.x * SHEET_WIDTH;
+      const centerY = HEADER_HEIGHT + slot.y * PITCH_HEIGHT;
+      const x = centerX - SLOT_CARD_WIDTH / 2;
+      const y = centerY - SLOT_CARD_HEIGHT / 2;
+      const player = lineup[index];
+
+      if (player) {
+        cards.push({ player, template: this.cardService.getTemplateForPlayer(player), x, y, width: SLOT_CARD_WIDTH });
+        return;
+      }
+
+      const placeholder = { kind: 'rect' as const, x, y, width: SLOT_CARD_WIDTH, height: SLOT_CARD_HEIGHT, radius: 10 };
+      primitives.push(
+        { type: 'fill', shape: placeholder, paint: 'rgba(0, 0, 0, 0.2)' },
+        { type: 'stroke', shape: placeholder, color: PITCH_LINE_COLOR, width: 2 },
+        {
+          type: 'text',
+          text: slot.label,
+          x: centerX,
+          y: centerY + 10,
+          font: { family: TITLE_FONT, size: 28, weight: 700 },
+          color: PITCH_LINE_COLOR,
+          align: 'center'
+        }
+      );
+    });
+
+    return {
+      scene: { width: SHEET_WIDTH, height: HEADER_HEIGHT + PITCH_HEIGHT, primitives },
+      cards
+    };
+  }
+
+  getPlayerRating(player: PlayerData): number {
+    return this.cardService.calculatePlayerRating(player);
+  }
+
+  // ===== Sheet sections =====
+
+  private buildSheetHeader(title: string, formation: Formation, ratings: TeamRatings): ScenePrimitive[] {
+    const format = (value: number | null) => value === null ? '-' : String(value);
+    const summary = [
+      `ATT ${format(ratings.attack)}`,
+      `MID ${format(ratings.midfield)}`,
+      `DEF ${format(ratings.defence)}`,
+      `GK ${format(ratings.goalkeeper)}`
+    ].join('   ');
+
+    return [
+      { type: 'fill', shape: { kind: 'rect', x: 0, y: 0, width: SHEET_WIDTH, height: HEADER_HEIGHT }, paint: '#0f172a' },
+      {
+        type: 'text',
+        text: title,
+        x: 40,
+        y: 62,
+        font: { family: TITLE_FONT, size: 44, weight: 700 },
+        color: '#ffffff',
+        align: 'left',
+        maxWidth: 620
+      },
+      {
+        type: 'text',
+        text: `${formation.name}  ·  ${ratings.filled}/${ratings.total} players  ·  ${summary}`,
+        x: 40,
+        y: 106,
+        font: { family: TITLE_FONT, size: 24, weight: 500 },
+        color: '#94a3b8',
+        align: 'left',
+        maxWidth: 760
+      },
+      {
+        type: 'text',
+        text: format(ratings.overall),
+        x: SHEET_WIDTH - 40,
+        y: 84,
+        font: { family: TITLE_FONT, size: 72, weight: 700 },
+        color: '#facc15',
+        align: 'right'
+      },
+      {
+        type: 'text',
+        text: 'OVR',
+        x: SHEET_WIDTH - 40,
+        y: 118,
+        font: { family: TITLE_FONT, size: 20, weight: 600 },
+        color: '#facc15',
+        align: 'right',
+        letterSpacing: 2
+      }
+    ];
+  }
+
+  private buildPitch(): ScenePrimitive[] {
+    const top = HEADER_HEIGHT;
+    const left = PITCH_MARGIN;
+    const right = SHEET_WIDTH - PITCH_MARGIN;
+    const bottom = HEADER_HEIGHT + PITCH_HEIGHT - PITCH_MARGIN;
+    const fieldTop = top + PITCH_MARGIN;
+    const centerX = SHEET_WIDTH / 2;
+    const centerY = (fieldTop + bottom) / 2;
+    const boxWidth = 440;
+    const boxDepth = 170;
+    const goalWidth = 200;
+    const goalDepth = 60;
+
+    const primitives: ScenePrimitive[] = [
+      { type: 'fill', shape: { kind: 'rect', x: 0, y: top, width: SHEET_WIDTH, height: PITCH_HEIGHT }, paint: '#166534' }
+    ];
+
+    // Mowing stripes
+    const stripeCount = 10;
+    const stripeHeight = PITCH_HEIGHT / stripeCount;
+    for (let i = 0; i < stripeCount; i += 2) {
+      primitives.push({
+        type: 'fill',
+        shape: { kind: 'rect', x: 0, y: top + i * stripeHeight, width: SHEET_WIDTH, height: stripeHeight },
+        paint: 'rgba(255, 255, 255, 0.05)'
+      });
+    }
+
+    const line = (x1: number, y1: number, x2: number, y2: number): ScenePrimitive =>
+      ({ type: 'line', x1, y1, x2, y2, color: PITCH_LINE_COLOR, width: 3 });
+    const box = (x: number, y: number, width: number, height: number): ScenePrimitive =>
+      ({ type: 'stroke', shape: { kind: 'rect', x, y, width, height }, color: PITCH_LINE_COLOR, width: 3 });
+
+    primitives.push(
+      box(left, fieldTop, right - left, bottom - fieldTop),
+      line(left, centerY, right, centerY),
+      { type: 'stroke', shape: { kind: 'circle', cx: centerX, cy: centerY, r: 90 }, color: PITCH_LINE_COLOR, width: 3 },
+      { type: 'fill', shape: { kind: 'circle', cx: centerX, cy: centerY, r: 5 }, paint: PITCH_LINE_COLOR },
+      box(centerX - boxWidth / 2, fieldTop, boxWidth, boxDepth),
+      box(centerX - goalWidth / 2, fieldTop, goalWidth, goalDepth),
+      box(centerX - boxWidth / 2, bottom - boxDepth, boxWidth, boxDepth),
+      box(centerX - goalWidth / 2, bottom - goalDepth, goalWidth, goalDepth)
+    );
+
+    return primitives;
+  }
+}
@@ -0,0 +1,280 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, map } from 'rxjs';
+import { PlayerData, Project, ProjectSettings } from '../models/player.model';
+import { DatabaseService } from './database.service';
+import { CardRecord, CardRepositoryService } from './card-repository.service';
+import { StorageService } from './storage.service';
+import { CardService } from './card.service';
+
+// Project as persisted: card images are deduplicated into the `photos` store
+interface ProjectRecord {
+  id: string;
+  name: string;
+  description?: string;
+  cards: CardRecord[];
+  settings: ProjectSettings;
+  createdAt: number;
+  updatedAt: number;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ProjectService {
+  private readonly ACTIVE_PROJECT_SETTING = 'activeProjectId';
+  private readonly DEFAULT_PROJECT_NAME = 'My Squad';
+
+  private projectsSubject = new BehaviorSubject<Project[]>([]);
+  private activeProjectIdSubject = new BehaviorSubject<string | null>(null);
+  private updateQueue: Promise<unknown> = Promise.resolve();
+
+  public projects$ = this.projectsSubject.asObservable();
+  public activeProject$: Observable<Project | null> = this.activeProjectIdSubject.pipe(
+    map(id => this.projectsSubject.value.find(project => project.id === id) || null)
+  );
+
+  // Resolves once projects are loaded and one of them is active
+  public readonly ready: Promise<void>;
+
+  constructor(
+    private database: DatabaseService,
+    private cardRepository: CardRepositoryService,
+    private storageService: StorageService,
+    private cardService: CardService
+  ) {
+    this.ready = this.loadProjects();
+
+    // New and imported cards use the stat schema, positions, rating weights, branding and variant boosts of the active project
+    this.activeProject$.subscribe(project => {
+      this.cardService.setActiveStatSchema(project?.settings.statSchemaId);
+      this.cardService.setRatingProfiles(project?.settings.ratingProfiles);
+      this.cardService.setCustomPositions(project?.settings.customPositions);
+      this.cardService.setCardBranding(project?.settings.customBranding);
+      this.cardService.setVariantBoosts(project?.settings.variantBoosts);
+    });
+  }
+
+  getProjects(): Project[] {
+    return this.projectsSubject.value;
+  }
+
+  getActiveProject(): Project | null {
+    return this.getProjects().find(project => project.id === this.activeProjectIdSubject.value) || null;
+  }
+
+  // Project lifecycle
+  async createProject(name: string, settings: Partial<ProjectSettings> = {}, cards: PlayerData[] = []): Promise<Project> {
+    const project: Project = {
+      id: this.generateId(),
+      name: this.uniqueName(name.trim() || this.DEFAULT_PROJECT_NAME),
+      cards,
+      settings: {
+        defaultTemplate: 'gold-classic',
+        ...settings
+      },
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    await this.persist(project);
+    this.projectsSubject.next([...this.getProjects(), project]);
+    return project;
+  }
+
+  async renameProject(id: string, name: string): Promise<void> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Project name is required');
+    }
+    await this.updateProject(id, () => ({ name: trimmed }));
+  }
+
+  async duplicateProject(id: string): Promise<Project> {
+    const source = this.requireProject(id);
+    // Variants are re-linked to the copies of their originals
+    const ids = new Map(source.cards.filter(card => card.id).map(card => [card.id!, this.generateId()]));
+    const cards = source.cards.map(card => ({
+      ...card,
+      id: (card.id && ids.get(card.id)) || this.generateId(),
+      originalId: card.originalId && (ids.get(card.originalId) ?? card.originalId)
+    }));
+    return this.createProject(`${source.name} (Copy)`, { ...source.settings }, cards);
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    this.requireProject(id);
+
+    await this.enqueueUpdate(async () => {
+      await this.database.delete('projects', id);
+      this.projectsSubject.next(this.getProjects().filter(project => project.id !== id));
+    });
+    await this.cardRepository.collectUnusedPhotos();
+
+    const remaining = this.getProjects();
+
+    // Always keep one project to work in
+    if (remaining.length === 0) {
+      const project = await this.createProject(this.DEFAULT_PROJECT_NAME);
+      this.switchProject(project.id);
+    } else if (this.activeProjectIdSubject.value === id) {
+      this.switchProject(remaining[0].id);
+    }
+  }
+
+  switchProject(id: string): void {
+    this.requireProject(id);
+    this.storageService.updateSetting(this.ACTIVE_PROJECT_SETTING, id);
+    this.activeProjectIdSubject.next(id);
+  }
+
+  async updateProjectSettings(id: string, settings: Partial<ProjectSettings>): Promise<void> {
+    this.requireProject(id);
+    await this.updateProject(id, project => ({ settings: { ...project.settings, ...settings } }));
+  }
+
+  // Cards in the active project
+  async upsertCards(cards: PlayerData[], projectId?: string): Promise<void> {
+    const { id } = this.requireProject(projectId ?? this.activeProjectIdSubject.value);
+    const withIds = cards.map(card => ({ ...card, id: card.id || this.generateId(), updatedAt: new Date() }));
+
+    await this.updateProject(id, project => {
+      const updatedCards = [...project.cards];
+      withIds.forEach(card => {
+        const index = updatedCards.findIndex(existing => existing.id === card.id);
+        if (index >= 0) {
+          updatedCards[index] = card;
+        } else {
+          updatedCards.push(card);
+        }
+      });
+      return { cards: updatedCards };
+    });
+  }
+
+  async removeCard(cardId: string, projectId?: string): Promise<void> {
+    const { id } = this.requireProject(projectId ?? this.activeProjectIdSubject.value);
+    await this.updateProject(id, project => ({ cards: project.cards.filter(card => card.id !== cardId) }));
+    await this.cardRepository.collectUnusedPhotos();
+  }
+
+  // Project JSON files
+  async exportProject(id: string): Promise<Blob> {
+    const project = this.requireProject(id);
+    return this.storageService.exportProject(project.cards, project.name, project.settings);
+  }
+
+  async importProject(file: File): Promise<Project | null> {
+    const imported = await this.storageService.importProject(file);
+    if (!imported) return null;
+
+    return this.createProject(imported.name, imported.settings, imported.cards);
+  }
+
+  // Private helpers
+  private async loadProjects(): Promise<void> {
+    try {
+      await this.storageService.ready;
+
+      const records = await this.database.getAll<ProjectRecord>('projects');
+      records.sort((a, b) => a.createdAt - b.createdAt);
+      this.projectsSubject.next(await Promise.all(records.map(record => this.fromRecord(record))));
+    } catch (error) {
+      console.error('Failed to load projects:', error);
+    }
+
+    const storedId = this.storageService.getSetting(this.ACTIVE_PROJECT_SETTING);
+    const active = this.getProjects().find(project => project.id === storedId) || this.getProjects()[0];
+
+    if (active) {
+      this.activeProjectIdSubject.next(active.id);
+    } else {
+      const project = await this.createProject(this.DEFAULT_PROJECT_NAME);
+      this.switchProject(project.id);
+    }
+  }
+
+  // `changes` is worked out from the project as the previous update left it
+  private updateProject(id: string, changes: (project: Project) => Partial<Project>): Promise<void> {
+    return this.enqueueUpdate(async () => {
+      const project = this.requireProject(id);
+      const updated: Project = { ...project, ...changes(project), updatedAt: new Date() };
+
+      await this.persist(updated);
+      this.projectsSubject.next(this.getProjects().map(existing => existing.id === id ? updated : existing));
+
+      // Re-emit so activeProject$ subscribers see the new state
+      if (this.activeProjectIdSubject.value === id) {
+        this.activeProjectIdSubject.next(id);
+      }
+    });
+  }
+
+  // Project updates and deletions run one at a time, so overlapping saves (a batch
+  // import and a lineup change, say) never write over each other's changes
+  private enqueueUpdate<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.updateQueue.then(task);
+    this.updateQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async persist(project: Project): Promise<void> {
+    await this.cardRepository.withPhotoLock(async () =>
+      this.database.put<ProjectRecord>('projects', await this.toRecord(project))
+    );
+  }
+
+  private async toRecord(project: Project): Promise<ProjectRecord> {
+    const cards = await Promise.all(project.cards.map(card => this.cardRepository.toRecord({
+      id: card.id!,
+      playerData: card,
+      thumbnail: '',
+      createdAt: card.createdAt || project.createdAt,
+      updatedAt: card.updatedAt || project.updatedAt
+    })));
+
+    return {
+      id: project.id,
+      name: project.name,
+      description: project.description,
+      cards,
+      settings: project.settings,
+      createdAt: new Date(project.createdAt).getTime(),
+      updatedAt: new Date(project.updatedAt).getTime()
+    };
+  }
+
+  private async fromRecord(record: ProjectRecord): Promise<Project> {
+    const cards = await Promise.all(record.cards.map(async card => (await this.cardRepository.toStoredCard(card)).playerData));
+
+    return {
+      id: record.id,
+      name: record.name,
+      description: record.description,
+      cards,
+      settings: record.settings,
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt)
+    };
+  }
+
+  private requireProject(id: string | null): Project {
+    const project = this.getProjects().find(p => p.id === id);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+    return project;
+  }
+
+  private uniqueName(name: string): string {
+    const names = new Set(this.getProjects().map(project => project.name));
+    let candidate = name;
+    for (let suffix = 2; names.has(candidate); suffix++) {
+      candidate = `${name} ${suffix}`;
+    }
+    return candidate;
+  }
+
+  private generateId(): string {
+    return `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
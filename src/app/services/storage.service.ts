@@ -1,17 +1,21 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject } from 'rxjs';
-import { PlayerData, StoredCard } from '../models/player.model';
+import { PlayerData, ProjectSettings, StatSchema, StoredCard } from '../models/player.model';
+import { SavedImportMapping } from '../models/import.model';
+import { DEFAULT_PRINT_PROFILE, PrintProfile } from '../models/print.model';
+import { AnimationProfile, DEFAULT_ANIMATION_PROFILE } from '../models/animation.model';
+import { CardService } from './card.service';
+import { CardRendererService } from './card-renderer.service';
+import { DatabaseService } from './database.service';
+import { CardRepositoryService, HistoryRetentionPolicy, DEFAULT_RETENTION_POLICY } from './card-repository.service';
 
 interface ProjectFile {
   version: string;
   name: string;
   description?: string;
   cards: PlayerData[];
-  settings: {
-    defaultTemplate: string;
-    customBranding?: string;
-    exportOptions: any;
-  };
+  settings: ProjectSettings;
+  statSchemas?: StatSchema[]; // custom schemas the settings or cards refer to
   createdAt: Date;
   exportedAt: Date;
 }
@@ -20,50 +24,63 @@ interface ProjectFile {
   providedIn: 'root'
 })
 export class StorageService {
+  // Legacy localStorage keys, migrated into IndexedDB on first start
   private readonly STORAGE_KEY = 'fifa_card_history';
   private readonly PROJECT_KEY = 'fifa_card_projects';
   private readonly SETTINGS_KEY = 'fifa_card_settings';
-  private readonly MAX_HISTORY = 20;
+  private readonly THUMBNAIL_SIZE = { width: 160, height: 224 };
+
+  private readonly DEFAULT_SETTINGS = {
+    defaultTemplate: 'gold-classic',
+    language: 'en',
+    theme: 'dark',
+    autoSave: true,
+    compressionQuality: 0.9,
+    historyRetention: DEFAULT_RETENTION_POLICY
+  };
 
   private historySubject = new BehaviorSubject<StoredCard[]>([]);
   private settingsSubject = new BehaviorSubject<any>({});
+  private thumbnailsSubject = new BehaviorSubject<Record<string, string>>({});
 
   public history$ = this.historySubject.asObservable();
   public settings$ = this.settingsSubject.asObservable();
-
-  constructor() {
-    this.loadHistory();
-    this.loadSettings();
+  public thumbnails$ = this.thumbnailsSubject.asObservable(); // card id -> object URL
+
+  // Resolves once legacy data is migrated and history/settings are loaded
+  public readonly ready: Promise<void>;
+
+  constructor(
+    private cardService: CardService,
+    private cardRenderer: CardRendererService,
+    private database: DatabaseService,
+    private cardRepository: CardRepositoryService
+  ) {
+    this.ready = this.initialize();
   }
 
   // Card History Management
-  async saveCardToHistory(playerData: PlayerData, cardElement?: HTMLElement): Promise<void> {
+  async saveCardToHistory(playerData: PlayerData): Promise<void> {
     try {
-      let thumbnail = '';
-      
-      // Generate thumbnail if card element is provided
-      if (cardElement) {
-        thumbnail = await this.generateThumbnail(cardElement);
-      }
+      await this.ready;
 
+      const id = playerData.id || this.generateId();
       const storedCard: StoredCard = {
-        id: playerData.id || this.generateId(),
-        playerData: { ...playerData, id: playerData.id || this.generateId() },
-        thumbnail,
+        id,
+        playerData: { ...playerData, id },
+        thumbnail: '', // Thumbnail blobs live in IndexedDB, see thumbnails$
         createdAt: playerData.createdAt || new Date(),
         updatedAt: new Date()
       };
 
-      const currentHistory = this.getHistory();
-      
-      // Remove existing card with same ID if it exists
-      const filteredHistory = currentHistory.filter(card => card.id !== storedCard.id);
-      
-      // Add new card to beginning
-      const updatedHistory = [storedCard, ...filteredHistory].slice(0, this.MAX_HISTORY);
+      await this.cardRepository.save(storedCard);
+      await this.storeThumbnail(storedCard);
 
-      this.saveHistory(updatedHistory);
-      this.historySubject.next(updatedHistory);
+      // Replace any existing entry with the same ID and put the card first
+      const filteredHistory = this.getHistory().filter(card => card.id !== storedCard.id);
+      this.historySubject.next([storedCard, ...filteredHistory]);
+
+      await this.applyRetentionPolicy();
     } catch (error) {
       console.error('Failed to save card to history:', error);
     }
@@ -77,34 +94,100 @@ export class StorageService {
     return this.getHistory().find(card => card.id === id);
   }
 
-  removeFromHistory(id: string): void {
-    const currentHistory = this.getHistory();
-    const updatedHistory = currentHistory.filter(card => card.id !== id);
-    this.saveHistory(updatedHistory);
+  async removeFromHistory(id: string): Promise<void> {
+    const updatedHistory = this.getHistory().filter(card => card.id !== id);
     this.historySubject.next(updatedHistory);
+    this.pruneThumbnails(updatedHistory);
+
+    try {
+      await this.cardRepository.delete(id);
+    } catch (error) {
+      console.error('Failed to remove card from history:', error);
+    }
   }
 
-  clearHistory(): void {
-    this.saveHistory([]);
+  async clearHistory(): Promise<void> {
     this.historySubject.next([]);
+    this.pruneThumbnails([]);
+
+    try {
+      await this.cardRepository.clear();
+    } catch (error) {
+      console.error('Failed to clear history:', error);
+    }
+  }
+
+  // Retention policy
+  getRetentionPolicy(): HistoryRetentionPolicy {
+    return { ...DEFAULT_RETENTION_POLICY, ...this.getSetting('historyRetention', {}) };
+  }
+
+  async setRetentionPolicy(policy: HistoryRetentionPolicy): Promise<void> {
+    this.updateSetting('historyRetention', policy);
+    await this.applyRetentionPolicy();
+  }
+
+  // User-defined stat schemas, the built-in presets live in the model
+  getCustomStatSchemas(): StatSchema[] {
+    return this.getSetting('customStatSchemas', []);
+  }
+
+  saveStatSchema(schema: StatSchema): void {
+    const schemas = this.getCustomStatSchemas().filter(existing => existing.id !== schema.id);
+    this.updateStatSchemas([...schemas, { ...schema, custom: true }]);
+  }
+
+  deleteStatSchema(id: string): void {
+    this.updateStatSchemas(this.getCustomStatSchemas().filter(schema => schema.id !== id));
+  }
+
+  // Last used print export settings
+  getPrintProfile(): PrintProfile {
+    return { ...DEFAULT_PRINT_PROFILE, ...this.getSetting('printProfile', {}) };
+  }
+
+  setPrintProfile(profile: PrintProfile): void {
+    this.updateSetting('printProfile', profile);
+  }
+
+  // Last used animated export settings
+  getAnimationProfile(): AnimationProfile {
+    return { ...DEFAULT_ANIMATION_PROFILE, ...this.getSetting('animationProfile', {}) };
+  }
+
+  setAnimationProfile(profile: AnimationProfile): void {
+    this.updateSetting('animationProfile', profile);
+  }
+
+  // Column mappings saved from the CSV import wizard
+  getImportMappings(): SavedImportMapping[] {
+    return this.getSetting('importMappings', []);
+  }
+
+  saveImportMapping(mapping: SavedImportMapping): void {
+    const mappings = this.getImportMappings().filter(existing => existing.id !== mapping.id);
+    this.updateSetting('importMappings', [...mappings, mapping]);
+  }
+
+  deleteImportMapping(id: string): void {
+    this.updateSetting('importMappings', this.getImportMappings().filter(mapping => mapping.id !== id));
   }
 
   // Project File Management
   async exportProject(
-    cards: PlayerData[], 
-    projectName: string, 
-    settings: any = {}
+    cards: PlayerData[],
+    projectName: string,
+    settings: ProjectSettings
   ): Promise<Blob> {
+    // Custom schemas live in global settings, so they travel with the file
+    const schemaIds = new Set([settings.statSchemaId, ...cards.map(card => card.statSchemaId)]);
     const projectFile: ProjectFile = {
       version: '1.0',
       name: projectName,
       description: `FIFA IT Cards project exported on ${new Date().toLocaleDateString()}`,
       cards,
-      settings: {
-        defaultTemplate: settings.defaultTemplate || 'gold-classic',
-        customBranding: settings.customBranding,
-        exportOptions: settings.exportOptions || {}
-      },
+      settings,
+      statSchemas: this.getCustomStatSchemas().filter(schema => schemaIds.has(schema.id)),
       createdAt: new Date(),
       exportedAt: new Date()
     };
@@ -113,15 +196,23 @@ export class StorageService {
     return new Blob([jsonContent], { type: 'application/json' });
   }
 
-  async importProject(file: File): Promise<{ cards: PlayerData[]; settings: any } | null> {
+  async importProject(file: File): Promise<{ name: string; cards: PlayerData[]; settings: Partial<ProjectSettings> } | null> {
     try {
       const text = await file.text();
-      const projectData: ProjectFile = JSON.parse(text);
+      const projectData: Partial<ProjectFile> = JSON.parse(text);
 
-      if (!projectData.version || !projectData.cards) {
+      if (!projectData.version || !Array.isArray(projectData.cards)) {
         throw new Error('Invalid project file format');
       }
 
+      const schemaIds = this.registerStatSchemas(Array.isArray(projectData.statSchemas) ? projectData.statSchemas : []);
+      const settings: Partial<ProjectSettings> = projectData.settings && typeof projectData.settings === 'object'
+        ? { ...projectData.settings }
+        : {};
+      if (settings.statSchemaId) {
+        settings.statSchemaId = schemaIds.get(settings.statSchemaId) ?? settings.statSchemaId;
+      }
+
       // Validate and sanitize card data
       const validCards: PlayerData[] = [];
       for (const cardData of projectData.cards) {
@@ -129,6 +220,7 @@ export class StorageService {
           validCards.push({
             ...cardData,
             id: cardData.id || this.generateId(),
+            statSchemaId: cardData.statSchemaId && (schemaIds.get(cardData.statSchemaId) ?? cardData.statSchemaId),
             createdAt: new Date(cardData.createdAt || Date.now()),
             updatedAt: new Date()
           });
@@ -136,8 +228,9 @@ export class StorageService {
       }
 
       return {
+        name: projectData.name || file.name.replace(/\.json$/i, '').replace(/\.fifacard$/i, ''),
         cards: validCards,
-        settings: projectData.settings || {}
+        settings
       };
     } catch (error) {
       console.error('Failed to import project:', error);
@@ -147,12 +240,12 @@ export class StorageService {
 
   // Settings Management
   saveSettings(settings: any): void {
-    try {
-      localStorage.setItem(this.SETTINGS_KEY, JSON.stringify(settings));
-      this.settingsSubject.next(settings);
-    } catch (error) {
-      console.error('Failed to save settings:', error);
-    }
+    this.settingsSubject.next(settings);
+
+    const records = Object.entries(settings).map(([key, value]) => ({ key, value }));
+    this.database.putMany('settings', records).catch(error =>
+      console.error('Failed to save settings:', error)
+    );
   }
 
   getSettings(): any {
@@ -170,74 +263,19 @@ export class StorageService {
     this.saveSettings(updatedSettings);
   }
 
-  // IndexedDB Support (for larger data)
-  async saveToIndexedDB(key: string, data: any): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open('FIFA_Card_Generator', 1);
-      
-      request.onerror = () => reject(request.error);
-      
-      request.onsuccess = () => {
-        const db = request.result;
-        const transaction = db.transaction(['cards'], 'readwrite');
-        const store = transaction.objectStore('cards');
-        
-        const putRequest = store.put({ id: key, data, timestamp: Date.now() });
-        putRequest.onsuccess = () => resolve();
-        putRequest.onerror = () => reject(putRequest.error);
-      };
-      
-      request.onupgradeneeded = () => {
-        const db = request.result;
-        if (!db.objectStoreNames.contains('cards')) {
-          db.createObjectStore('cards', { keyPath: 'id' });
-        }
-      };
-    });
-  }
-
-  async loadFromIndexedDB(key: string): Promise<any> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open('FIFA_Card_Generator', 1);
-      
-      request.onerror = () => reject(request.error);
-      
-      request.onsuccess = () => {
-        const db = request.result;
-        const transaction = db.transaction(['cards'], 'readonly');
-        const store = transaction.objectStore('cards');
-        
-        const getRequest = store.get(key);
-        getRequest.onsuccess = () => {
-          const result = getRequest.result;
-          resolve(result ? result.data : null);
-        };
-        getRequest.onerror = () => reject(getRequest.error);
-      };
-      
-      request.onupgradeneeded = () => {
-        const db = request.result;
-        if (!db.objectStoreNames.contains('cards')) {
-          db.createObjectStore('cards', { keyPath: 'id' });
-        }
-      };
-    });
-  }
-
   // Data Migration
   async migrateData(): Promise<void> {
     try {
       // Check if migration is needed
       const version = localStorage.getItem('fifa_card_version') || '0.1.0';
-      if (version === '1.0.0') return;
+      if (version === '2.0.0') return;
 
-      // Migrate old format data if exists
+      // Cards from the pre-1.0 `playerCards` format
       const oldData = localStorage.getItem('playerCards');
       if (oldData) {
         try {
           const parsed = JSON.parse(oldData);
           if (Array.isArray(parsed)) {
-            // Convert old format to new format
             const migratedCards: StoredCard[] = parsed.map((card: any, index: number) => ({
               id: card.id || `migrated_${index}_${Date.now()}`,
               playerData: this.migrateCardFormat(card),
@@ -246,7 +284,7 @@ export class StorageService {
               updatedAt: new Date()
             }));
 
-            this.saveHistory(migratedCards);
+            await this.cardRepository.saveMany(migratedCards);
             localStorage.removeItem('playerCards'); // Clean up old data
           }
         } catch (error) {
@@ -254,7 +292,22 @@ export class StorageService {
         }
       }
 
-      localStorage.setItem('fifa_card_version', '1.0.0');
+      // 1.0 history and settings kept in localStorage
+      const storedHistory = localStorage.getItem(this.STORAGE_KEY);
+      if (storedHistory) {
+        const history: StoredCard[] = JSON.parse(storedHistory);
+        await this.cardRepository.saveMany(history.map(card => ({ ...card, thumbnail: '' })));
+        localStorage.removeItem(this.STORAGE_KEY);
+      }
+
+      const storedSettings = localStorage.getItem(this.SETTINGS_KEY);
+      if (storedSettings) {
+        const settings = JSON.parse(storedSettings);
+        await this.database.putMany('settings', Object.entries(settings).map(([key, value]) => ({ key, value })));
+        localStorage.removeItem(this.SETTINGS_KEY);
+      }
+
+      localStorage.setItem('fifa_card_version', '2.0.0');
     } catch (error) {
       console.error('Migration failed:', error);
     }
@@ -285,8 +338,11 @@ export class StorageService {
 
       // Restore history
       if (Array.isArray(backupData.history)) {
-        this.saveHistory(backupData.history);
-        this.historySubject.next(backupData.history);
+        await this.cardRepository.clear();
+        await this.cardRepository.saveMany(backupData.history);
+        await this.loadHistory();
+        this.pruneThumbnails(this.getHistory());
+        this.loadThumbnails();
       }
 
       // Restore settings
@@ -302,120 +358,148 @@ export class StorageService {
   }
 
   // Storage Usage Analytics
-  getStorageUsage(): { used: number; available: number; percentage: number } {
-    let used = 0;
-    let available = 0;
-
+  async getStorageUsage(): Promise<{ used: number; available: number; percentage: number }> {
     try {
-      // Estimate localStorage usage
-      for (let key in localStorage) {
-        if (localStorage.hasOwnProperty(key)) {
-          used += localStorage[key].length + key.length;
-        }
-      }
-
-      // localStorage typically has a 5-10MB limit
-      available = 5 * 1024 * 1024; // 5MB estimate
-      
-      return {
-        used,
-        available,
-        percentage: (used / available) * 100
-      };
+      return await this.database.estimateUsage();
     } catch (error) {
       return { used: 0, available: 0, percentage: 0 };
     }
   }
 
   // Private helper methods
-  private loadHistory(): void {
+  private async initialize(): Promise<void> {
+    await this.migrateData();
+    await this.loadSettings();
+    await this.loadHistory();
+    await this.applyRetentionPolicy();
+    await this.loadThumbnails();
+  }
+
+  private async loadHistory(): Promise<void> {
     try {
-      const stored = localStorage.getItem(this.STORAGE_KEY);
-      if (stored) {
-        const history: StoredCard[] = JSON.parse(stored);
-        this.historySubject.next(history);
-      }
+      this.historySubject.next(await this.cardRepository.getAll());
     } catch (error) {
       console.error('Failed to load history:', error);
       this.historySubject.next([]);
     }
   }
 
-  private saveHistory(history: StoredCard[]): void {
+  private async applyRetentionPolicy(): Promise<void> {
     try {
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(history));
-    } catch (error) {
-      console.error('Failed to save history:', error);
-      
-      // If localStorage is full, remove oldest items and retry
-      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-        const reducedHistory = history.slice(0, this.MAX_HISTORY / 2);
-        try {
-          localStorage.setItem(this.STORAGE_KEY, JSON.stringify(reducedHistory));
-          this.historySubject.next(reducedHistory);
-        } catch (retryError) {
-          console.error('Failed to save reduced history:', retryError);
-        }
+      const removed = new Set(await this.cardRepository.applyRetention(this.getRetentionPolicy()));
+      if (removed.size > 0) {
+        const updatedHistory = this.getHistory().filter(card => !removed.has(card.id));
+        this.historySubject.next(updatedHistory);
+        this.pruneThumbnails(updatedHistory);
       }
+    } catch (error) {
+      console.error('Failed to apply retention policy:', error);
     }
   }
 
-  private loadSettings(): void {
+  private async loadSettings(): Promise<void> {
     try {
-      const stored = localStorage.getItem(this.SETTINGS_KEY);
-      if (stored) {
-        const settings = JSON.parse(stored);
-        this.settingsSubject.next(settings);
-      } else {
-        // Default settings
-        const defaultSettings = {
-          defaultTemplate: 'gold-classic',
-          language: 'en',
-          theme: 'dark',
-          autoSave: true,
-          compressionQuality: 0.9
-        };
-        this.settingsSubject.next(defaultSettings);
-      }
+      const records = await this.database.getAll<{ key: string; value: unknown }>('settings');
+      const stored = Object.fromEntries(records.map(record => [record.key, record.value]));
+      this.settingsSubject.next({ ...this.DEFAULT_SETTINGS, ...stored });
+      this.cardService.setCustomStatSchemas(this.getCustomStatSchemas());
     } catch (error) {
       console.error('Failed to load settings:', error);
-      this.settingsSubject.next({});
+      this.settingsSubject.next({ ...this.DEFAULT_SETTINGS });
     }
   }
 
-  private async generateThumbnail(cardElement: HTMLElement): Promise<string> {
+  // Downscaled WebP render of the stored card
+  private async generateThumbnail(playerData: PlayerData): Promise<Blob> {
+    const template = this.cardService.getTemplateForPlayer(playerData);
+    return await this.cardRenderer.renderToBlob(playerData, template, {
+      ...this.THUMBNAIL_SIZE,
+      type: 'image/webp',
+      quality: 0.8
+    });
+  }
+
+  private async storeThumbnail(storedCard: StoredCard): Promise<void> {
     try {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      canvas.width = 200;
-      canvas.height = 280;
-      
-      // Create a simple thumbnail representation
-      if (ctx) {
-        // Background
-        ctx.fillStyle = '#1a1a1a';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        
-        // Simple card outline
-        ctx.strokeStyle = '#ffd700';
-        ctx.lineWidth = 2;
-        ctx.strokeRect(10, 10, canvas.width - 20, canvas.height - 20);
-        
-        // Player name placeholder
-        ctx.fillStyle = '#ffffff';
-        ctx.font = '14px Arial';
-        ctx.textAlign = 'center';
-        ctx.fillText('Card Preview', canvas.width / 2, canvas.height / 2);
-      }
-      
-      return canvas.toDataURL('image/png', 0.5);
+      const blob = await this.generateThumbnail(storedCard.playerData);
+      await this.database.put('thumbnails', { id: storedCard.id, data: blob, timestamp: Date.now() });
+      this.setThumbnailUrl(storedCard.id, blob);
     } catch (error) {
       console.error('Failed to generate thumbnail:', error);
-      return '';
     }
   }
 
+  // Load stored thumbnails, rendering any that are missing (e.g. restored or migrated entries)
+  private async loadThumbnails(): Promise<void> {
+    for (const storedCard of this.getHistory()) {
+      try {
+        const record = await this.database.get<{ id: string; data: Blob }>('thumbnails', storedCard.id);
+        if (record) {
+          this.setThumbnailUrl(storedCard.id, record.data);
+        } else {
+          await this.storeThumbnail(storedCard);
+        }
+      } catch (error) {
+        console.warn('Failed to load thumbnail:', error);
+      }
+    }
+  }
+
+  private setThumbnailUrl(id: string, blob: Blob): void {
+    const thumbnails = { ...this.thumbnailsSubject.value };
+    if (thumbnails[id]) {
+      URL.revokeObjectURL(thumbnails[id]);
+    }
+    thumbnails[id] = URL.createObjectURL(blob);
+    this.thumbnailsSubject.next(thumbnails);
+  }
+
+  // Drop thumbnails whose cards are no longer in history
+  private pruneThumbnails(history: StoredCard[]): void {
+    const keep = new Set(history.map(card => card.id));
+    const thumbnails = { ...this.thumbnailsSubject.value };
+
+    Object.keys(thumbnails)
+      .filter(id => !keep.has(id))
+      .forEach(id => {
+        URL.revokeObjectURL(thumbnails[id]);
+        delete thumbnails[id];
+        this.database.delete('thumbnails', id).catch(error =>
+          console.warn('Failed to delete thumbnail:', error)
+        );
+      });
+
+    this.thumbnailsSubject.next(thumbnails);
+  }
+
+  private updateStatSchemas(schemas: StatSchema[]): void {
+    this.updateSetting('customStatSchemas', schemas);
+    this.cardService.setCustomStatSchemas(schemas);
+  }
+
+  // Saves the schemas bundled with a project file. A schema whose id is taken by a
+  // different local schema is saved under a new id; returns the ids that changed.
+  private registerStatSchemas(schemas: StatSchema[]): Map<string, string> {
+    const renamed = new Map<string, string>();
+    const existing = this.cardService.getStatSchemas();
+
+    for (const schema of schemas) {
+      if (!schema || typeof schema.id !== 'string' || !Array.isArray(schema.stats)) continue;
+      if (typeof schema.name !== 'string' || this.cardService.validateStatSchema(schema).length > 0) continue;
+
+      const local = existing.find(other => other.id === schema.id);
+      if (local && JSON.stringify(local.stats) === JSON.stringify(schema.stats)) continue;
+
+      const id = local ? `schema_${this.generateId()}` : schema.id;
+      if (id !== schema.id) {
+        renamed.set(schema.id, id);
+      }
+      this.saveStatSchema({ ...schema, id });
+    }
+
+    return renamed;
+  }
+
   private validateCardData(cardData: any): boolean {
     return !!(
       cardData &&
@@ -424,7 +508,8 @@ export class StorageService {
       typeof cardData.nationality === 'string' &&
       typeof cardData.rating === 'number' &&
       cardData.stats &&
-      typeof cardData.stats.technical === 'number'
+      typeof cardData.stats === 'object' &&
+      Object.values(cardData.stats).every(value => typeof value === 'number')
     );
   }
 
@@ -0,0 +1,419 @@
+import { Injectable } from '@angular/core';
+import * as JSZip from 'jszip';
+import { BACK_LAYOUT_SLOT_NAMES, CardTemplate, DEFAULT_CARD_BACK_LAYOUT, DEFAULT_CARD_LAYOUT, LAYOUT_SLOT_NAMES, LayoutSlot } from '../models/player.model';
+import { DatabaseService } from './database.service';
+import { CardService } from './card.service';
+import { SceneGradient, formatLinearGradient, parseLinearGradient } from '../utils/scene-painter';
+import { fontExtension, fontMimeType, registerFont } from '../utils/fonts';
+import { isRecord } from '../utils/guards';
+
+export const TEMPLATE_PACK_FORMAT = 'fifa-card-template-pack';
+export const TEMPLATE_PACK_VERSION = 1;
+
+export type TemplateConflictStrategy = 'rename' | 'replace' | 'skip';
+
+// Manifest entry: images and fonts are paths inside the pack ZIP
+export interface TemplatePackEntry extends Omit<CardTemplate, 'backgroundImage' | 'fontSource' | 'custom'> {
+  backgroundImage?: string;
+  fontFile?: string;
+}
+
+// `manifest.json` at the root of a template pack
+export interface TemplatePackManifest {
+  format: typeof TEMPLATE_PACK_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string;
+  templates: TemplatePackEntry[];
+}
+
+export interface TemplatePackImportResult {
+  imported: CardTemplate[];
+  skipped: string[]; // ids left alone because of a conflict
+  renamed: { from: string; to: string }[];
+  errors: string[];
+  warnings: string[];
+}
+
+const MAX_PACK_SIZE = 25 * 1024 * 1024;
+const MASK_SHAPES: CardTemplate['maskShape'][] = ['shield', 'circle', 'hexagon'];
+// Slots added after version 1 packs were first written; packs without them get the defaults
+const OPTIONAL_LAYOUT_SLOTS = ['altPosition', 'badges', 'skillStars', 'team', 'variant', 'bestFit'];
+
+const DEFAULT_GRADIENT: SceneGradient = {
+  angle: 135,
+  stops: [
+    { color: '#7c3aed', offset: 0 },
+    { color: '#db2777', offset: 1 }
+  ]
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class TemplateService {
+  // Resolves once saved custom templates are registered with CardService
+  public readonly ready: Promise<void>;
+
+  constructor(
+    private database: DatabaseService,
+    private cardService: CardService
+  ) {
+    this.ready = this.loadTemplates();
+  }
+
+  // Editable copy of a template; built-in templates start a new custom template
+  createDraft(base?: CardTemplate): CardTemplate {
+    const source = base || this.cardService.getAvailableTemplates()[0];
+    const gradient = this.getGradient(source);
+
+    return {
+      ...source,
+      id: base?.custom ? base.id : '',
+      name: base?.custom ? base.name : '',
+      displayName: base?.custom ? base.displayName : `${source.displayName} Custom`,
+      description: base?.custom ? base.description : `Custom template based on ${source.displayName}`,
+      thumbnail: '',
+      backgroundGradient: formatLinearGradient(gradient),
+      backgroundImage: base?.custom ? base.backgroundImage : undefined,
+      // Slots added since the template was saved start in their default place
+      layout: this.copyLayout({ ...DEFAULT_CARD_LAYOUT, ...source.layout }),
+      backLayout: this.copyLayout({ ...DEFAULT_CARD_BACK_LAYOUT, ...source.backLayout }),
+      patternOverlay: undefined,
+      noiseOverlay: false,
+      colorScheme: { ...source.colorScheme },
+      custom: true
+    };
+  }
+
+  // Gradient stops of a template, for editing
+  getGradient(template: CardTemplate): SceneGradient {
+    const parsed = parseLinearGradient(template.backgroundGradient);
+    return parsed && parsed.stops.length >= 2 ? parsed : { ...DEFAULT_GRADIENT, stops: [...DEFAULT_GRADIENT.stops] };
+  }
+
+  copyLayout<T extends object>(layout: T): T {
+    return Object.fromEntries(
+      Object.entries(layout).map(([slot, box]) => [slot, { ...box }])
+    ) as T;
+  }
+
+  withGradient(template: CardTemplate, gradient: SceneGradient): CardTemplate {
+    return { ...template, backgroundGradient: formatLinearGradient(gradient) };
+  }
+
+  async saveTemplate(draft: CardTemplate): Promise<CardTemplate> {
+    const displayName = draft.displayName.trim();
+    if (!displayName) {
+      throw new Error('Template name is required');
+    }
+
+    const id = draft.id || this.generateId();
+    const template: CardTemplate = {
+      ...draft,
+      id,
+      name: id,
+      displayName,
+      custom: true
+    };
+
+    await this.database.put<CardTemplate>('templates', template);
+
+    const others = this.cardService.getCustomTemplates().filter(existing => existing.id !== id);
+    this.cardService.setCustomTemplates([...others, template]);
+    return template;
+  }
+
+  // ZIP with manifest.json, images/ and fonts/; built-in templates can be exported too
+  async exportPack(templateIds: string[], name: string): Promise<Blob> {
+    const zip = new JSZip();
+    const templates = templateIds
+      .map(id => this.cardService.getTemplateById(id))
+      .filter((template): template is CardTemplate => !!template);
+
+    const entries: TemplatePackEntry[] = [];
+    for (const template of templates) {
+      const { backgroundImage, fontSource, custom, ...definition } = template;
+      const entry: TemplatePackEntry = { ...definition };
+
+      if (backgroundImage) {
+        const blob = await (await fetch(backgroundImage)).blob();
+        const extension = blob.type.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+        entry.backgroundImage = `images/${template.id}.${extension}`;
+        zip.file(entry.backgroundImage, blob);
+      }
+
+      if (fontSource) {
+        const blob = await (await fetch(fontSource)).blob();
+        entry.fontFile = `fonts/${template.fontFamily.replace(/[^a-z0-9]+/gi, '-')}.${fontExtension(blob.type)}`;
+        zip.file(entry.fontFile, blob);
+      }
+
+      entries.push(entry);
+    }
+
+    const manifest: TemplatePackManifest = {
+      format: TEMPLATE_PACK_FORMAT,
+      version: TEMPLATE_PACK_VERSION,
+      name,
+      exportedAt: new Date().toISOString(),
+      templates: entries
+    };
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+    return await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+  }
+
+  // Validate a pack and add its templates; invalid entries are reported and skipped
+  async importPack(file: File, strategy: TemplateConflictStrategy = 'rename'): Promise<TemplatePackImportResult> {
+    const result: TemplatePackImportResult = { imported: [], skipped: [], renamed: [], errors: [], warnings: [] };
+
+    if (file.size > MAX_PACK_SIZE) {
+      result.errors.push(`Template pack is larger than ${MAX_PACK_SIZE / 1024 / 1024} MB`);
+      return result;
+    }
+
+    let zip: JSZip;
+    let manifest: unknown;
+    try {
+      zip = await new JSZip().loadAsync(file);
+      const manifestFile = zip.file('manifest.json');
+      if (!manifestFile) {
+        result.errors.push('manifest.json is missing');
+        return result;
+      }
+      manifest = JSON.parse(await manifestFile.async('string'));
+    } catch (error) {
+      console.error('Error reading template pack:', error);
+      result.errors.push('File is not a valid template pack ZIP');
+      return result;
+    }
+
+    // Invalid entries are reported and left out; an invalid manifest stops the import
+    const validated = this.validateManifest(manifest, zip);
+    result.errors.push(...validated.errors);
+    if (!validated.manifest) {
+      return result;
+    }
+
+    for (const entry of validated.manifest.templates) {
+      const existing = this.cardService.getTemplateById(entry.id);
+      let id = entry.id;
+      if (existing) {
+        // Built-in templates are never overwritten
+        const effective = strategy === 'replace' && !existing.custom ? 'rename' : strategy;
+        if (effective === 'skip') {
+          result.skipped.push(entry.id);
+          continue;
+        }
+        if (effective === 'rename') {
+          id = this.uniqueId(entry.id);
+          result.renamed.push({ from: entry.id, to: id });
+        }
+      }
+
+      try {
+        const template = await this.templateFromEntry(entry, id, zip);
+        if (template.fontSource) {
+          await registerFont(template.fontFamily, template.fontSource);
+        }
+        result.imported.push(await this.saveTemplate(template));
+      } catch (error) {
+        console.error(`Error importing template ${entry.id}:`, error);
+        result.errors.push(`Template ${entry.id}: could not read its images or fonts`);
+      }
+    }
+
+    if (result.imported.length === 0 && result.errors.length === 0 && result.skipped.length === 0) {
+      result.warnings.push('Template pack contains no templates');
+    }
+
+    return result;
+  }
+
+  // Cards that used the template fall back to the first built-in template
+  async deleteTemplate(id: string): Promise<void> {
+    await this.database.delete('templates', id);
+    this.cardService.setCustomTemplates(this.cardService.getCustomTemplates().filter(template => template.id !== id));
+  }
+
+  private async loadTemplates(): Promise<void> {
+    try {
+      const templates = await this.database.getAll<CardTemplate>('templates');
+      await Promise.all(templates
+        .filter(template => template.fontSource)
+        .map(template => registerFont(template.fontFamily, template.fontSource!)));
+      this.cardService.setCustomTemplates(templates.sort((a, b) => a.displayName.localeCompare(b.displayName)));
+    } catch (error) {
+      console.error('Failed to load custom templates:', error);
+    }
+  }
+
+  private validateManifest(manifest: unknown, zip: JSZip): { manifest?: TemplatePackManifest; errors: string[] } {
+    if (!isRecord(manifest)) {
+      return { errors: ['manifest.json must contain an object'] };
+    }
+
+    const errors: string[] = [];
+    const { format, version, name, exportedAt, templates: entries }: Partial<Record<keyof TemplatePackManifest, unknown>> = manifest;
+    if (format !== TEMPLATE_PACK_FORMAT) {
+      errors.push(`Unknown pack format "${format}"`);
+    }
+    if (typeof version !== 'number' || version > TEMPLATE_PACK_VERSION) {
+      errors.push(`Unsupported pack version ${version}; this app reads version ${TEMPLATE_PACK_VERSION}`);
+    }
+    if (!Array.isArray(entries)) {
+      errors.push('manifest.json has no templates list');
+    }
+    if (errors.length > 0 || typeof version !== 'number' || !Array.isArray(entries)) {
+      return { errors };
+    }
+
+    const templates: TemplatePackEntry[] = [];
+    const seenIds = new Set<string>();
+    entries.forEach((candidate: unknown, index) => {
+      const id = isRecord(candidate) && typeof candidate['id'] === 'string' ? candidate['id'] : undefined;
+      const label = `Template ${index + 1}${id !== undefined ? ` (${id})` : ''}`;
+      const entryErrors: string[] = [];
+      const valid = this.validateEntry(candidate, zip, entryErrors);
+      if (id !== undefined && seenIds.has(id)) {
+        entryErrors.push('duplicate id in pack');
+      }
+      if (!valid || entryErrors.length > 0) {
+        errors.push(...entryErrors.map(error => `${label}: ${error}`));
+        return;
+      }
+      seenIds.add(candidate.id);
+      templates.push(candidate);
+    });
+
+    return {
+      manifest: {
+        format: TEMPLATE_PACK_FORMAT,
+        version,
+        name: typeof name === 'string' ? name : '',
+        exportedAt: typeof exportedAt === 'string' ? exportedAt : '',
+        templates
+      },
+      errors
+    };
+  }
+
+  // Adds what is wrong with the entry to `errors`
+  private validateEntry(candidate: unknown, zip: JSZip, errors: string[]): candidate is TemplatePackEntry {
+    if (!isRecord(candidate)) {
+      errors.push('must be an object');
+      return false;
+    }
+
+    const errorCount = errors.length;
+    const entry: Partial<Record<keyof TemplatePackEntry, unknown>> = candidate;
+    const isString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+    if (!isString(entry.id) || !/^[a-z0-9_-]+$/i.test(entry.id)) {
+      errors.push('id must contain only letters, digits, "-" and "_"');
+    }
+    if (!isString(entry.displayName)) {
+      errors.push('displayName is required');
+    }
+    if (typeof entry.backgroundGradient !== 'string') {
+      errors.push('backgroundGradient must be a CSS gradient string');
+    }
+    if (!MASK_SHAPES.some(shape => shape === entry.maskShape)) {
+      errors.push(`maskShape must be one of ${MASK_SHAPES.join(', ')}`);
+    }
+    if (!isString(entry.fontFamily)) {
+      errors.push('fontFamily is required');
+    }
+
+    const colors = entry.colorScheme;
+    if (!isRecord(colors) || !['primary', 'secondary', 'text', 'accent'].every(key => isString(colors[key]))) {
+      errors.push('colorScheme needs primary, secondary, text and accent colors');
+    }
+
+    const validSlot = (slot: unknown): slot is LayoutSlot =>
+      isRecord(slot) && ['x', 'y', 'width', 'height'].every(key => Number.isFinite(slot[key]));
+    if (entry.layout !== undefined) {
+      const layout = isRecord(entry.layout) ? entry.layout : {};
+      const invalid = Object.keys(LAYOUT_SLOT_NAMES).filter(slot =>
+        OPTIONAL_LAYOUT_SLOTS.includes(slot) ? layout[slot] !== undefined && !validSlot(layout[slot]) : !validSlot(layout[slot])
+      );
+      if (invalid.length > 0) {
+        errors.push(`layout is missing or has invalid slots: ${invalid.join(', ')}`);
+      }
+    }
+    if (entry.backLayout !== undefined) {
+      const backLayout = isRecord(entry.backLayout) ? entry.backLayout : {};
+      const invalid = Object.keys(BACK_LAYOUT_SLOT_NAMES).filter(slot => !validSlot(backLayout[slot]));
+      if (invalid.length > 0) {
+        errors.push(`backLayout is missing or has invalid slots: ${invalid.join(', ')}`);
+      }
+    }
+
+    if (entry.backgroundImage !== undefined && (typeof entry.backgroundImage !== 'string' || !zip.file(entry.backgroundImage))) {
+      errors.push(`image ${entry.backgroundImage} is not in the pack`);
+    }
+    if (entry.fontFile !== undefined && (typeof entry.fontFile !== 'string' || !zip.file(entry.fontFile))) {
+      errors.push(`font ${entry.fontFile} is not in the pack`);
+    }
+
+    return errors.length === errorCount;
+  }
+
+  // Copy known fields only, so stray manifest keys never reach storage
+  private async templateFromEntry(entry: TemplatePackEntry, id: string, zip: JSZip): Promise<CardTemplate> {
+    const template: CardTemplate = {
+      id,
+      name: id,
+      displayName: entry.displayName.trim(),
+      description: typeof entry.description === 'string' ? entry.description : '',
+      thumbnail: typeof entry.thumbnail === 'string' ? entry.thumbnail : '',
+      backgroundGradient: entry.backgroundGradient,
+      borderStyle: entry.borderStyle,
+      shadowEffect: entry.shadowEffect,
+      noiseOverlay: !!entry.noiseOverlay,
+      maskShape: entry.maskShape,
+      fontFamily: entry.fontFamily,
+      colorScheme: {
+        primary: entry.colorScheme.primary,
+        secondary: entry.colorScheme.secondary,
+        text: entry.colorScheme.text,
+        accent: entry.colorScheme.accent
+      },
+      metallic: !!entry.metallic,
+      glowEffect: !!entry.glowEffect,
+      patternOverlay: entry.patternOverlay,
+      layout: entry.layout ? this.copyLayout({ ...DEFAULT_CARD_LAYOUT, ...entry.layout }) : undefined,
+      backLayout: entry.backLayout ? this.copyLayout(entry.backLayout) : undefined,
+      custom: true
+    };
+
+    if (entry.backgroundImage) {
+      template.backgroundImage = await this.zipFileToDataURL(zip, entry.backgroundImage);
+    }
+    if (entry.fontFile) {
+      template.fontSource = await this.zipFileToDataURL(zip, entry.fontFile, fontMimeType(entry.fontFile));
+    }
+
+    return template;
+  }
+
+  private async zipFileToDataURL(zip: JSZip, path: string, mimeType?: string): Promise<string> {
+    const base64 = await zip.file(path)!.async('base64');
+    const extension = path.split('.').pop()?.toLowerCase() || 'png';
+    const type = mimeType || `image/${extension === 'jpg' ? 'jpeg' : extension}`;
+    return `data:${type};base64,${base64}`;
+  }
+
+  private uniqueId(id: string): string {
+    let candidate = id;
+    for (let suffix = 2; this.cardService.getTemplateById(candidate); suffix++) {
+      candidate = `${id}-${suffix}`;
+    }
+    return candidate;
+  }
+
+  private generateId(): string {
+    return `custom-${Date.now().toString(36)}${Math.random().toString(36).substr(2, 5)}`;
+  }
+}
@@ -0,0 +1,124 @@
+// Animated PNG writer. Frames come in as ordinary PNG files (the browser's canvas encoder
+// does the compression); their image data chunks are rewrapped as APNG frames.
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+export interface ApngEncoder {
+  addFrame(png: Uint8Array): void;
+  finish(): Blob;
+}
+
+// Every frame replaces the whole canvas, so frames with transparency never show the one before
+export function createApngEncoder(width: number, height: number, options: { fps: number; loop: boolean; frameCount: number }): ApngEncoder {
+  const parts: Uint8Array[] = [];
+  let sequence = 0;
+  let frameIndex = 0;
+
+  return {
+    addFrame(png) {
+      const chunks = readChunks(png);
+      const imageData = chunks.filter(chunk => chunk.type === 'IDAT').map(chunk => chunk.data);
+      if (imageData.length === 0) {
+        throw new Error('Frame is not a PNG image');
+      }
+
+      if (frameIndex === 0) {
+        parts.push(new Uint8Array(PNG_SIGNATURE));
+        const header = chunks.find(chunk => chunk.type === 'IHDR')!;
+        parts.push(writeChunk('IHDR', header.data));
+        parts.push(writeChunk('acTL', uint32s(options.frameCount, options.loop ? 0 : 1)));
+      }
+
+      const control = new Uint8Array(26);
+      const view = new DataView(control.buffer);
+      view.setUint32(0, sequence++);
+      view.setUint32(4, width);
+      view.setUint32(8, height);
+      view.setUint32(12, 0); // x offset
+      view.setUint32(16, 0); // y offset
+      view.setUint16(20, 1); // delay 1/fps seconds
+      view.setUint16(22, options.fps);
+      control[24] = 0; // dispose: none
+      control[25] = 0; // blend: source
+      parts.push(writeChunk('fcTL', control));
+
+      for (const data of imageData) {
+        if (frameIndex === 0) {
+          parts.push(writeChunk('IDAT', data));
+        } else {
+          const frameData = new Uint8Array(4 + data.length);
+          new DataView(frameData.buffer).setUint32(0, sequence++);
+          frameData.set(data, 4);
+          parts.push(writeChunk('fdAT', frameData));
+        }
+      }
+      frameIndex++;
+    },
+    finish() {
+      parts.push(writeChunk('IEND', new Uint8Array(0)));
+      return new Blob(parts as BlobPart[], { type: 'image/png' });
+    }
+  };
+}
+
+function readChunks(png: Uint8Array): PngChunk[] {
+  if (!PNG_SIGNATURE.every((byte, index) => png[index] === byte)) {
+    throw new Error('Frame is not a PNG image');
+  }
+
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= png.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+function writeChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+function uint32s(...values: number[]): Uint8Array {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, index) => view.setUint32(index * 4, value));
+  return bytes;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
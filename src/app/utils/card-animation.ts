@@ -0,0 +1,140 @@
+import { AnimationProfile } from '../models/animation.model';
+
+// Room around the card for the tilt and the reveal's zoom, as a share of the card width
+const FRAME_PADDING = 0.15;
+// The reveal takes this share of the clip, and never longer than REVEAL_MAX_SECONDS
+const REVEAL_SHARE = 0.45;
+const REVEAL_MAX_SECONDS = 1.6;
+const MAX_TILT_DEGREES = 14;
+// Vertical shear standing in for perspective while the card turns
+const TILT_PERSPECTIVE = 0.12;
+// The shine crosses the card once per loop, between these points of it
+const SHINE_START = 0.1;
+const SHINE_END = 0.6;
+const SHINE_SLANT = 0.5;
+const RAY_COUNT = 12;
+
+export interface CardAnimationOptions extends Pick<AnimationProfile, 'durationSeconds' | 'background' | 'tilt' | 'shine' | 'reveal'> {
+  accent: string; // color of the reveal's light rays
+}
+
+export interface CardAnimation {
+  width: number; // frame size, even so video encoders accept it
+  height: number;
+  drawFrame(ctx: CanvasRenderingContext2D, time: number): void; // time in seconds from the start
+}
+
+// Frames of a card clip: an optional walkout reveal (light rays, a flash, the card zooming
+// in), then one loop of the tilt and shine that ends where it started so the clip repeats
+// without a jump. The card itself is rendered once and only moved and lit per frame.
+export function createCardAnimation(card: HTMLCanvasElement, options: CardAnimationOptions): CardAnimation {
+  const padding = 2 * Math.round(card.width * FRAME_PADDING / 2);
+  const width = card.width + (card.width % 2) + 2 * padding;
+  const height = card.height + (card.height % 2) + 2 * padding;
+  const revealSeconds = options.reveal ? Math.min(REVEAL_MAX_SECONDS, options.durationSeconds * REVEAL_SHARE) : 0;
+  const loopSeconds = options.durationSeconds - revealSeconds;
+
+  // The shine is painted over a copy of the card so it only lands on the card's own pixels
+  const lit = document.createElement('canvas');
+  lit.width = card.width;
+  lit.height = card.height;
+  const litCtx = lit.getContext('2d')!;
+
+  return {
+    width,
+    height,
+    drawFrame(ctx, time) {
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.fillStyle = options.background;
+      ctx.fillRect(0, 0, width, height);
+
+      if (time < revealSeconds) {
+        drawReveal(ctx, card, time / revealSeconds, width, height, options.accent);
+        return;
+      }
+
+      const phase = loopSeconds > 0 ? (time - revealSeconds) / loopSeconds : 0;
+      let image = card;
+      if (options.shine) {
+        paintShine(litCtx, card, (phase - SHINE_START) / (SHINE_END - SHINE_START));
+        image = lit;
+      }
+      const angle = options.tilt ? Math.sin(phase * 2 * Math.PI) * MAX_TILT_DEGREES * Math.PI / 180 : 0;
+      drawCard(ctx, image, width / 2, height / 2, angle, 1);
+    }
+  };
+}
+
+function drawCard(ctx: CanvasRenderingContext2D, card: HTMLCanvasElement, centerX: number, centerY: number, angle: number, scale: number) {
+  ctx.save();
+  ctx.setTransform(Math.cos(angle) * scale, Math.sin(angle) * TILT_PERSPECTIVE * scale, 0, scale, centerX, centerY);
+  ctx.drawImage(card, -card.width / 2, -card.height / 2);
+  ctx.restore();
+}
+
+// progress 0-1 across the card; outside that range the card is left unlit
+function paintShine(ctx: CanvasRenderingContext2D, card: HTMLCanvasElement, progress: number) {
+  const { width, height } = card;
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.clearRect(0, 0, width, height);
+  ctx.drawImage(card, 0, 0);
+  if (progress <= 0 || progress >= 1) return;
+
+  const band = width * 0.35;
+  const x = -band / 2 + progress * (width + SHINE_SLANT * height + band);
+  const gradient = ctx.createLinearGradient(-band / 2, 0, band / 2, 0);
+  gradient.addColorStop(0, 'rgba(255, 255, 255, 0)');
+  gradient.addColorStop(0.5, 'rgba(255, 255, 255, 0.55)');
+  gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-atop';
+  ctx.setTransform(1, 0, -SHINE_SLANT, 1, x, 0);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(-band / 2, 0, band, height);
+  ctx.restore();
+}
+
+// progress 0-1: rays build up, a flash, the card zooms in as the rays fade
+function drawReveal(ctx: CanvasRenderingContext2D, card: HTMLCanvasElement, progress: number, width: number, height: number, accent: string) {
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const rays = progress < 0.5 ? progress / 0.5 : progress > 0.7 ? (1 - progress) / 0.3 : 1;
+  const radius = Math.hypot(centerX, centerY);
+
+  ctx.save();
+  ctx.globalAlpha = 0.6 * rays;
+  ctx.translate(centerX, centerY);
+  ctx.rotate(progress * 0.8);
+  const glow = ctx.createRadialGradient(0, 0, 0, 0, 0, radius);
+  glow.addColorStop(0, accent);
+  glow.addColorStop(1, 'rgba(0, 0, 0, 0)');
+  ctx.fillStyle = glow;
+  for (let i = 0; i < RAY_COUNT; i++) {
+    const start = i * 2 * Math.PI / RAY_COUNT;
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.arc(0, 0, radius, start, start + Math.PI / RAY_COUNT);
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.restore();
+
+  if (progress > 0.55) {
+    const t = (progress - 0.55) / 0.45;
+    const eased = 1 - Math.pow(1 - t, 3);
+    ctx.save();
+    ctx.globalAlpha = Math.min(1, t * 2);
+    drawCard(ctx, card, centerX, centerY, 0, 1.35 - 0.35 * eased);
+    ctx.restore();
+  }
+
+  const flash = Math.max(0, 1 - Math.abs(progress - 0.6) / 0.15);
+  if (flash > 0) {
+    ctx.save();
+    ctx.globalAlpha = 0.8 * flash;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.restore();
+  }
+}
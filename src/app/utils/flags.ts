@@ -0,0 +1,8 @@
+// Convert an ISO country code to its regional indicator flag emoji
+export function getFlagEmoji(countryCode: string): string {
+  if (!countryCode || countryCode.length < 2) return '';
+  const code = countryCode.toUpperCase();
+  const offset = 127397;
+  const chars = [...code].map(c => String.fromCodePoint(c.charCodeAt(0) + offset));
+  return chars.join('');
+}
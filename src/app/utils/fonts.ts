@@ -0,0 +1,46 @@
+const registeredFonts = new Map<string, Promise<void>>();
+
+// Register a font bundled with a template so both the DOM card and the canvas
+// renderer can use its family name. Safe to call repeatedly.
+export function registerFont(family: string, source: string): Promise<void> {
+  const key = `${family}|${source.length}|${source.substring(source.length - 32)}`;
+  const existing = registeredFonts.get(key);
+  if (existing) return existing;
+
+  if (typeof FontFace === 'undefined' || typeof document === 'undefined' || !document.fonts) {
+    return Promise.resolve();
+  }
+
+  const promise = new FontFace(family, `url(${source})`)
+    .load()
+    .then(face => {
+      document.fonts.add(face);
+    })
+    .catch(error => {
+      registeredFonts.delete(key);
+      console.warn(`Failed to register font ${family}:`, error);
+    });
+
+  registeredFonts.set(key, promise);
+  return promise;
+}
+
+// File extension for a font MIME type, used when writing template packs
+export function fontExtension(mimeType: string): string {
+  switch (mimeType) {
+    case 'font/woff2': return 'woff2';
+    case 'font/woff': return 'woff';
+    case 'font/otf': return 'otf';
+    default: return 'ttf';
+  }
+}
+
+export function fontMimeType(filename: string): string {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'woff2': return 'font/woff2';
+    case 'woff': return 'font/woff';
+    case 'otf': return 'font/otf';
+    default: return 'font/ttf';
+  }
+}
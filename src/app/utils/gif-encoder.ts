@@ -0,0 +1,238 @@
+// Animated GIF89a writer. Each frame gets its own 256-color palette from a median cut
+// over 15-bit colors, so gradients on one template do not eat the colors of the next frame.
+
+const MAX_COLORS = 256;
+const MIN_CODE_SIZE = 8; // LZW code size for 256-color frames
+const MAX_CODE = 4096;
+const MAX_BLOCK = 255;
+
+export interface GifEncoder {
+  addFrame(image: ImageData): void;
+  finish(): Blob;
+}
+
+// Frames are full-size and opaque; delays follow the frame rate without drifting even
+// though GIF counts in hundredths of a second
+export function createGifEncoder(width: number, height: number, options: { fps: number; loop: boolean }): GifEncoder {
+  const parts: Uint8Array[] = [];
+  let frameIndex = 0;
+
+  const header = new ByteWriter();
+  header.writeString('GIF89a');
+  header.writeUint16(width);
+  header.writeUint16(height);
+  header.writeBytes([0x00, 0, 0]); // no global color table, background 0, square pixels
+  if (options.loop) {
+    header.writeBytes([0x21, 0xff, 0x0b]);
+    header.writeString('NETSCAPE2.0');
+    header.writeBytes([0x03, 0x01, 0, 0, 0x00]); // repeat forever
+  }
+  parts.push(header.toBytes());
+
+  return {
+    addFrame(image) {
+      const delay = Math.round((frameIndex + 1) * 100 / options.fps) - Math.round(frameIndex * 100 / options.fps);
+      frameIndex++;
+
+      const { palette, indices } = quantize(image.data);
+      const frame = new ByteWriter();
+      frame.writeBytes([0x21, 0xf9, 0x04, 0x04]); // graphic control: leave the frame in place
+      frame.writeUint16(delay);
+      frame.writeBytes([0, 0x00]);
+      frame.writeByte(0x2c);
+      frame.writeUint16(0);
+      frame.writeUint16(0);
+      frame.writeUint16(width);
+      frame.writeUint16(height);
+      frame.writeByte(0x80 | (MIN_CODE_SIZE - 1)); // local color table of 256 entries
+      frame.writeBytes(palette);
+      frame.writeByte(MIN_CODE_SIZE);
+      lzwEncode(indices, frame);
+      parts.push(frame.toBytes());
+    },
+    finish() {
+      parts.push(new Uint8Array([0x3b]));
+      return new Blob(parts as BlobPart[], { type: 'image/gif' });
+    }
+  };
+}
+
+interface ColorBox {
+  keys: number[]; // 15-bit colors in the box
+  count: number; // pixels in the box
+}
+
+// Median cut: keep splitting the most populated box that still spans several colors
+// along its widest channel, then use each box's pixel-weighted mean as its palette entry
+function quantize(data: Uint8ClampedArray): { palette: Uint8Array; indices: Uint8Array } {
+  const counts = new Uint32Array(32768);
+  const sums = new Float64Array(32768 * 3);
+  for (let i = 0; i < data.length; i += 4) {
+    const key = colorKey(data[i], data[i + 1], data[i + 2]);
+    counts[key]++;
+    sums[key * 3] += data[i];
+    sums[key * 3 + 1] += data[i + 1];
+    sums[key * 3 + 2] += data[i + 2];
+  }
+
+  const keys: number[] = [];
+  let total = 0;
+  counts.forEach((count, key) => {
+    if (count > 0) {
+      keys.push(key);
+      total += count;
+    }
+  });
+
+  const boxes: ColorBox[] = [{ keys, count: total }];
+  while (boxes.length < MAX_COLORS) {
+    let target = -1;
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i].keys.length > 1 && (target < 0 || boxes[i].count > boxes[target].count)) {
+        target = i;
+      }
+    }
+    if (target < 0) break;
+    boxes.splice(target, 1, ...splitBox(boxes[target], counts));
+  }
+
+  const palette = new Uint8Array(MAX_COLORS * 3);
+  const lookup = new Uint8Array(32768);
+  boxes.forEach((box, index) => {
+    let red = 0;
+    let green = 0;
+    let blue = 0;
+    for (const key of box.keys) {
+      red += sums[key * 3];
+      green += sums[key * 3 + 1];
+      blue += sums[key * 3 + 2];
+      lookup[key] = index;
+    }
+    palette[index * 3] = Math.round(red / box.count);
+    palette[index * 3 + 1] = Math.round(green / box.count);
+    palette[index * 3 + 2] = Math.round(blue / box.count);
+  });
+
+  const indices = new Uint8Array(data.length / 4);
+  for (let i = 0; i < indices.length; i++) {
+    indices[i] = lookup[colorKey(data[i * 4], data[i * 4 + 1], data[i * 4 + 2])];
+  }
+  return { palette, indices };
+}
+
+function splitBox(box: ColorBox, counts: Uint32Array): ColorBox[] {
+  const shifts = [10, 5, 0];
+  const ranges = shifts.map(shift => {
+    const values = box.keys.map(key => (key >> shift) & 31);
+    return Math.max(...values) - Math.min(...values);
+  });
+  const shift = shifts[ranges.indexOf(Math.max(...ranges))];
+  const sorted = [...box.keys].sort((a, b) => ((a >> shift) & 31) - ((b >> shift) & 31));
+
+  let seen = 0;
+  let split = 1;
+  for (; split < sorted.length - 1; split++) {
+    seen += counts[sorted[split - 1]];
+    if (seen * 2 >= box.count) break;
+  }
+
+  const low = sorted.slice(0, split);
+  const high = sorted.slice(split);
+  const lowCount = low.reduce((sum, key) => sum + counts[key], 0);
+  return [{ keys: low, count: lowCount }, { keys: high, count: box.count - lowCount }];
+}
+
+function colorKey(red: number, green: number, blue: number): number {
+  return ((red >> 3) << 10) | ((green >> 3) << 5) | (blue >> 3);
+}
+
+// Variable-length LZW as GIF expects it: codes packed LSB first into sub-blocks of up
+// to 255 bytes, a clear code whenever the 12-bit table is full
+function lzwEncode(indices: Uint8Array, out: ByteWriter) {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const block: number[] = [];
+  let bits = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+      if (block.length === MAX_BLOCK) {
+        out.writeByte(MAX_BLOCK);
+        out.writeBytes(block);
+        block.length = 0;
+      }
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const pixel = indices[i];
+    const key = (prefix << 8) | pixel;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = MIN_CODE_SIZE + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = pixel;
+  }
+  emit(prefix);
+  emit(endCode);
+
+  if (bitCount > 0) {
+    block.push(bits & 0xff);
+  }
+  if (block.length > 0) {
+    out.writeByte(block.length);
+    out.writeBytes(block);
+  }
+  out.writeByte(0);
+}
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  writeByte(value: number) {
+    this.bytes.push(value);
+  }
+
+  writeBytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) {
+      this.bytes.push(values[i]);
+    }
+  }
+
+  writeUint16(value: number) {
+    this.bytes.push(value & 0xff, (value >> 8) & 0xff);
+  }
+
+  writeString(value: string) {
+    for (let i = 0; i < value.length; i++) {
+      this.bytes.push(value.charCodeAt(i));
+    }
+  }
+
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
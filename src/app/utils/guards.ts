@@ -0,0 +1,4 @@
+// Narrow parsed JSON before reading its fields
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,37 @@
+// Content hash used to deduplicate stored images. Prefers SHA-256 and falls back
+// to a 53-bit string hash where SubtleCrypto is unavailable (insecure contexts).
+export async function hashString(value: string): Promise<string> {
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return toHex(digest);
+  }
+  return cyrb53(value.length, index => value.charCodeAt(index)).toString(16).padStart(14, '0');
+}
+
+export async function hashBlob(blob: Blob): Promise<string> {
+  const buffer = await blob.arrayBuffer();
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    return toHex(await crypto.subtle.digest('SHA-256', buffer));
+  }
+  // Every byte counts: images differing anywhere must not share a stored copy
+  const bytes = new Uint8Array(buffer);
+  return cyrb53(bytes.length, index => bytes[index]).toString(16).padStart(14, '0');
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return [...new Uint8Array(buffer)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Over `length` code units read one at a time, so large buffers need no copy
+function cyrb53(length: number, unitAt: (index: number) => number, seed = 0): number {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < length; i++) {
+    const char = unitAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
@@ -0,0 +1,124 @@
+import { parse } from 'exifr';
+import { hashBlob } from './hash';
+
+// Shared by the image worker and the main-thread fallback, so it only uses APIs
+// available in both (OffscreenCanvas, createImageBitmap, FileReader)
+
+export type ImageOutputType = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export interface ImageProcessOptions {
+  maxSize: number; // longest side in pixels
+  type?: ImageOutputType; // default: PNG when the image has transparency, JPEG otherwise
+  quality: number; // 0-1, JPEG and WebP only
+}
+
+export interface ProcessedImage {
+  dataUrl: string;
+  hash: string; // of the processed image, equal for identical photos
+  type: string;
+  width: number;
+  height: number;
+  originalSize: number; // bytes
+  size: number;
+}
+
+export const DEFAULT_IMAGE_OPTIONS: ImageProcessOptions = {
+  maxSize: 800,
+  quality: 0.9
+};
+
+// Messages exchanged with image.worker.ts
+export interface ImageWorkerRequest {
+  id: number;
+  blob: Blob;
+  options: ImageProcessOptions;
+}
+
+export type ImageWorkerResponse =
+  | { id: number; image: ProcessedImage }
+  | { id: number; error: string };
+
+interface ExifInfo {
+  Orientation?: number;
+  ExifImageWidth?: number;
+  ExifImageHeight?: number;
+}
+
+// Decode, upright, resize and re-encode one image. Re-encoding drops EXIF, GPS
+// and other metadata.
+export async function processImage(blob: Blob, options: ImageProcessOptions = DEFAULT_IMAGE_OPTIONS): Promise<ProcessedImage> {
+  const exif: ExifInfo = await parse(blob, { pick: ['Orientation', 'ExifImageWidth', 'ExifImageHeight'] }).catch(() => undefined) || {};
+  const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+
+  try {
+    const orientation = needsManualOrientation(exif, bitmap) ? exif.Orientation! : 1;
+    const swapped = orientation >= 5;
+    const sourceWidth = swapped ? bitmap.height : bitmap.width;
+    const sourceHeight = swapped ? bitmap.width : bitmap.height;
+    const scale = Math.min(1, options.maxSize / Math.max(sourceWidth, sourceHeight));
+    const width = Math.max(1, Math.round(sourceWidth * scale));
+    const height = Math.max(1, Math.round(sourceHeight * scale));
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: !options.type })!;
+    ctx.imageSmoothingQuality = 'high';
+    applyOrientation(ctx, orientation, width, height);
+    ctx.drawImage(bitmap, 0, 0, swapped ? height : width, swapped ? width : height);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+    const type = options.type || (hasTransparency(ctx, width, height) ? 'image/png' : 'image/jpeg');
+    const output = await canvas.convertToBlob({ type, quality: options.quality });
+
+    return {
+      dataUrl: await readAsDataUrl(output),
+      hash: await hashBlob(output),
+      type: output.type,
+      width,
+      height,
+      originalSize: blob.size,
+      size: output.size
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Browsers apply EXIF orientation when decoding with imageOrientation 'from-image'; older
+// ones did not. For rotated orientations (5-8) that shows as the decoded size still
+// matching the stored, unrotated pixel size.
+function needsManualOrientation(exif: ExifInfo, bitmap: ImageBitmap): boolean {
+  const orientation = exif.Orientation || 1;
+  if (orientation < 5 || !exif.ExifImageWidth || !exif.ExifImageHeight) return false;
+  return exif.ExifImageWidth !== exif.ExifImageHeight &&
+    bitmap.width === exif.ExifImageWidth && bitmap.height === exif.ExifImageHeight;
+}
+
+// Standard EXIF orientation transforms for a width x height output
+function applyOrientation(ctx: OffscreenCanvasRenderingContext2D, orientation: number, width: number, height: number) {
+  switch (orientation) {
+    case 2: ctx.setTransform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.setTransform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.setTransform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.setTransform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.setTransform(0, 1, -1, 0, width, 0); break;
+    case 7: ctx.setTransform(0, -1, -1, 0, width, height); break;
+    case 8: ctx.setTransform(0, -1, 1, 0, 0, height); break;
+  }
+}
+
+function hasTransparency(ctx: OffscreenCanvasRenderingContext2D, width: number, height: number): boolean {
+  const { data } = ctx.getImageData(0, 0, width, height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+}
+
+function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
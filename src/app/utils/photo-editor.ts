@@ -0,0 +1,165 @@
+import { PhotoCrop } from '../models/player.model';
+
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The part of the Shape Detection API's FaceDetector used here; not in the DOM typings yet
+declare global {
+  interface Window {
+    FaceDetector?: new (options?: { maxDetectedFaces?: number; fastMode?: boolean }) => {
+      detect(image: ImageBitmapSource): Promise<{ boundingBox: DOMRectReadOnly }[]>;
+    };
+  }
+}
+
+// Where a framed face should land in the photo slot, as fractions of its size
+const FACE_HEIGHT = 0.35;
+const FACE_CENTER_Y = 0.38;
+export const MAX_PHOTO_ZOOM = 4;
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load photo'));
+    image.src = src;
+  });
+}
+
+// Draw the photo into a width x height canvas with the crop, rotation and color adjustments applied
+export function renderCroppedPhoto(image: HTMLImageElement, crop: PhotoCrop, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: crop.removeBackground })!;
+
+  const scale = coverScale(image, width, height) * crop.zoom;
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+
+  ctx.filter = `brightness(${crop.brightness}%) contrast(${crop.contrast}%)`;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(width / 2 + crop.offsetX * width, height / 2 + crop.offsetY * height);
+  ctx.rotate(crop.rotation * Math.PI / 180);
+  ctx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.filter = 'none';
+
+  if (crop.removeBackground) {
+    const pixels = ctx.getImageData(0, 0, width, height);
+    removeBackground(pixels, crop.backgroundTolerance);
+    ctx.putImageData(pixels, 0, 0);
+  }
+
+  return canvas;
+}
+
+// Cutouts need transparency; plain crops stay small as JPEG
+export function exportCroppedPhoto(canvas: HTMLCanvasElement, crop: PhotoCrop): string {
+  return crop.removeBackground ? canvas.toDataURL('image/png') : canvas.toDataURL('image/jpeg', 0.9);
+}
+
+// Flood-fill the backdrop from the top, left and right edges (the bottom edge is usually
+// the player's shirt) and make it transparent. A pixel joins the fill when its color is
+// within the tolerance of the edge pixel the fill started from, so soft gradients in a
+// studio backdrop are followed without leaking into the subject.
+export function removeBackground(image: ImageData, tolerance: number): void {
+  const { width, height, data } = image;
+  const limit = (tolerance / 100 * 255) ** 2 * 3;
+  const seedOf = new Int32Array(width * height).fill(-1);
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+
+  const distance = (a: number, b: number) => {
+    const dr = data[a * 4] - data[b * 4];
+    const dg = data[a * 4 + 1] - data[b * 4 + 1];
+    const db = data[a * 4 + 2] - data[b * 4 + 2];
+    return dr * dr + dg * dg + db * db;
+  };
+  const visit = (index: number, seed: number) => {
+    if (seedOf[index] !== -1) return;
+    // Empty corners left by rotating or zooming out are background too
+    if (data[index * 4 + 3] === 0 || distance(index, seed) <= limit) {
+      seedOf[index] = seed;
+      queue[tail++] = index;
+    }
+  };
+
+  for (let x = 0; x < width; x++) visit(x, x);
+  for (let y = 0; y < height; y++) {
+    visit(y * width, y * width);
+    visit(y * width + width - 1, y * width + width - 1);
+  }
+
+  while (head < tail) {
+    const index = queue[head++];
+    const seed = seedOf[index];
+    const x = index % width;
+    if (x > 0) visit(index - 1, seed);
+    if (x < width - 1) visit(index + 1, seed);
+    if (index >= width) visit(index - width, seed);
+    if (index < width * (height - 1)) visit(index + width, seed);
+  }
+
+  for (let index = 0; index < width * height; index++) {
+    if (seedOf[index] !== -1) {
+      data[index * 4 + 3] = 0;
+      continue;
+    }
+    // Soften the cut along the subject's outline
+    const x = index % width;
+    const touchesBackground =
+      (x > 0 && seedOf[index - 1] !== -1) ||
+      (x < width - 1 && seedOf[index + 1] !== -1) ||
+      (index >= width && seedOf[index - width] !== -1) ||
+      (index < width * (height - 1) && seedOf[index + width] !== -1);
+    if (touchesBackground) {
+      data[index * 4 + 3] = Math.round(data[index * 4 + 3] / 2);
+    }
+  }
+}
+
+// Browser face detection (Shape Detection API); only some browsers ship it, and it runs locally
+export function canDetectFaces(): boolean {
+  return typeof window.FaceDetector === 'function';
+}
+
+export async function detectFace(image: HTMLImageElement): Promise<FaceBox | null> {
+  if (!window.FaceDetector) return null;
+
+  const detector = new window.FaceDetector({ maxDetectedFaces: 5, fastMode: false });
+  const faces = await detector.detect(image);
+  if (faces.length === 0) return null;
+
+  // The largest face is the subject
+  const { x, y, width, height } = faces
+    .map(face => face.boundingBox)
+    .reduce((largest, box) => box.width * box.height > largest.width * largest.height ? box : largest);
+  return { x, y, width, height };
+}
+
+// Zoom and offsets that put the face at a card-like size and position in the slot
+export function frameFace(image: HTMLImageElement, face: FaceBox, width: number, height: number, crop: PhotoCrop): PhotoCrop {
+  const baseScale = coverScale(image, width, height);
+  const zoom = Math.min(MAX_PHOTO_ZOOM, Math.max(1, FACE_HEIGHT * height / (face.height * baseScale)));
+  const scale = baseScale * zoom;
+  const faceX = face.x + face.width / 2 - image.naturalWidth / 2;
+  const faceY = face.y + face.height / 2 - image.naturalHeight / 2;
+
+  return {
+    ...crop,
+    zoom,
+    rotation: 0,
+    offsetX: -faceX * scale / width,
+    offsetY: (FACE_CENTER_Y * height - height / 2 - faceY * scale) / height
+  };
+}
+
+function coverScale(image: HTMLImageElement, width: number, height: number): number {
+  return Math.max(width / image.naturalWidth, height / image.naturalHeight);
+}
@@ -0,0 +1,72 @@
+// Letters NFD does not decompose into a base letter plus accent
+const SPECIAL_LETTERS: Record<string, string> = { ø: 'o', æ: 'ae', œ: 'oe', ß: 'ss', ł: 'l', đ: 'd', ð: 'd', þ: 'th' };
+
+// "Loïc Müller-Ødegaard" -> ["loic", "muller", "odegaard"]
+export function nameTokens(value: string): string[] {
+  return value
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[øæœßłđðþ]/g, letter => SPECIAL_LETTERS[letter])
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// "Team A/Sarah-Chen.JPG" -> "Sarah-Chen"
+export function photoBaseName(path: string): string {
+  return (path.split('/').pop() || '').replace(/\.[^.]+$/, '');
+}
+
+export function photoFolderName(path: string): string {
+  const parts = path.split('/');
+  return parts.length > 1 ? parts[parts.length - 2] : '';
+}
+
+// Photo values that can be shown as they are; anything else is a file name to look up.
+// blob: URLs are left out, they do not outlive the page that made them.
+export function isImageSource(value: string): boolean {
+  return /^(data:|https?:\/\/)/i.test(value);
+}
+
+// 0..1 likeness of a player name to a photo path. The file name is compared token by
+// token in any order ("chen_sarah") and also run together ("sarahchen"); numbering
+// such as "_02" is ignored, and "Sarah Chen/photo.jpg" is matched on its folder.
+export function scorePhotoMatch(name: string, path: string): number {
+  const player = nameTokens(name);
+  return Math.max(
+    scoreTokens(player, nameTokens(photoBaseName(path))),
+    scoreTokens(player, nameTokens(photoFolderName(path)))
+  );
+}
+
+function scoreTokens(player: string[], file: string[]): number {
+  const words = file.filter(token => !/^\d+$/.test(token) || player.includes(token));
+  if (player.length === 0 || words.length === 0) return 0;
+
+  const byToken = player.reduce((sum, token) => sum + Math.max(...words.map(word => tokenSimilarity(token, word))), 0)
+    / Math.max(player.length, words.length);
+  return Math.max(byToken, tokenSimilarity(player.join(''), words.join('')));
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  // An initial stands for the whole name ("s_chen")
+  if ((a.length === 1 && b.startsWith(a)) || (b.length === 1 && a.startsWith(b))) return 0.8;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
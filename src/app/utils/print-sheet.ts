@@ -0,0 +1,237 @@
+import { CARD_SIZES, CardSize, PAPER_SIZES, PaperSize, PrintProfile } from '../models/print.model';
+
+// Sheet geometry is worked out in millimetres from the top-left page corner and only
+// converted to PDF points (bottom-left origin) or pixels when drawing.
+
+const POINTS_PER_MM = 72 / 25.4;
+// Office and digital presses cannot print right up to the paper edge
+const PRINTER_MARGIN_MM = 5;
+// Crop marks start just outside the bleed so they never land on the artwork
+const MARK_OFFSET_MM = 1;
+const MARK_LENGTH_MM = 3;
+
+export interface Edges {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+export interface SheetSlot {
+  x: number; // trim box top-left, mm
+  y: number;
+  bleed: Edges; // bleed printed on each side; inner sides are limited by the gutter
+}
+
+export interface CropMark {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface SheetLayout {
+  cardSize: CardSize;
+  paper: PaperSize;
+  landscape: boolean;
+  pageWidth: number; // mm, as placed
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  slots: SheetSlot[]; // row by row from the top-left
+  backSlots: SheetSlot[]; // where the back of slots[i] lands on the following page
+  cropMarks: CropMark[];
+}
+
+export function mmToPoints(mm: number): number {
+  return mm * POINTS_PER_MM;
+}
+
+export function mmToPixels(mm: number, dpi: number): number {
+  return Math.round(mm / 25.4 * dpi);
+}
+
+// Fit as many cards as the paper takes (portrait or landscape, whichever holds more),
+// centered so the back page lines up with the front when printed double-sided
+export function layoutSheet(profile: PrintProfile): SheetLayout {
+  const cardSize = CARD_SIZES.find(size => size.id === profile.cardSizeId) || CARD_SIZES[0];
+  const paper = PAPER_SIZES.find(size => size.id === profile.paperSizeId) || PAPER_SIZES[0];
+  const { bleedMm: bleed, gutterMm: gutter } = profile;
+  const margin = Math.max(PRINTER_MARGIN_MM, profile.cropMarks ? bleed + MARK_OFFSET_MM + MARK_LENGTH_MM : bleed);
+
+  const fit = (length: number, card: number) => Math.max(0, Math.floor((length - 2 * margin + gutter) / (card + gutter)));
+  const portrait = { columns: fit(paper.widthMm, cardSize.widthMm), rows: fit(paper.heightMm, cardSize.heightMm) };
+  const landscape = { columns: fit(paper.heightMm, cardSize.widthMm), rows: fit(paper.widthMm, cardSize.heightMm) };
+  const useLandscape = landscape.columns * landscape.rows > portrait.columns * portrait.rows;
+  const { columns, rows } = useLandscape ? landscape : portrait;
+
+  if (columns * rows === 0) {
+    throw new Error(`${cardSize.name} cards do not fit on ${paper.name} with this bleed`);
+  }
+
+  const pageWidth = useLandscape ? paper.heightMm : paper.widthMm;
+  const pageHeight = useLandscape ? paper.widthMm : paper.heightMm;
+  const gridWidth = columns * cardSize.widthMm + (columns - 1) * gutter;
+  const gridHeight = rows * cardSize.heightMm + (rows - 1) * gutter;
+  const left = (pageWidth - gridWidth) / 2;
+  const top = (pageHeight - gridHeight) / 2;
+  // Edge to edge cards share a cut line, so only the outer edges of the grid get bleed
+  const innerBleed = Math.min(bleed, gutter / 2);
+
+  const slots: SheetSlot[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      slots.push({
+        x: left + column * (cardSize.widthMm + gutter),
+        y: top + row * (cardSize.heightMm + gutter),
+        bleed: {
+          left: column === 0 ? bleed : innerBleed,
+          right: column === columns - 1 ? bleed : innerBleed,
+          top: row === 0 ? bleed : innerBleed,
+          bottom: row === rows - 1 ? bleed : innerBleed
+        }
+      });
+    }
+  }
+
+  const layout: SheetLayout = {
+    cardSize,
+    paper,
+    landscape: useLandscape,
+    pageWidth,
+    pageHeight,
+    columns,
+    rows,
+    slots,
+    backSlots: slots.map(slot => mirrorSlot(slot, useLandscape, pageWidth, pageHeight, cardSize)),
+    cropMarks: []
+  };
+
+  if (profile.cropMarks) {
+    layout.cropMarks = buildCropMarks(layout, bleed);
+  }
+
+  return layout;
+}
+
+// Backs are printed for a flip on the long edge: a portrait sheet turns over left to
+// right, so columns swap; a landscape sheet turns over top to bottom, so rows swap.
+function mirrorSlot(slot: SheetSlot, landscape: boolean, pageWidth: number, pageHeight: number, cardSize: CardSize): SheetSlot {
+  const { left, right, top, bottom } = slot.bleed;
+  return landscape
+    ? { x: slot.x, y: pageHeight - slot.y - cardSize.heightMm, bleed: { left, right, top: bottom, bottom: top } }
+    : { x: pageWidth - slot.x - cardSize.widthMm, y: slot.y, bleed: { left: right, right: left, top, bottom } };
+}
+
+// A mark in the margin on both ends of every trim line, so each card's four cuts are marked
+function buildCropMarks(layout: SheetLayout, bleed: number): CropMark[] {
+  const { slots, cardSize, columns, rows } = layout;
+  const xs = new Set<number>();
+  const ys = new Set<number>();
+  slots.slice(0, columns).forEach(slot => xs.add(slot.x).add(slot.x + cardSize.widthMm));
+  slots.filter((_, index) => index % columns === 0).forEach(slot => ys.add(slot.y).add(slot.y + cardSize.heightMm));
+
+  const gridLeft = slots[0].x - bleed - MARK_OFFSET_MM;
+  const gridRight = slots[columns - 1].x + cardSize.widthMm + bleed + MARK_OFFSET_MM;
+  const gridTop = slots[0].y - bleed - MARK_OFFSET_MM;
+  const gridBottom = slots[(rows - 1) * columns].y + cardSize.heightMm + bleed + MARK_OFFSET_MM;
+
+  const marks: CropMark[] = [];
+  xs.forEach(x => marks.push(
+    { x1: x, y1: gridTop, x2: x, y2: gridTop - MARK_LENGTH_MM },
+    { x1: x, y1: gridBottom, x2: x, y2: gridBottom + MARK_LENGTH_MM }
+  ));
+  ys.forEach(y => marks.push(
+    { x1: gridLeft, y1: y, x2: gridLeft - MARK_LENGTH_MM, y2: y },
+    { x1: gridRight, y1: y, x2: gridRight + MARK_LENGTH_MM, y2: y }
+  ));
+  return marks;
+}
+
+// Grow a trim-size card image by `bleed` pixels on every side, mirroring the edge
+// artwork outwards so a slightly off cut still shows the card's own colors
+export function extendBleed(card: HTMLCanvasElement, bleed: number): HTMLCanvasElement {
+  if (bleed === 0) return card;
+
+  const { width, height } = card;
+  const canvas = document.createElement('canvas');
+  canvas.width = width + 2 * bleed;
+  canvas.height = height + 2 * bleed;
+  const ctx = canvas.getContext('2d')!;
+
+  // -1: the band along the left/top edge, 0: the whole card, 1: the band along the right/bottom edge
+  const bands = [-1, 0, 1];
+  for (const bandX of bands) {
+    for (const bandY of bands) {
+      const sourceX = bandX === 1 ? width - bleed : 0;
+      const sourceY = bandY === 1 ? height - bleed : 0;
+      const drawWidth = bandX === 0 ? width : bleed;
+      const drawHeight = bandY === 0 ? height : bleed;
+      const targetX = bandX === -1 ? 0 : bandX === 0 ? bleed : bleed + width;
+      const targetY = bandY === -1 ? 0 : bandY === 0 ? bleed : bleed + height;
+
+      ctx.save();
+      ctx.translate(targetX + (bandX !== 0 ? drawWidth : 0), targetY + (bandY !== 0 ? drawHeight : 0));
+      ctx.scale(bandX !== 0 ? -1 : 1, bandY !== 0 ? -1 : 1);
+      ctx.drawImage(card, sourceX, sourceY, drawWidth, drawHeight, 0, 0, drawWidth, drawHeight);
+      ctx.restore();
+    }
+  }
+
+  return canvas;
+}
+
+// Most saturated chroma (0-1) a coated-paper CMYK press reproduces at each hue, roughly:
+// yellows print almost fully, screen blues and greens fall well short
+const GAMUT_LIMITS: [number, number][] = [
+  [0, 0.85], [60, 1], [120, 0.75], [180, 0.8], [240, 0.6], [300, 0.85], [360, 0.85]
+];
+// Chroma below this share of the hue's limit is left untouched
+const GAMUT_KNEE = 0.8;
+
+// Compress out-of-gamut RGB colors towards gray at the same lightness so they print as
+// a clean, slightly duller color instead of clipping unpredictably at the printer. An
+// approximation of the coated-paper gamut, not an ICC conversion: the print shop's RIP
+// still does the actual separation to CMYK.
+export function limitToPrintGamut(image: ImageData): void {
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const chroma = (max - min) / 255;
+    if (chroma === 0) continue;
+
+    const limit = gamutLimit(hue(r, g, b, max, min));
+    const knee = limit * GAMUT_KNEE;
+    if (chroma <= knee) continue;
+
+    const compressed = knee + (chroma - knee) * (limit - knee) / (1 - knee);
+    const factor = compressed / chroma;
+    const gray = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    data[i] = gray + (r - gray) * factor;
+    data[i + 1] = gray + (g - gray) * factor;
+    data[i + 2] = gray + (b - gray) * factor;
+  }
+}
+
+function hue(r: number, g: number, b: number, max: number, min: number): number {
+  const delta = max - min;
+  const degrees = max === r ? ((g - b) / delta) % 6
+    : max === g ? (b - r) / delta + 2
+    : (r - g) / delta + 4;
+  return (degrees * 60 + 360) % 360;
+}
+
+function gamutLimit(hueDegrees: number): number {
+  for (let i = 1; i < GAMUT_LIMITS.length; i++) {
+    const [hueTo, limitTo] = GAMUT_LIMITS[i];
+    if (hueDegrees <= hueTo) {
+      const [hueFrom, limitFrom] = GAMUT_LIMITS[i - 1];
+      return limitFrom + (limitTo - limitFrom) * (hueDegrees - hueFrom) / (hueTo - hueFrom);
+    }
+  }
+  return GAMUT_LIMITS[0][1];
+}
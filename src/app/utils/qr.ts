@@ -0,0 +1,39 @@
+import { create } from 'qrcode';
+
+// Light border around the code, in modules; scanners need it to find the symbol
+const QUIET_ZONE = 2;
+
+export interface QrMatrix {
+  size: number; // modules per side, quiet zone included
+  runs: { x: number; y: number; length: number }[]; // horizontal runs of dark modules
+}
+
+// Dark modules merged into horizontal runs, so a code is a few hundred rectangles
+// instead of one per module
+export function encodeQr(text: string): QrMatrix {
+  const { modules } = create(text, { errorCorrectionLevel: 'M' });
+  const runs: QrMatrix['runs'] = [];
+
+  for (let row = 0; row < modules.size; row++) {
+    let start = -1;
+    for (let column = 0; column <= modules.size; column++) {
+      const dark = column < modules.size && !!modules.get(row, column);
+      if (dark && start === -1) {
+        start = column;
+      } else if (!dark && start !== -1) {
+        runs.push({ x: start + QUIET_ZONE, y: row + QUIET_ZONE, length: column - start });
+        start = -1;
+      }
+    }
+  }
+
+  return { size: modules.size + 2 * QUIET_ZONE, runs };
+}
+
+// Black on white SVG of the code for <img> previews
+export function qrToDataUrl(qr: QrMatrix): string {
+  const path = qr.runs.map(run => `M${run.x} ${run.y}h${run.length}v1h-${run.length}z`).join('');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${qr.size} ${qr.size}" shape-rendering="crispEdges">` +
+    `<rect width="${qr.size}" height="${qr.size}" fill="#ffffff"/><path d="${path}" fill="#000000"/></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
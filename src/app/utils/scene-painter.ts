@@ -0,0 +1,469 @@
+// Backend-agnostic drawing primitives for card rendering. A scene is a flat list
+// of primitives in card coordinates that can be painted to a canvas or serialized
+// as SVG, so both outputs stay pixel-compatible.
+
+export type SceneShape =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; radius?: number }
+  | { kind: 'circle'; cx: number; cy: number; r: number }
+  | { kind: 'polygon'; points: [number, number][] };
+
+export interface SceneGradient {
+  angle: number; // CSS angle in degrees
+  stops: { offset: number; color: string }[]; // offset 0-1
+}
+
+export type ScenePaint = string | SceneGradient;
+
+export interface SceneFont {
+  family: string;
+  size: number;
+  weight: number;
+}
+
+export type ScenePrimitive =
+  | { type: 'fill'; shape: SceneShape; paint: ScenePaint; opacity?: number }
+  | { type: 'stroke'; shape: SceneShape; color: string; width: number }
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; color: string; width: number }
+  | {
+      type: 'image';
+      src: string;
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      fit: 'fill' | 'cover-top' | 'contain';
+      clip?: SceneShape;
+      opacity?: number;
+    }
+  | {
+      type: 'text';
+      text: string;
+      x: number;
+      y: number;
+      font: SceneFont;
+      color: string;
+      align: 'left' | 'center' | 'right';
+      letterSpacing?: number;
+      maxWidth?: number; // truncates with an ellipsis
+      shadow?: { color: string; blur: number; offsetX: number; offsetY: number };
+    };
+
+export interface CardScene {
+  width: number;
+  height: number;
+  primitives: ScenePrimitive[];
+}
+
+export type ImageLoader = (src: string) => Promise<HTMLImageElement>;
+
+// ===== Canvas backend =====
+
+export async function paintSceneToCanvas(
+  ctx: CanvasRenderingContext2D,
+  scene: CardScene,
+  loadImage: ImageLoader
+): Promise<void> {
+  // Load every image up front so the paint pass itself is synchronous and ordered
+  const images = new Map<string, HTMLImageElement | null>();
+  await Promise.all(
+    scene.primitives
+      .filter((p): p is Extract<ScenePrimitive, { type: 'image' }> => p.type === 'image')
+      .map(async p => {
+        try {
+          images.set(p.src, await loadImage(p.src));
+        } catch (error) {
+          console.warn('Failed to load scene image:', error);
+          images.set(p.src, null);
+        }
+      })
+  );
+
+  for (const primitive of scene.primitives) {
+    ctx.save();
+
+    switch (primitive.type) {
+      case 'fill':
+        ctx.globalAlpha = primitive.opacity ?? 1;
+        ctx.fillStyle = toCanvasPaint(ctx, primitive.paint, shapeBounds(primitive.shape));
+        traceShape(ctx, primitive.shape);
+        ctx.fill();
+        break;
+
+      case 'stroke':
+        ctx.strokeStyle = primitive.color;
+        ctx.lineWidth = primitive.width;
+        traceShape(ctx, primitive.shape);
+        ctx.stroke();
+        break;
+
+      case 'line':
+        ctx.strokeStyle = primitive.color;
+        ctx.lineWidth = primitive.width;
+        ctx.beginPath();
+        ctx.moveTo(primitive.x1, primitive.y1);
+        ctx.lineTo(primitive.x2, primitive.y2);
+        ctx.stroke();
+        break;
+
+      case 'image': {
+        const image = images.get(primitive.src);
+        if (!image) break;
+
+        ctx.globalAlpha = primitive.opacity ?? 1;
+        if (primitive.clip) {
+          traceShape(ctx, primitive.clip);
+          ctx.clip();
+        }
+
+        const source = fitImage(image.naturalWidth, image.naturalHeight, primitive);
+        ctx.drawImage(
+          image,
+          source.sx, source.sy, source.sw, source.sh,
+          source.dx, source.dy, source.dw, source.dh
+        );
+        break;
+      }
+
+      case 'text':
+        ctx.font = `${primitive.font.weight} ${primitive.font.size}px ${quoteFontFamily(primitive.font.family)}`;
+        ctx.fillStyle = primitive.color;
+        ctx.textAlign = primitive.align;
+        ctx.textBaseline = 'middle';
+        ctx.letterSpacing = `${primitive.letterSpacing ?? 0}px`;
+        if (primitive.shadow) {
+          ctx.shadowColor = primitive.shadow.color;
+          ctx.shadowBlur = primitive.shadow.blur;
+          ctx.shadowOffsetX = primitive.shadow.offsetX;
+          ctx.shadowOffsetY = primitive.shadow.offsetY;
+        }
+        ctx.fillText(
+          truncateText(primitive.text, primitive.maxWidth, text => ctx.measureText(text).width),
+          primitive.x,
+          primitive.y
+        );
+        break;
+    }
+
+    ctx.restore();
+  }
+}
+
+function traceShape(ctx: CanvasRenderingContext2D, shape: SceneShape): void {
+  ctx.beginPath();
+  switch (shape.kind) {
+    case 'rect':
+      if (shape.radius) {
+        ctx.roundRect(shape.x, shape.y, shape.width, shape.height, shape.radius);
+      } else {
+        ctx.rect(shape.x, shape.y, shape.width, shape.height);
+      }
+      break;
+    case 'circle':
+      ctx.arc(shape.cx, shape.cy, shape.r, 0, Math.PI * 2);
+      break;
+    case 'polygon':
+      shape.points.forEach(([x, y], index) => index === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y));
+      ctx.closePath();
+      break;
+  }
+}
+
+function toCanvasPaint(
+  ctx: CanvasRenderingContext2D,
+  paint: ScenePaint,
+  bounds: { x: number; y: number; width: number; height: number }
+): string | CanvasGradient {
+  if (typeof paint === 'string') return paint;
+
+  const line = gradientLine(paint.angle, bounds);
+  const gradient = ctx.createLinearGradient(line.x1, line.y1, line.x2, line.y2);
+  paint.stops.forEach(stop => gradient.addColorStop(Math.max(0, Math.min(1, stop.offset)), stop.color));
+  return gradient;
+}
+
+// ===== SVG backend =====
+
+export function sceneToSVG(scene: CardScene, inlineImages: Map<string, string>): string {
+  const defs: string[] = [];
+  const body: string[] = [];
+  let defId = 0;
+
+  const nextId = (prefix: string) => `${prefix}${defId++}`;
+
+  for (const primitive of scene.primitives) {
+    switch (primitive.type) {
+      case 'fill': {
+        let fill: string;
+        if (typeof primitive.paint === 'string') {
+          fill = escapeAttr(primitive.paint);
+        } else {
+          const id = nextId('g');
+          const line = gradientLine(primitive.paint.angle, shapeBounds(primitive.shape));
+          defs.push(
+            `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${fmt(line.x1)}" y1="${fmt(line.y1)}" x2="${fmt(line.x2)}" y2="${fmt(line.y2)}">` +
+            primitive.paint.stops.map(stop => `<stop offset="${fmt(stop.offset)}" stop-color="${escapeAttr(stop.color)}"/>`).join('') +
+            `</linearGradient>`
+          );
+          fill = `url(#${id})`;
+        }
+        body.push(shapeToSVG(primitive.shape, `fill="${fill}"` + opacityAttr(primitive.opacity)));
+        break;
+      }
+
+      case 'stroke':
+        body.push(shapeToSVG(primitive.shape, `fill="none" stroke="${escapeAttr(primitive.color)}" stroke-width="${fmt(primitive.width)}"`));
+        break;
+
+      case 'line':
+        body.push(
+          `<line x1="${fmt(primitive.x1)}" y1="${fmt(primitive.y1)}" x2="${fmt(primitive.x2)}" y2="${fmt(primitive.y2)}" ` +
+          `stroke="${escapeAttr(primitive.color)}" stroke-width="${fmt(primitive.width)}"/>`
+        );
+        break;
+
+      case 'image': {
+        const href = inlineImages.get(primitive.src);
+        if (!href) break;
+
+        let clipAttr = '';
+        if (primitive.clip) {
+          const id = nextId('c');
+          defs.push(`<clipPath id="${id}">${shapeToSVG(primitive.clip, '')}</clipPath>`);
+          clipAttr = ` clip-path="url(#${id})"`;
+        }
+
+        const aspect = primitive.fit === 'fill' ? 'none' : primitive.fit === 'cover-top' ? 'xMidYMin slice' : 'xMidYMid meet';
+        body.push(
+          `<image href="${escapeAttr(href)}" x="${fmt(primitive.x)}" y="${fmt(primitive.y)}" ` +
+          `width="${fmt(primitive.width)}" height="${fmt(primitive.height)}" preserveAspectRatio="${aspect}"` +
+          clipAttr + opacityAttr(primitive.opacity) + `/>`
+        );
+        break;
+      }
+
+      case 'text': {
+        let filterAttr = '';
+        if (primitive.shadow) {
+          const id = nextId('s');
+          defs.push(
+            `<filter id="${id}" x="-20%" y="-50%" width="140%" height="200%">` +
+            `<feDropShadow dx="${fmt(primitive.shadow.offsetX)}" dy="${fmt(primitive.shadow.offsetY)}" ` +
+            `stdDeviation="${fmt(primitive.shadow.blur / 2)}" flood-color="${escapeAttr(primitive.shadow.color)}"/></filter>`
+          );
+          filterAttr = ` filter="url(#${id})"`;
+        }
+
+        const anchor = primitive.align === 'center' ? 'middle' : primitive.align === 'right' ? 'end' : 'start';
+        const text = truncateText(primitive.text, primitive.maxWidth, value => estimateTextWidth(value, primitive.font, primitive.letterSpacing));
+        body.push(
+          `<text x="${fmt(primitive.x)}" y="${fmt(primitive.y)}" dominant-baseline="central" text-anchor="${anchor}" ` +
+          `font-family="${escapeAttr(primitive.font.family)}" font-size="${fmt(primitive.font.size)}" font-weight="${primitive.font.weight}" ` +
+          `fill="${escapeAttr(primitive.color)}"` +
+          (primitive.letterSpacing ? ` letter-spacing="${fmt(primitive.letterSpacing)}"` : '') +
+          filterAttr + `>${escapeText(text)}</text>`
+        );
+        break;
+      }
+    }
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}" height="${scene.height}" viewBox="0 0 ${scene.width} ${scene.height}">` +
+    (defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '') +
+    body.join('') +
+    `</svg>`;
+}
+
+function shapeToSVG(shape: SceneShape, attrs: string): string {
+  switch (shape.kind) {
+    case 'rect':
+      return `<rect x="${fmt(shape.x)}" y="${fmt(shape.y)}" width="${fmt(shape.width)}" height="${fmt(shape.height)}"` +
+        (shape.radius ? ` rx="${fmt(shape.radius)}"` : '') + ` ${attrs}/>`;
+    case 'circle':
+      return `<circle cx="${fmt(shape.cx)}" cy="${fmt(shape.cy)}" r="${fmt(shape.r)}" ${attrs}/>`;
+    case 'polygon':
+      return `<polygon points="${shape.points.map(([x, y]) => `${fmt(x)},${fmt(y)}`).join(' ')}" ${attrs}/>`;
+  }
+}
+
+// ===== Shared geometry and text helpers =====
+
+// Parse a CSS `linear-gradient(...)` string into a scene gradient
+export function parseLinearGradient(css: string): SceneGradient | null {
+  const match = css.trim().match(/^linear-gradient\((.*)\)$/i);
+  if (!match) return null;
+
+  // Split on commas that are not inside rgb()/rgba() parentheses
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of match[1]) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current.trim());
+
+  let angle = 180; // CSS default: to bottom
+  const angleMatch = parts[0]?.match(/^(-?[\d.]+)deg$/);
+  if (angleMatch) {
+    angle = parseFloat(angleMatch[1]);
+    parts.shift();
+  }
+
+  const stops = parts.map((part, index) => {
+    const stopMatch = part.match(/^(.*?)\s+(-?[\d.]+)%$/);
+    return stopMatch
+      ? { color: stopMatch[1].trim(), offset: parseFloat(stopMatch[2]) / 100 }
+      : { color: part, offset: parts.length > 1 ? index / (parts.length - 1) : 0 };
+  });
+
+  return stops.length > 0 ? { angle, stops } : null;
+}
+
+// Inverse of parseLinearGradient, for gradients built in the template editor
+export function formatLinearGradient(gradient: SceneGradient): string {
+  const stops = [...gradient.stops]
+    .sort((a, b) => a.offset - b.offset)
+    .map(stop => `${stop.color} ${Math.round(stop.offset * 100)}%`);
+  return `linear-gradient(${Math.round(gradient.angle)}deg, ${stops.join(', ')})`;
+}
+
+// Compute the CSS gradient line for an angle over a box
+function gradientLine(angle: number, bounds: { x: number; y: number; width: number; height: number }) {
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const halfLength = (Math.abs(bounds.width * dx) + Math.abs(bounds.height * dy)) / 2;
+  const cx = bounds.x + bounds.width / 2;
+  const cy = bounds.y + bounds.height / 2;
+
+  return {
+    x1: cx - dx * halfLength,
+    y1: cy - dy * halfLength,
+    x2: cx + dx * halfLength,
+    y2: cy + dy * halfLength
+  };
+}
+
+export function shapeBounds(shape: SceneShape): { x: number; y: number; width: number; height: number } {
+  switch (shape.kind) {
+    case 'rect':
+      return { x: shape.x, y: shape.y, width: shape.width, height: shape.height };
+    case 'circle':
+      return { x: shape.cx - shape.r, y: shape.cy - shape.r, width: shape.r * 2, height: shape.r * 2 };
+    case 'polygon': {
+      const xs = shape.points.map(([x]) => x);
+      const ys = shape.points.map(([, y]) => y);
+      const x = Math.min(...xs);
+      const y = Math.min(...ys);
+      return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+    }
+  }
+}
+
+function fitImage(
+  naturalWidth: number,
+  naturalHeight: number,
+  target: { x: number; y: number; width: number; height: number; fit: 'fill' | 'cover-top' | 'contain' }
+) {
+  const full = { sx: 0, sy: 0, sw: naturalWidth, sh: naturalHeight };
+
+  if (target.fit === 'fill' || !naturalWidth || !naturalHeight) {
+    return { ...full, dx: target.x, dy: target.y, dw: target.width, dh: target.height };
+  }
+
+  const imageRatio = naturalWidth / naturalHeight;
+  const targetRatio = target.width / target.height;
+
+  if (target.fit === 'contain') {
+    const dw = imageRatio > targetRatio ? target.width : target.height * imageRatio;
+    const dh = imageRatio > targetRatio ? target.width / imageRatio : target.height;
+    return {
+      ...full,
+      dx: target.x + (target.width - dw) / 2,
+      dy: target.y + (target.height - dh) / 2,
+      dw,
+      dh
+    };
+  }
+
+  // cover-top: fill the box, crop horizontally around the center and vertically from the top
+  if (imageRatio > targetRatio) {
+    const sw = naturalHeight * targetRatio;
+    return { sx: (naturalWidth - sw) / 2, sy: 0, sw, sh: naturalHeight, dx: target.x, dy: target.y, dw: target.width, dh: target.height };
+  }
+  return { sx: 0, sy: 0, sw: naturalWidth, sh: naturalWidth / targetRatio, dx: target.x, dy: target.y, dw: target.width, dh: target.height };
+}
+
+function truncateText(text: string, maxWidth: number | undefined, measure: (value: string) => number): string {
+  if (!maxWidth || measure(text) <= maxWidth) return text;
+
+  let truncated = text;
+  while (truncated.length > 0 && measure(truncated + '…') > maxWidth) {
+    truncated = truncated.slice(0, -1);
+  }
+  return truncated + '…';
+}
+
+// Greedy word wrap for multi-line text, done when the scene is built so canvas and SVG
+// break lines the same way. Text that does not fit in maxLines ends in an ellipsis.
+export function wrapText(text: string, maxWidth: number, font: SceneFont, maxLines: number): string[] {
+  const measure = (value: string) => estimateTextWidth(value, font);
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.trim().split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (!current || measure(candidate) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    lines.push(current);
+    current = word;
+    if (lines.length === maxLines) break;
+  }
+  if (current && lines.length < maxLines) {
+    lines.push(current);
+    current = '';
+  }
+
+  if (current && lines.length > 0) {
+    lines[lines.length - 1] = truncateText(lines[lines.length - 1] + '…', maxWidth, measure);
+  }
+  return lines.map(line => truncateText(line, maxWidth, measure));
+}
+
+// SVG has no text measuring API without a DOM, so approximate with average glyph widths
+export function estimateTextWidth(text: string, font: SceneFont, letterSpacing = 0): number {
+  const averageGlyph = font.family.includes('Condensed') ? 0.5 : 0.58;
+  return text.length * (font.size * averageGlyph + letterSpacing);
+}
+
+function quoteFontFamily(family: string): string {
+  return family
+    .split(',')
+    .map(name => name.trim())
+    .map(name => /\s/.test(name) && !/^['"]/.test(name) ? `"${name}"` : name)
+    .join(', ');
+}
+
+function opacityAttr(opacity?: number): string {
+  return opacity !== undefined && opacity < 1 ? ` opacity="${fmt(opacity)}"` : '';
+}
+
+function fmt(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function escapeAttr(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
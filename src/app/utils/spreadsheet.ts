@@ -0,0 +1,191 @@
+import * as JSZip from 'jszip';
+
+export interface SpreadsheetSheet {
+  name: string;
+  rows: string[][]; // cell text, blank rows dropped
+}
+
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const ODS_TABLE_NS = 'urn:oasis:names:tc:opendocument:xmlns:table:1.0';
+const ODS_OFFICE_NS = 'urn:oasis:names:tc:opendocument:xmlns:office:1.0';
+const ODS_TEXT_NS = 'urn:oasis:names:tc:opendocument:xmlns:text:1.0';
+
+// Repeated empty cells/rows pad ODS sheets to their full size; never expand more than this
+const MAX_REPEAT = 1000;
+
+// Read every sheet of an .xlsx or .ods workbook as rows of cell text
+export async function readWorkbook(buffer: ArrayBuffer, extension: string): Promise<SpreadsheetSheet[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  const sheets = extension === 'ods' ? await readOds(zip) : await readXlsx(zip);
+  return sheets.filter(sheet => sheet.rows.length > 0);
+}
+
+async function readXlsx(zip: JSZip): Promise<SpreadsheetSheet[]> {
+  const workbook = await readXml(zip, 'xl/workbook.xml');
+  const relationships = await readXml(zip, 'xl/_rels/workbook.xml.rels');
+  if (!workbook || !relationships) {
+    throw new Error('Not an Excel workbook');
+  }
+
+  const targets = new Map(
+    [...relationships.getElementsByTagName('Relationship')].map(rel => [rel.getAttribute('Id'), rel.getAttribute('Target') || ''])
+  );
+  const sharedStrings = [...(await readXml(zip, 'xl/sharedStrings.xml'))?.getElementsByTagNameNS(SPREADSHEET_NS, 'si') || []]
+    .map(item => [...item.getElementsByTagNameNS(SPREADSHEET_NS, 't')].map(text => text.textContent || '').join(''));
+
+  const sheets: SpreadsheetSheet[] = [];
+  for (const sheet of [...workbook.getElementsByTagNameNS(SPREADSHEET_NS, 'sheet')]) {
+    const target = targets.get(sheet.getAttributeNS(RELATIONSHIP_NS, 'id')) || '';
+    const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    const document = await readXml(zip, path);
+    if (!document) continue;
+
+    const rows = [...document.getElementsByTagNameNS(SPREADSHEET_NS, 'row')].map(row => {
+      const values: string[] = [];
+      [...row.getElementsByTagNameNS(SPREADSHEET_NS, 'c')].forEach((cell, index) => {
+        const column = columnIndex(cell.getAttribute('r')) ?? index;
+        values[column] = xlsxCellText(cell, sharedStrings);
+      });
+      return Array.from(values, value => value ?? '');
+    });
+
+    sheets.push({ name: sheet.getAttribute('name') || `Sheet ${sheets.length + 1}`, rows: dropBlankRows(rows) });
+  }
+  return sheets;
+}
+
+function xlsxCellText(cell: Element, sharedStrings: string[]): string {
+  const type = cell.getAttribute('t');
+  const value = cell.getElementsByTagNameNS(SPREADSHEET_NS, 'v')[0]?.textContent ?? '';
+
+  switch (type) {
+    case 's': return sharedStrings[Number(value)] ?? '';
+    case 'inlineStr':
+      return [...cell.getElementsByTagNameNS(SPREADSHEET_NS, 't')].map(text => text.textContent || '').join('');
+    case 'b': return value === '1' ? 'TRUE' : 'FALSE';
+    default: return value;
+  }
+}
+
+// "C12" -> 2
+function columnIndex(reference: string | null): number | null {
+  const letters = reference?.match(/^[A-Z]+/)?.[0];
+  if (!letters) return null;
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+async function readOds(zip: JSZip): Promise<SpreadsheetSheet[]> {
+  const content = await readXml(zip, 'content.xml');
+  if (!content) {
+    throw new Error('Not an OpenDocument spreadsheet');
+  }
+
+  const body = content.getElementsByTagNameNS(ODS_OFFICE_NS, 'spreadsheet')[0];
+  if (!body) return [];
+
+  return [...body.getElementsByTagNameNS(ODS_TABLE_NS, 'table')].map((table, index) => {
+    const rows: string[][] = [];
+    [...table.getElementsByTagNameNS(ODS_TABLE_NS, 'table-row')].forEach(row => {
+      const values: string[] = [];
+      [...row.children]
+        .filter(cell => cell.namespaceURI === ODS_TABLE_NS && (cell.localName === 'table-cell' || cell.localName === 'covered-table-cell'))
+        .forEach(cell => {
+          const text = odsCellText(cell);
+          const repeat = Number(cell.getAttributeNS(ODS_TABLE_NS, 'number-columns-repeated')) || 1;
+          for (let i = 0; i < Math.min(repeat, text ? MAX_REPEAT : 1); i++) values.push(text);
+        });
+
+      const repeat = Number(row.getAttributeNS(ODS_TABLE_NS, 'number-rows-repeated')) || 1;
+      const hasText = values.some(value => value !== '');
+      for (let i = 0; i < Math.min(repeat, hasText ? MAX_REPEAT : 1); i++) rows.push([...values]);
+    });
+
+    return { name: table.getAttributeNS(ODS_TABLE_NS, 'name') || `Sheet ${index + 1}`, rows: dropBlankRows(rows) };
+  });
+}
+
+function odsCellText(cell: Element): string {
+  const paragraphs = [...cell.getElementsByTagNameNS(ODS_TEXT_NS, 'p')].map(paragraph => paragraph.textContent || '');
+  if (paragraphs.length > 0) return paragraphs.join('\n');
+  return cell.getAttributeNS(ODS_OFFICE_NS, 'value') || '';
+}
+
+function dropBlankRows(rows: string[][]): string[][] {
+  return rows
+    .map(row => row.map(value => value.trim()))
+    .filter(row => row.some(value => value !== ''));
+}
+
+async function readXml(zip: JSZip, path: string): Promise<Document | null> {
+  const file = zip.file(path);
+  if (!file) return null;
+  return new DOMParser().parseFromString(await file.async('string'), 'application/xml');
+}
+
+// Minimal single-sheet .xlsx: numbers as numeric cells, everything else as inline strings
+export async function writeXlsx(sheetName: string, rows: (string | number)[][]): Promise<Blob> {
+  const zip = new JSZip();
+  const name = escapeXml(sheetName.replace(/[\\/?*[\]:]/g, ' ').substring(0, 31) || 'Sheet1');
+
+  zip.file('[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '</Types>');
+  zip.file('_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>');
+  zip.file('xl/workbook.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    `<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}">` +
+    `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets>` +
+    '</workbook>');
+  zip.file('xl/_rels/workbook.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '</Relationships>');
+
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((value, columnIndex) => {
+      const reference = `${columnName(columnIndex)}${rowIndex + 1}`;
+      return typeof value === 'number' && isFinite(value)
+        ? `<c r="${reference}"><v>${value}</v></c>`
+        : `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value ?? ''))}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+  zip.file('xl/worksheets/sheet1.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    `<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>${sheetRows.join('')}</sheetData></worksheet>`);
+
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  });
+}
+
+// 2 -> "C", 27 -> "AB"
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + (n - 1) % 26) + name;
+  }
+  return name;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and line breaks are not allowed in XML
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
@@ -0,0 +1,48 @@
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Elements that can run script, load other documents or embed HTML
+const BLOCKED_ELEMENTS = ['script', 'foreignObject', 'iframe', 'embed', 'object', 'audio', 'video', 'handler', 'listener'];
+
+// Size used when an SVG has neither width/height nor a viewBox
+const FALLBACK_SIZE = 256;
+
+// Remove script, event handlers and external references from an SVG logo so it is
+// safe to store and draw. Canvas needs explicit dimensions, so width and height are
+// filled in from the viewBox when missing or relative. Throws if the text is not an SVG document.
+export function sanitizeSvg(markup: string): string {
+  const document = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  const svg = document.documentElement;
+  if (svg.namespaceURI !== SVG_NS || svg.localName !== 'svg' || document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Not a valid SVG file');
+  }
+
+  BLOCKED_ELEMENTS.forEach(tag => [...svg.getElementsByTagName(tag)].forEach(element => element.remove()));
+  [...svg.getElementsByTagName('style')]
+    .filter(style => /@import|url\(\s*['"]?(?!#|data:)/i.test(style.textContent || ''))
+    .forEach(style => style.remove());
+
+  [svg, ...svg.getElementsByTagName('*')].forEach(element => {
+    [...element.attributes].forEach(attribute => {
+      const name = attribute.localName.toLowerCase();
+      const value = attribute.value.trim();
+      const externalLink = (name === 'href' || name === 'src') && !value.startsWith('#') && !/^data:image\/(png|jpe?g|gif|webp);/i.test(value);
+      const externalUrl = /url\(\s*['"]?(?!#|data:)/i.test(value) || /javascript:/i.test(value);
+      if (name.startsWith('on') || externalLink || externalUrl) {
+        element.removeAttributeNode(attribute);
+      }
+    });
+  });
+
+  const relativeSize = (value: string | null) => !value || value.trim().endsWith('%');
+  if (relativeSize(svg.getAttribute('width')) || relativeSize(svg.getAttribute('height'))) {
+    const [, , width, height] = (svg.getAttribute('viewBox') || '').split(/[\s,]+/).map(Number);
+    svg.setAttribute('width', String(width > 0 ? width : FALLBACK_SIZE));
+    svg.setAttribute('height', String(height > 0 ? height : FALLBACK_SIZE));
+  }
+
+  return new XMLSerializer().serializeToString(svg);
+}
+
+export function svgToDataUrl(markup: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+}
@@ -0,0 +1,13 @@
+/// <reference lib="webworker" />
+
+import { ImageWorkerRequest, ImageWorkerResponse, processImage } from '../utils/image-pipeline';
+
+addEventListener('message', async ({ data }: MessageEvent<ImageWorkerRequest>) => {
+  let response: ImageWorkerResponse;
+  try {
+    response = { id: data.id, image: await processImage(data.blob, data.options) };
+  } catch (error) {
+    response = { id: data.id, error: error instanceof Error ? error.message : 'Could not process image' };
+  }
+  postMessage(response);
+});